@@ -1,42 +1,359 @@
 import type * as Party from "partykit/server";
+import { AuthoritativeSimulation, TICK_RATE, SNAPSHOT_INTERVAL } from "../src/game/authority";
+import { RoomRoster, SessionTable, DEFAULT_MAX_PLAYERS, RECONNECT_GRACE_MS } from "../src/game/room";
+import { CAMPAIGN_LEVELS, getLevelById } from "../src/game/levels";
+import {
+  PROTOCOL_VERSION, ServerMessage, ClientMessage, SnapshotHistory,
+  encodeServerMessage, decodeClientMessage, encodeSnapshot
+} from "../src/game/protocol";
+import { getRaceResults, MIN_RACERS } from "../src/game/race";
+import { CharacterType, RoomMode } from "../src/types";
+
+const FRAME_TIME = 1000 / TICK_RATE;
+const MAX_CATCH_UP_FRAMES = 10; // after a stall, skip ahead rather than fast-forwarding forever
+
+function parseMode(value: string | null): RoomMode {
+  return value === 'race' ? 'race' : 'multiplayer';
+}
+
+function parseCharacter(value: string | null): CharacterType {
+  const valid = Object.values(CharacterType).filter(c => c !== CharacterType.LOCKED) as string[];
+  return value && valid.includes(value) ? value as CharacterType : CharacterType.PIRATE;
+}
 
 export default class GameRoom implements Party.Server {
-  constructor(readonly room: Party.Room) {}
+  private simulation = new AuthoritativeSimulation();
+  private roster: RoomRoster;
+  private started = false;
+  private levelId = CAMPAIGN_LEVELS[0].id;
+  private mode: RoomMode = 'multiplayer';
+  private snapshots = new SnapshotHistory();
+  private acks: Map<string, number> = new Map(); // newest snapshot frame each player or spectator holds
+  private sessions = new SessionTable();
+  private spectators: Set<string> = new Set(); // connection ids watching without a player
+  private departures: Map<string, ReturnType<typeof setTimeout>> = new Map(); // dropped players' seats
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  private accumulator = 0;
+
+  constructor(readonly room: Party.Room) {
+    // Set with `--var MAX_PLAYERS=n` or partykit.json#vars
+    this.roster = new RoomRoster(Number(room.env.MAX_PLAYERS) || DEFAULT_MAX_PLAYERS);
+  }
+
+  onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
+    const params = new URL(ctx.request.url).searchParams;
 
-  onConnect(conn: Party.Connection, _ctx: Party.ConnectionContext) {
-    // First player is host
-    const isHost = [...this.room.getConnections()].length === 1;
-    
-    conn.send(JSON.stringify({
+    // A client from another build would misread our snapshots - turn it away
+    if (Number(params.get('v')) !== PROTOCOL_VERSION) {
+      this.send(conn, { type: 'version_mismatch', serverVersion: PROTOCOL_VERSION });
+      conn.close();
+      return;
+    }
+
+    // Spectators don't take a seat, so a full room can still be watched
+    if (params.get('spectate') === '1') {
+      this.addSpectator(conn);
+      return;
+    }
+
+    // A token that's still connected was copied along with a duplicated tab - resuming it
+    // would throw the original tab out, so the copy plays as someone new with its own token
+    let token = params.get('session');
+    if (token && this.sessions.isConnected(token)) token = crypto.randomUUID();
+    const resumedId = token ? this.sessions.resume(token) : null;
+    if (resumedId && this.roster.has(resumedId)) {
+      this.resumePlayer(conn, resumedId, token);
+      return;
+    }
+
+    const characterType = parseCharacter(params.get('character'));
+    const newRoom = this.roster.getLobby().length === 0;
+
+    if (!this.roster.join(conn.id, characterType)) {
+      this.send(conn, { type: 'room_full', maxPlayers: this.roster.getMaxPlayers() });
+      conn.close();
+      return;
+    }
+    // Whoever opens the room picks what it plays (the host can change it in the lobby)
+    if (newRoom) {
+      this.mode = parseMode(params.get('mode'));
+    }
+    this.sessions.bind(conn.id, conn.id, token);
+
+    this.send(conn, {
       type: 'init',
       playerId: conn.id,
-      isHost
-    }));
+      isHost: this.roster.isHost(conn.id),
+      started: this.started,
+      levelId: this.levelId,
+      frame: this.simulation.state.frame,
+      resumed: false,
+      spectator: false,
+      session: token
+    });
 
     // Notify others
-    this.room.broadcast(JSON.stringify({
-      type: 'join',
-      playerId: conn.id
-    }), [conn.id]);
+    this.broadcast({ type: 'join', playerId: conn.id }, [conn.id]);
+
+    // Latecomers to a running game drop straight in
+    if (this.started) {
+      this.simulation.addPlayer(conn.id, characterType);
+      this.broadcastSnapshot();
+    }
+    this.broadcastLobby();
+  }
+
+  private addSpectator(conn: Party.Connection) {
+    this.spectators.add(conn.id);
+    this.send(conn, {
+      type: 'init',
+      playerId: conn.id,
+      isHost: false,
+      started: this.started,
+      levelId: this.levelId,
+      frame: this.simulation.state.frame,
+      resumed: false,
+      spectator: true,
+      session: null
+    });
+
+    if (this.started) this.broadcastSnapshot();
+    this.broadcastLobby();
+  }
+
+  // A dropped player is back: they pick up the player they left, wherever it is now
+  private resumePlayer(conn: Party.Connection, playerId: string, token: string | null) {
+    const departure = this.departures.get(playerId);
+    if (departure) clearTimeout(departure);
+    this.departures.delete(playerId);
+
+    // Only reached once the old socket has closed - see onConnect
+    this.sessions.bind(conn.id, playerId, token);
+
+    this.roster.setConnected(playerId, true);
+    // Whatever baseline they acked may be gone with their old socket
+    this.acks.delete(playerId);
+
+    this.send(conn, {
+      type: 'init',
+      playerId,
+      isHost: this.roster.isHost(playerId),
+      started: this.started,
+      levelId: this.levelId,
+      frame: this.simulation.state.frame,
+      resumed: true,
+      spectator: false,
+      session: token
+    });
+
+    if (this.started) this.broadcastSnapshot();
+    this.broadcastLobby();
   }
 
-  onMessage(message: string, sender: Party.Connection) {
-    // Parse and enrich message with sender info
-    const data = JSON.parse(message);
-    
-    // Broadcast input to all players with frame number and playerId
-    this.room.broadcast(JSON.stringify({
-      ...data,
-      playerId: sender.id,
-      timestamp: Date.now()
-    }));
+  onMessage(message: string | ArrayBuffer | ArrayBufferView, sender: Party.Connection) {
+    let data: ClientMessage;
+    try {
+      data = decodeClientMessage(message);
+    } catch (e) {
+      console.warn(`Dropping message from ${sender.id}: ${(e as Error).message}`);
+      return;
+    }
+
+    if (data.type === 'ping') {
+      this.send(sender, { type: 'pong', id: data.id });
+      return;
+    }
+
+    // Spectators only ever watch
+    if (this.spectators.has(sender.id)) {
+      if (data.type === 'ack' && data.ackFrame <= this.simulation.state.frame) {
+        this.acks.set(sender.id, data.ackFrame);
+      }
+      return;
+    }
+
+    // Everything else acts on the sender's player
+    const playerId = this.sessions.getPlayer(sender.id);
+    if (!playerId) return;
+
+    if (data.type === 'ready' && !this.started) {
+      this.roster.setReady(playerId, !!data.ready);
+      this.broadcastLobby();
+    } else if (data.type === 'select_level') {
+      if (!this.started && this.roster.isHost(playerId) && getLevelById(data.levelId)) {
+        this.levelId = data.levelId;
+        this.broadcastLobby();
+      }
+    } else if (data.type === 'select_mode') {
+      if (!this.started && this.roster.isHost(playerId)) {
+        this.mode = parseMode(data.mode);
+        this.broadcastLobby();
+      }
+    } else if (data.type === 'start') {
+      if (!this.started && this.roster.isHost(playerId) && this.roster.canStart(this.mode === 'race' ? MIN_RACERS : 1)) {
+        this.startGame();
+      }
+    } else if (data.type === 'leave') {
+      // Left on purpose - no need to hold their seat
+      this.sessions.unbind(sender.id);
+      this.removePlayer(playerId);
+    } else if (data.type === 'input') {
+      this.simulation.receiveInput(playerId, data.input);
+      // Only acks for frames of this level count - stale ones fall back to full snapshots
+      if (data.ackFrame !== null && data.ackFrame <= this.simulation.state.frame) {
+        this.acks.set(playerId, data.ackFrame);
+      }
+    }
   }
 
   onClose(conn: Party.Connection) {
-    this.room.broadcast(JSON.stringify({
-      type: 'leave',
-      playerId: conn.id
-    }));
+    if (this.spectators.delete(conn.id)) {
+      this.acks.delete(conn.id);
+      this.broadcastLobby();
+      return;
+    }
+
+    // Turned away before joining, or already replaced by a reconnect
+    const playerId = this.sessions.unbind(conn.id);
+    if (!playerId) return;
+
+    // Hold their seat for a while; stand them still rather than repeating their last input
+    this.roster.setConnected(playerId, false);
+    this.simulation.idlePlayer(playerId);
+    this.departures.set(playerId, setTimeout(() => this.removePlayer(playerId), RECONNECT_GRACE_MS));
+    this.broadcastLobby();
+  }
+
+  // Gone for good: left on purpose, or dropped and didn't come back in time
+  private removePlayer(playerId: string) {
+    this.departures.delete(playerId);
+    this.sessions.forget(playerId);
+    this.simulation.removePlayer(playerId);
+    this.acks.delete(playerId);
+    const newHostId = this.roster.leave(playerId);
+
+    this.broadcast({ type: 'leave', playerId });
+
+    if (newHostId) {
+      this.broadcast({ type: 'host_changed', hostId: newHostId, frame: this.simulation.state.frame });
+    }
+
+    if (this.roster.getLobby().length === 0) {
+      // Empty room - the next crew starts from a fresh lobby
+      this.stopTicking();
+      this.started = false;
+      this.simulation = new AuthoritativeSimulation();
+    } else {
+      this.broadcastLobby();
+    }
+  }
+
+  // Everyone in the lobby enters the world on the same frame
+  private startGame() {
+    this.simulation = new AuthoritativeSimulation(getLevelById(this.levelId), this.mode);
+    for (const player of this.roster.getLobby()) {
+      this.simulation.addPlayer(player.id, player.characterType);
+    }
+    this.started = true;
+
+    // Frames restart from zero, so old baselines mean nothing now
+    this.snapshots.clear();
+    this.acks.clear();
+
+    this.broadcast({ type: 'start', levelId: this.levelId, frame: this.simulation.state.frame });
+    this.broadcastSnapshot();
+    this.startTicking();
+  }
+
+  private startTicking() {
+    if (this.timer) return;
+    this.lastTick = Date.now();
+    this.accumulator = 0;
+    this.timer = setInterval(() => this.tick(), FRAME_TIME);
+  }
+
+  private stopTicking() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // setInterval drifts, so step by wall-clock time to hold 60 frames per second
+  private tick() {
+    const now = Date.now();
+    this.accumulator = Math.min(this.accumulator + now - this.lastTick, FRAME_TIME * MAX_CATCH_UP_FRAMES);
+    this.lastTick = now;
+
+    while (this.accumulator >= FRAME_TIME) {
+      this.simulation.step();
+      this.accumulator -= FRAME_TIME;
+
+      if (this.simulation.isFinished()) {
+        this.endLevel();
+        return;
+      }
+      if (this.simulation.state.frame % SNAPSHOT_INTERVAL === 0) {
+        this.broadcastSnapshot();
+      }
+    }
+  }
+
+  // The whole crew made it (or the crew was lost) - back to the lobby for the next level
+  private endLevel() {
+    this.stopTicking();
+    this.started = false;
+    this.roster.resetReady();
+
+    this.broadcastSnapshot();
+    this.broadcast({
+      type: 'level_over',
+      levelId: this.levelId,
+      complete: !!this.simulation.state.levelComplete,
+      results: getRaceResults(this.simulation.state)
+    });
+    this.broadcastLobby();
+  }
+
+  private send(conn: Party.Connection, message: Exclude<ServerMessage, { type: 'snapshot' }>) {
+    conn.send(encodeServerMessage(message));
+  }
+
+  private broadcast(message: Exclude<ServerMessage, { type: 'snapshot' }>, without?: string[]) {
+    this.room.broadcast(encodeServerMessage(message), without);
+  }
+
+  private broadcastLobby() {
+    this.broadcast({
+      type: 'lobby',
+      players: this.roster.getLobby(),
+      maxPlayers: this.roster.getMaxPlayers(),
+      levelId: this.levelId,
+      mode: this.mode,
+      started: this.started,
+      spectators: this.spectators.size
+    });
+  }
+
+  // Each client gets a delta against the newest snapshot it has told us it holds
+  private broadcastSnapshot() {
+    const snapshot = this.simulation.getSnapshot();
+    const encoded: Map<number | null, ArrayBuffer> = new Map();
+
+    for (const conn of this.room.getConnections()) {
+      // Players ack by player id (it survives reconnects), spectators by connection
+      const viewerId = this.spectators.has(conn.id) ? conn.id : this.sessions.getPlayer(conn.id);
+      if (!viewerId) continue;
+
+      const ack = this.acks.get(viewerId);
+      const base = ack !== undefined ? this.snapshots.get(ack) ?? null : null;
+      const key = base ? base.state.frame : null;
+      if (!encoded.has(key)) {
+        encoded.set(key, encodeSnapshot(snapshot, base));
+      }
+      conn.send(encoded.get(key)!);
+    }
+
+    this.snapshots.add(snapshot);
   }
 }
 
@@ -1,5 +1,6 @@
-import { CampaignProgress, LevelData } from './types';
-import { CAMPAIGN_LEVELS } from './game/levels';
+import { CampaignProgress, LevelData, LevelPack } from './types';
+import { CAMPAIGN_LEVELS, getLevelPacks, getLevelPackOf } from './game/levels';
+import { fetchLevelPack, readLevelPackFile, installLevelPack, uninstallLevelPack } from './game/levelPacks';
 
 interface IslandTheme {
   name: string;
@@ -131,8 +132,27 @@ const ISLAND_THEMES: { [key: number]: IslandTheme } = {
   }
 };
 
+// Islands from level packs all share one look; their names come from the levels
+const PACK_ISLAND_THEME: IslandTheme = {
+  name: "",
+  emoji: "🏝️",
+  primaryColor: "#6b8e23",
+  secondaryColor: "#556b2f",
+  description: "Uncharted waters",
+  iconSvg: `<svg viewBox="0 0 100 80" class="island-svg">
+      <ellipse cx="50" cy="58" rx="40" ry="18" fill="#c2b280"/>
+      <path d="M22,55 Q35,25 50,22 Q68,25 78,55 Z" fill="#6b8e23"/>
+      <path d="M35,50 Q45,35 55,38 Q62,42 65,50 Z" fill="#556b2f"/>
+      <rect x="48" y="12" width="3" height="14" fill="#5c4033"/>
+      <path d="M51,12 L51,20 L60,16 Z" fill="#1a1a1a"/>
+      <path d="M5,68 Q20,63 35,68 Q50,73 65,68 Q80,63 95,68" stroke="#4a90a4" stroke-width="3" fill="none" opacity="0.6"/>
+    </svg>`
+};
+
 export class CampaignMap {
   private container: HTMLDivElement | null = null;
+  private pack: LevelPack | null = null; // null is the built-in campaign
+  private packError: string | null = null;
   private progress: CampaignProgress;
   private onLevelSelect: (levelId: number) => void;
   private onBack: () => void;
@@ -150,6 +170,8 @@ export class CampaignMap {
 
   public show(justCompletedLevel?: number) {
     this.justCompletedLevel = justCompletedLevel || null;
+    // Come back to whichever campaign the finished level belongs to
+    if (justCompletedLevel) this.pack = getLevelPackOf(justCompletedLevel);
     this.attachStyles();
     this.render();
   }
@@ -443,6 +465,13 @@ export class CampaignMap {
         color: #8b4513;
       }
 
+      .island-requirement {
+        font-family: 'IM Fell English', serif;
+        font-size: 0.75rem;
+        color: #8b6914;
+        margin-top: 2px;
+      }
+
       /* Level number badge */
       .level-badge {
         position: absolute;
@@ -491,6 +520,48 @@ export class CampaignMap {
       }
 
       /* Footer with stats and back button */
+      .campaign-tabs {
+        display: flex;
+        flex-wrap: wrap;
+        justify-content: center;
+        gap: 8px;
+        margin-top: 10px;
+      }
+
+      .campaign-tab {
+        padding: 6px 14px;
+        background: rgba(61, 35, 20, 0.15);
+        border: 2px solid #8b7355;
+        border-radius: 6px;
+        cursor: pointer;
+        font-family: 'IM Fell English', serif;
+        font-size: 1rem;
+        color: #3d2314;
+      }
+
+      .campaign-tab.active {
+        background: #5c3a21;
+        border-color: #d4a574;
+        color: #ffd700;
+      }
+
+      .campaign-tab.load-pack {
+        border-style: dashed;
+      }
+
+      .pack-errors {
+        max-width: 700px;
+        margin: 10px auto 0 auto;
+        padding: 10px 16px;
+        background: rgba(196, 30, 58, 0.15);
+        border: 2px solid #c41e3a;
+        border-radius: 6px;
+        font-family: 'IM Fell English', serif;
+        color: #5c1010;
+        text-align: left;
+        white-space: pre-line;
+      }
+
       .map-footer {
         display: flex;
         justify-content: space-between;
@@ -608,7 +679,15 @@ export class CampaignMap {
     document.head.appendChild(style);
   }
 
-  private getIslandPosition(levelId: number, totalLevels: number): { x: number; y: number } {
+  private getIslandPosition(levelId: number, index: number, totalLevels: number): { x: number; y: number } {
+    // Packs can be any length - zigzag them evenly from left to right
+    if (this.pack) {
+      return {
+        x: totalLevels > 1 ? 12 + (76 * index) / (totalLevels - 1) : 50,
+        y: index % 2 === 0 ? 68 : 32
+      };
+    }
+
     // Create a winding path across the map
     const positions: { [key: number]: { x: number; y: number } } = {
       1: { x: 15, y: 70 },  // Bottom left - starting beach
@@ -626,19 +705,22 @@ export class CampaignMap {
     this.container = document.createElement('div');
     this.container.id = 'campaign-map';
 
-    const levels = CAMPAIGN_LEVELS;
-    const islandPositions = levels.map(level => this.getIslandPosition(level.id, levels.length));
+    const levels = this.pack ? this.pack.levels : CAMPAIGN_LEVELS;
+    const islandPositions = levels.map((level, index) => this.getIslandPosition(level.id, index, levels.length));
 
     // Generate route path SVG
     const routePathSvg = this.generateRoutePath(levels, islandPositions);
 
     // Generate islands HTML
     const islandsHtml = levels.map((level, index) => {
-      const theme = ISLAND_THEMES[level.id];
+      const theme = this.pack ? { ...PACK_ISLAND_THEME, name: escapeHtml(level.name) } : ISLAND_THEMES[level.id];
       const pos = islandPositions[index];
-      const isUnlocked = this.progress.unlockedLevels.includes(level.id);
-      const isCompleted = this.progress.unlockedLevels.includes(level.id + 1) || 
-                          (level.id === levels.length && this.progress.currentLevel > level.id);
+      // A pack's first island is open from the start; the rest unlock as you go
+      const isUnlocked = this.progress.unlockedLevels.includes(level.id) || (!!this.pack && index === 0);
+      const isCompleted = this.pack
+        ? this.progress.bestTimes[level.id] !== undefined
+        : this.progress.unlockedLevels.includes(level.id + 1) ||
+          (level.id === levels.length && this.progress.currentLevel > level.id);
       const isCurrent = this.progress.currentLevel === level.id;
       const isJustCompleted = this.justCompletedLevel === level.id;
 
@@ -662,7 +744,7 @@ export class CampaignMap {
              data-level-id="${level.id}"
              ${isUnlocked ? '' : 'data-locked="true"'}>
           <div class="island-node">
-            <div class="level-badge">${level.id}</div>
+            <div class="level-badge">${this.pack ? index + 1 : level.id}</div>
             ${theme.iconSvg}
             ${!isUnlocked ? '<div class="lock-icon">🔒</div>' : ''}
             ${isCompleted ? '<div class="complete-mark">⭐</div>' : ''}
@@ -670,6 +752,7 @@ export class CampaignMap {
           <div class="island-label">
             <div class="island-name">${theme.name}</div>
             <div class="island-status ${statusTextClass}">${statusText}</div>
+            ${level.requiredDoubloons ? `<div class="island-requirement">💰 ${level.requiredDoubloons} doubloons to open the treasure</div>` : ''}
           </div>
         </div>
       `;
@@ -681,6 +764,17 @@ export class CampaignMap {
           <div class="map-header">
             <h1 class="map-title">🗺️ Treasure Map 🗺️</h1>
             <p class="map-subtitle">${this.justCompletedLevel ? 'Victory! Choose yer next destination...' : 'Choose yer destination, Captain!'}</p>
+            <div class="campaign-tabs">
+              <button class="campaign-tab ${this.pack ? '' : 'active'}" data-pack-id="">🏴‍☠️ The Seven Seas</button>
+              ${getLevelPacks().map(pack => `
+                <button class="campaign-tab ${this.pack?.id === pack.id ? 'active' : ''}" data-pack-id="${escapeHtml(pack.id)}">📦 ${escapeHtml(pack.name)}</button>
+              `).join('')}
+              <button class="campaign-tab load-pack" id="load-pack-file-btn" title="Or drop a .json file onto the map">📂 Load Pack</button>
+              <button class="campaign-tab load-pack" id="load-pack-url-btn">🌐 From URL</button>
+              ${this.pack ? `<button class="campaign-tab load-pack" id="remove-pack-btn">✖ Remove Pack</button>` : ''}
+              <input type="file" id="pack-file-input" accept=".json,application/json" style="display: none;">
+            </div>
+            ${this.packError ? `<div class="pack-errors">${escapeHtml(this.packError)}</div>` : ''}
           </div>
 
           <div class="map-area">
@@ -722,7 +816,9 @@ export class CampaignMap {
               <div class="map-stat">
                 <span class="map-stat-icon">🏝️</span>
                 <span>Islands Conquered:</span>
-                <span class="map-stat-value">${Math.max(0, this.progress.unlockedLevels.length - 1)}/${levels.length}</span>
+                <span class="map-stat-value">${this.pack
+                  ? levels.filter(level => this.progress.bestTimes[level.id] !== undefined).length
+                  : Math.max(0, this.progress.unlockedLevels.length - 1)}/${levels.length}</span>
               </div>
             </div>
             <button class="back-btn" id="map-back-btn">
@@ -738,6 +834,19 @@ export class CampaignMap {
     this.attachEventListeners();
   }
 
+  private async loadPack(load: () => Promise<LevelPack>) {
+    try {
+      const pack = await load();
+      installLevelPack(pack);
+      this.pack = pack;
+      this.packError = null;
+    } catch (e) {
+      this.packError = (e as Error).message;
+    }
+    this.justCompletedLevel = null;
+    this.render();
+  }
+
   private generateRoutePath(levels: LevelData[], positions: { x: number; y: number }[]): string {
     if (positions.length < 2) return '';
 
@@ -777,6 +886,57 @@ export class CampaignMap {
       backBtn.onclick = () => this.onBack();
     }
 
+    // Switching campaigns
+    document.querySelectorAll<HTMLElement>('.campaign-tab[data-pack-id]').forEach(tab => {
+      tab.onclick = () => {
+        const packId = tab.dataset.packId;
+        this.pack = getLevelPacks().find(pack => pack.id === packId) ?? null;
+        this.packError = null;
+        this.justCompletedLevel = null;
+        this.render();
+      };
+    });
+
+    // Level packs - from a file (picked or dropped on the map) or a URL
+    const fileInput = document.getElementById('pack-file-input') as HTMLInputElement | null;
+    const fileBtn = document.getElementById('load-pack-file-btn');
+    if (fileBtn && fileInput) {
+      fileBtn.onclick = () => fileInput.click();
+      fileInput.onchange = () => {
+        const file = fileInput.files && fileInput.files[0];
+        fileInput.value = '';
+        if (file) this.loadPack(() => readLevelPackFile(file));
+      };
+    }
+
+    const urlBtn = document.getElementById('load-pack-url-btn');
+    if (urlBtn) {
+      urlBtn.onclick = () => {
+        const url = prompt('Level pack URL:');
+        if (url && url.trim()) this.loadPack(() => fetchLevelPack(url.trim()));
+      };
+    }
+
+    const removeBtn = document.getElementById('remove-pack-btn');
+    if (removeBtn && this.pack) {
+      const pack = this.pack;
+      removeBtn.onclick = () => {
+        if (!confirm(`Remove ${pack.name} from the map?`)) return;
+        uninstallLevelPack(pack.id);
+        this.pack = null;
+        this.render();
+      };
+    }
+
+    if (this.container) {
+      this.container.ondragover = (e) => e.preventDefault();
+      this.container.ondrop = (e) => {
+        e.preventDefault();
+        const file = e.dataTransfer?.files[0];
+        if (file) this.loadPack(() => readLevelPackFile(file));
+      };
+    }
+
     // Island click handlers
     const islands = document.querySelectorAll('.island-container:not([data-locked])');
     islands.forEach((island) => {
@@ -788,3 +948,7 @@ export class CampaignMap {
   }
 }
 
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { AuthoritativeSimulation } from './authority';
+import { ClientPrediction } from './prediction';
+import { PhysicsEngine } from './physics';
+import { hashState } from './determinism';
+import { CharacterType, Input, LevelData, EntityType, EnemyType, GameEvent, GameEventType } from '../types';
+
+function input(frame: number, buttons: Partial<Omit<Input, 'frame'>> = {}): Input {
+  return { frame, left: false, right: false, jump: false, action: false, dash: false, down: false, ...buttons };
+}
+
+describe('authoritative simulation', () => {
+  it('applies buffered inputs on the frame they were stamped with', () => {
+    const server = new AuthoritativeSimulation();
+    server.addPlayer('a', CharacterType.PIRATE);
+    const startX = server.state.players.get('a')!.position.x;
+
+    expect(server.receiveInput('a', input(5, { right: true }))).toBe(true);
+    for (let i = 0; i < 5; i++) server.step();
+    expect(server.state.players.get('a')!.position.x).toBe(startX);
+
+    server.step();
+    expect(server.state.players.get('a')!.position.x).toBeGreaterThan(startX);
+  });
+
+  it('repeats the last input when a player goes quiet and uses late inputs next frame', () => {
+    const server = new AuthoritativeSimulation();
+    server.addPlayer('a', CharacterType.PIRATE);
+
+    server.receiveInput('a', input(0, { right: true }));
+    server.step();
+    server.step();
+    expect(server.getSnapshot().inputs['a'].right).toBe(true);
+
+    expect(server.receiveInput('a', input(1, { left: true }))).toBe(false);
+    server.step();
+    expect(server.getSnapshot().inputs['a'].left).toBe(true);
+    expect(server.getSnapshot().inputLead['a']).toBe(-2);
+  });
+
+  it('stands a disconnected player still', () => {
+    const server = new AuthoritativeSimulation();
+    server.addPlayer('a', CharacterType.PIRATE);
+
+    server.receiveInput('a', input(0, { right: true }));
+    server.receiveInput('a', input(5, { right: true }));
+    server.step();
+    server.idlePlayer('a');
+    for (let i = 0; i < 120; i++) server.step();
+
+    // The buffered frame-5 input was dropped too, so they've come to a stop
+    const x = server.state.players.get('a')!.position.x;
+    for (let i = 0; i < 10; i++) server.step();
+    expect(server.state.players.get('a')!.position.x).toBe(x);
+    expect(server.getSnapshot().inputs['a'].right).toBe(false);
+  });
+});
+
+describe('co-op levels', () => {
+  const GROUND_Y = 500;
+  const level: LevelData = {
+    id: 999,
+    name: 'Test Island',
+    width: 2000,
+    height: 600,
+    platforms: [{ x: 0, y: GROUND_Y, w: 2000, h: 100 }],
+    spawnPoint: { x: 100, y: GROUND_Y - 32 },
+    goalPosition: { x: 400, y: GROUND_Y - 40 },
+    doubloons: [],
+    enemies: [{ x: 1500, y: GROUND_Y - 24, patrolWidth: 200, type: EnemyType.CRAB }]
+  };
+
+  it('runs the level with its entities and enemy AI', () => {
+    const server = new AuthoritativeSimulation(level);
+    server.addPlayer('a', CharacterType.PIRATE);
+    const crab = server.state.entities.find(e => e.type === EntityType.ENEMY)!;
+    const startX = crab.position.x;
+
+    for (let i = 0; i < 10; i++) server.step();
+    expect(crab.position.x).not.toBe(startX);
+  });
+
+  it('completes only when the whole crew has reached the goal', () => {
+    const server = new AuthoritativeSimulation(level);
+    server.addPlayer('a', CharacterType.PIRATE);
+    server.addPlayer('b', CharacterType.OCTOPUS);
+
+    const events: GameEvent[] = [];
+    for (let frame = 0; frame < 240; frame++) {
+      server.receiveInput('a', input(frame, { right: true }));
+      events.push(...server.step());
+    }
+    expect(events.some(e => e.type === GameEventType.GOAL_REACHED && e.playerId === 'a')).toBe(true);
+    expect(server.state.levelComplete).toBe(false);
+
+    for (let frame = 240; frame < 480 && !server.isFinished(); frame++) {
+      server.receiveInput('a', input(frame));
+      server.receiveInput('b', input(frame, { right: true }));
+      server.step();
+    }
+    expect(server.state.levelComplete).toBe(true);
+  });
+
+  it('only puts back the doubloons the fallen player picked up since the checkpoint', () => {
+    const server = new AuthoritativeSimulation({
+      ...level,
+      goalPosition: { x: 1900, y: GROUND_Y - 40 },
+      checkpoints: [{ x: 250, y: GROUND_Y - 64 }],
+      doubloons: [{ x: 500, y: GROUND_Y - 30 }],
+      enemies: []
+    });
+    const a = server.addPlayer('a', CharacterType.PIRATE);
+    const b = server.addPlayer('b', CharacterType.OCTOPUS);
+
+    // a raises the flag and grabs the doubloon past it
+    for (let frame = 0; frame < 120 && a.doubloons === 0; frame++) {
+      server.receiveInput('a', input(frame, { right: true }));
+      server.step();
+    }
+    expect(server.state.checkpoint).toBeDefined();
+    expect(a.doubloons).toBe(1);
+
+    // b falls into the sea - a's doubloon stays collected
+    b.position.y = (level.height + 10) * 100;
+    const events = server.step();
+    expect(events.some(e => e.type === GameEventType.PLAYER_RESPAWNED && e.playerId === 'b')).toBe(true);
+    const doubloon = server.state.entities.find(e => e.type === EntityType.DOUBLOON)!;
+    expect(doubloon.active).toBe(false);
+    expect(a.doubloons).toBe(1);
+    expect(b.doubloons).toBe(0);
+    expect(server.physics.getCrewDoubloons(server.state)).toBe(1);
+
+    // When a falls, it goes back into the level
+    a.position.y = (level.height + 10) * 100;
+    server.step();
+    expect(doubloon.active).toBe(true);
+    expect(a.doubloons).toBe(0);
+  });
+});
+
+describe('client prediction', () => {
+  it('reconciles to the server and replays unacknowledged inputs', () => {
+    const server = new AuthoritativeSimulation();
+    server.addPlayer('a', CharacterType.PIRATE);
+    server.addPlayer('b', CharacterType.OCTOPUS);
+
+    const physics = new PhysicsEngine();
+    physics.createDefaultMap();
+    const client = new ClientPrediction(physics, 'a');
+    client.receiveSnapshot(server.getSnapshot());
+    client.reconcile();
+
+    // The client runs a few frames ahead; its inputs reach the server a little later
+    const sent: Input[] = [];
+    for (let frame = 0; frame < 120; frame++) {
+      const buttons = { right: frame % 50 < 35, jump: frame % 40 < 5 };
+      sent.push(client.predictFrame({ ...input(0), ...buttons }).input);
+
+      if (frame >= 4) {
+        server.receiveInput('a', sent[frame - 4]);
+        server.receiveInput('b', input(server.state.frame, { left: true }));
+        server.step();
+        if (frame % 2 === 0) {
+          client.receiveSnapshot(server.getSnapshot());
+          client.reconcile();
+        }
+      }
+    }
+
+    // Once the server has caught up, both worlds match exactly
+    for (let frame = 116; frame < 120; frame++) {
+      server.receiveInput('a', sent[frame]);
+      server.step();
+    }
+    client.receiveSnapshot(server.getSnapshot());
+    client.reconcile();
+
+    expect(client.state.frame).toBe(server.state.frame);
+    expect(hashState(client.state)).toBe(hashState(server.state));
+  });
+
+  it('lets a spectator without a player carry the crew forward', () => {
+    const server = new AuthoritativeSimulation();
+    server.addPlayer('a', CharacterType.PIRATE);
+
+    const physics = new PhysicsEngine();
+    physics.createDefaultMap();
+    const spectator = new ClientPrediction(physics, 'watcher');
+
+    server.receiveInput('a', input(0, { right: true }));
+    server.step();
+    spectator.receiveSnapshot(server.getSnapshot());
+    spectator.reconcile();
+
+    for (let frame = 1; frame < 3; frame++) {
+      spectator.predictFrame(input(0));
+      server.step();
+    }
+    expect(spectator.state.players.has('watcher')).toBe(false);
+    expect(hashState(spectator.state)).toBe(hashState(server.state));
+  });
+
+  it('counts corrections when others surprise us and flags checksum mismatches', () => {
+    const server = new AuthoritativeSimulation();
+    server.addPlayer('a', CharacterType.PIRATE);
+    server.addPlayer('b', CharacterType.OCTOPUS);
+
+    const physics = new PhysicsEngine();
+    physics.createDefaultMap();
+    const client = new ClientPrediction(physics, 'a');
+    client.receiveSnapshot(server.getSnapshot());
+    client.reconcile();
+
+    // Predicted with everyone idle - and so it is
+    for (let frame = 0; frame < 4; frame++) {
+      server.receiveInput('a', client.predictFrame(input(0)).input);
+      server.step();
+    }
+    client.receiveSnapshot(server.getSnapshot());
+    client.reconcile();
+    expect(client.getCorrectionCount()).toBe(0);
+
+    // Player b starts running without us knowing
+    for (let frame = 4; frame < 8; frame++) {
+      server.receiveInput('a', client.predictFrame(input(0)).input);
+      server.receiveInput('b', input(frame, { right: true }));
+      server.step();
+    }
+    client.receiveSnapshot(server.getSnapshot());
+    client.reconcile();
+    expect(client.getCorrectionCount()).toBe(1);
+    expect(client.getDesyncFrame()).toBeNull();
+
+    client.predictFrame(input(0));
+    server.step();
+    const corrupt = server.getSnapshot();
+    corrupt.state.players['b'].position.x += 1;
+    client.receiveSnapshot(corrupt);
+    client.reconcile();
+    expect(client.getDesyncFrame()).toBe(server.state.frame);
+  });
+});
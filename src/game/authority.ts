@@ -0,0 +1,192 @@
+import { PhysicsEngine, PhysicsSnapshot } from "./physics";
+import { cloneGameState } from "./rollback";
+import { hashState } from "./determinism";
+import { createPlayerState, createLevelEntities } from "./levelState";
+import { createRaceState } from "./race";
+import { GameState, Input, PlayerState, SerializedGameState, CharacterType, GameEvent, LevelData, RoomMode } from "../types";
+
+export const TICK_RATE = 60;
+export const SNAPSHOT_INTERVAL = 2; // frames between snapshot broadcasts (30Hz)
+
+const PLAYER_COLORS = [0xe74c3c, 0x3498db, 0x2ecc71, 0xf39c12, 0x9b59b6, 0x1abc9c];
+const SPAWN_SPACING = 40; // pixels between crewmates at a level's spawn point
+
+const EMPTY_INPUT: Omit<Input, 'frame'> = { left: false, right: false, jump: false, action: false, dash: false, down: false };
+
+/**
+ * The world as the server simulated it, broadcast to every client.
+ * Clients adopt it and re-apply their own unacknowledged inputs on top.
+ */
+export interface ServerSnapshot {
+  state: SerializedGameState;
+  physics: PhysicsSnapshot;
+  // The input each player was last simulated with - clients predict others by repeating it
+  inputs: { [playerId: string]: Input };
+  // How many frames ahead of the server each player's newest input is (negative = arriving late)
+  inputLead: { [playerId: string]: number };
+  // hashState of the world, so clients can tell if what they rebuilt doesn't match
+  checksum: number;
+}
+
+export function serializeGameState(state: GameState): SerializedGameState {
+  const copy = cloneGameState(state);
+  const players: { [key: string]: PlayerState } = {};
+  copy.players.forEach((p, id) => {
+    players[id] = p;
+  });
+
+  return {
+    frame: copy.frame,
+    players,
+    entities: copy.entities,
+    checkpoint: copy.checkpoint,
+    levelComplete: copy.levelComplete,
+    levelFailed: copy.levelFailed,
+    race: copy.race
+  };
+}
+
+export function deserializeGameState(serialized: SerializedGameState): GameState {
+  return cloneGameState({
+    frame: serialized.frame,
+    players: new Map(Object.entries(serialized.players)),
+    entities: serialized.entities,
+    checkpoint: serialized.checkpoint,
+    levelComplete: serialized.levelComplete,
+    levelFailed: serialized.levelFailed,
+    race: serialized.race
+  });
+}
+
+/**
+ * Headless multiplayer world owned by the server: a campaign level (or, without one,
+ * the open arena) with its entities and enemies, played as co-op or as a race.
+ * Inputs are buffered by the frame they were stamped with; a player whose input
+ * hasn't arrived yet keeps doing whatever they did last.
+ */
+export class AuthoritativeSimulation {
+  public readonly physics: PhysicsEngine;
+  public state: GameState;
+
+  private inputBuffer: Map<number, Map<string, Input>> = new Map();
+  private lastInputs: Map<string, Input> = new Map();
+  private newestInputFrame: Map<string, number> = new Map();
+  private joinCount = 0;
+
+  constructor(private level: LevelData | null = null, mode: RoomMode = 'multiplayer') {
+    this.physics = new PhysicsEngine();
+    if (level) {
+      this.physics.loadLevel(level);
+    } else {
+      this.physics.createDefaultMap();
+    }
+
+    this.state = {
+      frame: 0,
+      players: new Map(),
+      entities: level ? createLevelEntities(level) : [],
+      levelComplete: false,
+      levelFailed: false,
+      race: level && mode === 'race' ? createRaceState() : undefined
+    };
+  }
+
+  public isFinished(): boolean {
+    return !!this.state.levelComplete || !!this.state.levelFailed;
+  }
+
+  public addPlayer(id: string, characterType: CharacterType): PlayerState {
+    const existing = this.state.players.get(id);
+    if (existing) return existing;
+
+    const index = this.joinCount++;
+    const color = PLAYER_COLORS[index % PLAYER_COLORS.length];
+
+    let player: PlayerState;
+    if (this.level) {
+      const spawn = { x: this.level.spawnPoint.x + (index % 4) * SPAWN_SPACING, y: this.level.spawnPoint.y };
+      player = createPlayerState(id, spawn, characterType, color);
+    } else {
+      // Arena players start with sword
+      player = createPlayerState(id, { x: 100 + (index % 6) * 100, y: 100 }, characterType, color, true);
+    }
+    this.state.players.set(id, player);
+    return player;
+  }
+
+  public removePlayer(id: string) {
+    this.state.players.delete(id);
+    this.lastInputs.delete(id);
+    this.newestInputFrame.delete(id);
+    this.inputBuffer.forEach(inputs => inputs.delete(id));
+  }
+
+  /**
+   * Drop a player's buffered inputs and stand them still, e.g. while they're disconnected.
+   */
+  public idlePlayer(id: string) {
+    this.lastInputs.delete(id);
+    this.inputBuffer.forEach(inputs => inputs.delete(id));
+  }
+
+  /**
+   * Buffer an input for the frame it was stamped with. Returns false if that frame
+   * has already been simulated - the input is then used for the next frame instead.
+   */
+  public receiveInput(playerId: string, input: Input): boolean {
+    if (!this.state.players.has(playerId)) return false;
+
+    const onTime = input.frame >= this.state.frame;
+    const frame = onTime ? input.frame : this.state.frame;
+
+    const newest = this.newestInputFrame.get(playerId);
+    if (newest === undefined || input.frame > newest) {
+      this.newestInputFrame.set(playerId, input.frame);
+    }
+
+    if (!this.inputBuffer.has(frame)) {
+      this.inputBuffer.set(frame, new Map());
+    }
+    const frameInputs = this.inputBuffer.get(frame)!;
+    // Don't let a straggler overwrite an input that was stamped for this frame
+    if (onTime || !frameInputs.has(playerId)) {
+      frameInputs.set(playerId, { ...input, frame });
+    }
+    return onTime;
+  }
+
+  public step(): GameEvent[] {
+    const frame = this.state.frame;
+    const buffered = this.inputBuffer.get(frame);
+    this.inputBuffer.delete(frame);
+
+    const frameInputs = new Map<string, Input>();
+    for (const id of this.state.players.keys()) {
+      const input = buffered?.get(id) ?? { ...(this.lastInputs.get(id) || EMPTY_INPUT), frame };
+      frameInputs.set(id, input);
+      this.lastInputs.set(id, input);
+    }
+
+    const events = this.physics.step(this.state, frameInputs);
+    this.state.frame++;
+    return events;
+  }
+
+  public getSnapshot(): ServerSnapshot {
+    const inputs: { [playerId: string]: Input } = {};
+    const inputLead: { [playerId: string]: number } = {};
+    for (const id of this.state.players.keys()) {
+      inputs[id] = { ...(this.lastInputs.get(id) || EMPTY_INPUT), frame: this.state.frame };
+      const newest = this.newestInputFrame.get(id);
+      inputLead[id] = newest === undefined ? 0 : newest - this.state.frame;
+    }
+
+    return {
+      state: serializeGameState(this.state),
+      physics: this.physics.saveSnapshot(),
+      inputs,
+      inputLead,
+      checksum: hashState(this.state)
+    };
+  }
+}
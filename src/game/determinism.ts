@@ -0,0 +1,161 @@
+import { GameState } from "../types";
+
+// Fixed-point ratios are integers in 1/1024ths (1024 = 1.0)
+export const FIXED_ONE = 1024;
+
+// Angles are integers where ANGLE_UNITS is one full turn
+export const ANGLE_UNITS = 65536;
+
+const SINE_TABLE_BITS = 12;
+const SINE_TABLE_SIZE = 1 << SINE_TABLE_BITS;
+const ANGLE_TO_INDEX_SHIFT = 16 - SINE_TABLE_BITS;
+
+/**
+ * Sine via Taylor series using only + - * /, which IEEE-754 guarantees to round
+ * identically on every engine (unlike Math.sin, which is implementation-defined).
+ */
+function portableSin(x: number): number {
+  // Reduce to [-PI, PI] for fast convergence
+  while (x > Math.PI) x -= 2 * Math.PI;
+  while (x < -Math.PI) x += 2 * Math.PI;
+
+  let term = x;
+  let sum = x;
+  for (let n = 1; n < 12; n++) {
+    term = -term * x * x / ((2 * n) * (2 * n + 1));
+    sum += term;
+  }
+  return sum;
+}
+
+const SINE_TABLE: Int32Array = (() => {
+  const table = new Int32Array(SINE_TABLE_SIZE);
+  for (let i = 0; i < SINE_TABLE_SIZE; i++) {
+    table[i] = Math.round(portableSin((i / SINE_TABLE_SIZE) * 2 * Math.PI) * FIXED_ONE);
+  }
+  return table;
+})();
+
+/**
+ * Lookup-table sine. Takes an integer angle (ANGLE_UNITS per turn) and
+ * returns an integer in [-FIXED_ONE, FIXED_ONE].
+ */
+export function fixedSin(angle: number): number {
+  const wrapped = ((angle % ANGLE_UNITS) + ANGLE_UNITS) % ANGLE_UNITS;
+  return SINE_TABLE[wrapped >> ANGLE_TO_INDEX_SHIFT];
+}
+
+/**
+ * Multiply an integer by a fixed-point ratio, truncating toward zero.
+ */
+export function fixedMul(value: number, ratio: number): number {
+  return Math.trunc((value * ratio) / FIXED_ONE);
+}
+
+/**
+ * Convert level-data radians (e.g. MovingPlatform.speed) to integer angle units.
+ * Only done once at load time, with basic arithmetic, so it stays deterministic.
+ */
+export function radiansToAngle(radians: number): number {
+  return Math.round((radians * ANGLE_UNITS) / (2 * Math.PI));
+}
+
+// === STATE CHECKSUM (FNV-1a, 32-bit) ===
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+const floatView = new Float64Array(1);
+const wordView = new Uint32Array(floatView.buffer);
+
+function hashWord(hash: number, word: number): number {
+  for (let i = 0; i < 4; i++) {
+    hash ^= (word >>> (i * 8)) & 0xff;
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+function hashNumber(hash: number, value: number): number {
+  // Hash the exact bit pattern so float drift can't hide behind rounding
+  floatView[0] = value;
+  hash = hashWord(hash, wordView[0]);
+  return hashWord(hash, wordView[1]);
+}
+
+function hashString(hash: number, value: string): number {
+  for (let i = 0; i < value.length; i++) {
+    hash = hashWord(hash, value.charCodeAt(i));
+  }
+  return hash;
+}
+
+function hashValue(hash: number, value: unknown): number {
+  if (value === undefined || value === null) return hashWord(hash, 0xfffffff0);
+  if (typeof value === 'boolean') return hashWord(hash, value ? 1 : 2);
+  if (typeof value === 'number') return hashNumber(hash, value);
+  if (typeof value === 'string') return hashString(hash, value);
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of Object.keys(obj).sort()) {
+      // Absent and undefined fields hash the same (clones may carry explicit undefineds)
+      if (obj[key] === undefined) continue;
+      hash = hashString(hash, key);
+      hash = hashValue(hash, obj[key]);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Checksum of the simulation state. Two clients that stepped the same frames with
+ * the same inputs must produce the same value; a mismatch means a desync.
+ */
+export function hashState(state: GameState): number {
+  let hash = hashNumber(FNV_OFFSET, state.frame);
+
+  const playerIds = [...state.players.keys()].sort();
+  for (const id of playerIds) {
+    hash = hashValue(hash, state.players.get(id));
+  }
+
+  for (const entity of state.entities) {
+    hash = hashValue(hash, entity);
+  }
+
+  if (state.checkpoint) {
+    hash = hashValue(hash, state.checkpoint);
+  }
+
+  if (state.race) {
+    hash = hashValue(hash, state.race);
+  }
+
+  hash = hashValue(hash, state.levelComplete || false);
+  return hashValue(hash, state.levelFailed || false);
+}
+
+// === SEEDED RANDOM ===
+
+/**
+ * Hash a text seed and a number (e.g. a chunk index) into a 32-bit seed, so each
+ * piece of a generated world can be made on its own and still come out the same.
+ */
+export function hashSeed(seed: string, index: number): number {
+  return hashWord(hashString(FNV_OFFSET, seed), index);
+}
+
+/**
+ * Mulberry32: integer-only steps, so every engine draws the same sequence from the
+ * same seed. Returns numbers in [0, 1), like Math.random.
+ */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,58 @@
+import { GameState, EnemyType, LevelData, Entity, PlayerState, GameEvent } from "../../types";
+
+export const SCALE = 100;
+
+export interface EnemyContext {
+  state: GameState;
+  level: LevelData | null;
+  emit: (event: GameEvent) => void;
+}
+
+/**
+ * How one kind of enemy moves each frame. Behaviors are pure simulation - no
+ * rendering, audio or DOM - so they run the same in the browser, on the server
+ * and in headless tests.
+ */
+export interface EnemyBehavior {
+  update(entity: Entity, context: EnemyContext): void;
+}
+
+const behaviors = new Map<EnemyType, EnemyBehavior>();
+
+export function registerEnemyBehavior(type: EnemyType, behavior: EnemyBehavior) {
+  behaviors.set(type, behavior);
+}
+
+export function getEnemyBehavior(type: EnemyType): EnemyBehavior | undefined {
+  return behaviors.get(type);
+}
+
+/**
+ * Turn around at the ends of the patrol range centered on the spawn point.
+ */
+export function reverseAtPatrolEdge(entity: Entity, defaultWidth: number) {
+  if (!entity.velocity) return;
+
+  const spawnX = entity.spawnX || entity.position.x;
+  const halfWidth = ((entity.patrolWidth || defaultWidth) * SCALE) / 2;
+  const minX = spawnX - halfWidth;
+  const maxX = spawnX + halfWidth;
+
+  if (entity.position.x <= minX || entity.position.x >= maxX) {
+    entity.velocity.x *= -1;
+    entity.facingRight = entity.velocity.x > 0;
+  }
+}
+
+export function nearestPlayer(entity: Entity, state: GameState): PlayerState | undefined {
+  let nearest: PlayerState | undefined;
+  let nearestDistance = Infinity;
+  state.players.forEach((player) => {
+    const distance = Math.abs(player.position.x - entity.position.x);
+    if (distance < nearestDistance) {
+      nearest = player;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
@@ -0,0 +1,77 @@
+import { Entity, EntityType, GameEventType } from "../../types";
+import { EnemyBehavior, EnemyContext, SCALE } from "./behavior";
+
+const DEFAULT_FIRE_RATE = 120; // frames between shots
+const BALL_SIZE = 12;
+const BALL_SPEED = 300; // scaled units per frame
+const BALL_GRAVITY = 10; // slight arc
+
+// Stationary, fires cannonballs
+export const cannonTurret: EnemyBehavior = {
+  update(entity: Entity, context: EnemyContext) {
+    const fireRate = entity.fireRate || DEFAULT_FIRE_RATE;
+    const lastFired = entity.lastFired || 0;
+
+    if (context.state.frame - lastFired >= fireRate) {
+      entity.lastFired = context.state.frame;
+      fireCannonball(entity, context);
+    }
+  }
+};
+
+function fireCannonball(cannon: Entity, { state, emit }: EnemyContext) {
+  const spawnX = cannon.facingRight
+    ? cannon.position.x + cannon.width * SCALE
+    : cannon.position.x - BALL_SIZE * SCALE;
+  // The muzzle is 2/5 of the way down the barrel
+  const spawnY = cannon.position.y + (cannon.height * SCALE * 2) / 5;
+
+  emit({
+    type: GameEventType.CANNON_FIRED,
+    frame: state.frame,
+    position: { x: spawnX / SCALE, y: spawnY / SCALE },
+    entityId: cannon.id,
+    enemyType: cannon.enemyType
+  });
+
+  state.entities.push({
+    id: `cannonball_${state.frame}_${cannon.id}`,
+    type: EntityType.CANNONBALL,
+    position: { x: spawnX, y: spawnY },
+    velocity: { x: cannon.facingRight ? BALL_SPEED : -BALL_SPEED, y: 0 },
+    width: BALL_SIZE,
+    height: BALL_SIZE,
+    active: true
+  });
+}
+
+/**
+ * Cannonballs aren't enemies themselves, but fly on after their cannon fires them.
+ * Spent ones are dropped from the world so snapshots don't keep growing.
+ */
+export function updateCannonballs({ state, level }: EnemyContext) {
+  for (const entity of state.entities) {
+    if (entity.type !== EntityType.CANNONBALL || !entity.active) continue;
+
+    if (entity.velocity) {
+      entity.position.x += entity.velocity.x;
+      entity.velocity.y = (entity.velocity.y || 0) + BALL_GRAVITY;
+      entity.position.y += entity.velocity.y;
+    }
+
+    // Remove once off the level
+    if (level) {
+      const x = entity.position.x / SCALE;
+      if (x < -50 || x > level.width + 50 || entity.position.y / SCALE > level.height + 50) {
+        entity.active = false;
+      }
+    }
+  }
+
+  for (let i = state.entities.length - 1; i >= 0; i--) {
+    const entity = state.entities[i];
+    if (entity.type === EntityType.CANNONBALL && !entity.active) {
+      state.entities.splice(i, 1);
+    }
+  }
+}
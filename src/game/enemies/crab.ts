@@ -0,0 +1,12 @@
+import { Entity } from "../../types";
+import { EnemyBehavior, reverseAtPatrolEdge } from "./behavior";
+
+// Simple horizontal patrol
+export const crab: EnemyBehavior = {
+  update(entity: Entity) {
+    if (!entity.velocity) return;
+
+    entity.position.x += entity.velocity.x;
+    reverseAtPatrolEdge(entity, 100);
+  }
+};
@@ -0,0 +1,29 @@
+import { Entity } from "../../types";
+import { fixedMul, fixedSin, radiansToAngle } from "../determinism";
+import { EnemyBehavior, SCALE, reverseAtPatrolEdge } from "./behavior";
+
+const FLOAT_STEP = radiansToAngle(0.05); // integer angle units per frame
+const CYCLE_FRAMES = 270;
+const VISIBLE_FRAMES = 180; // visible for 180 frames, then invisible for 90
+const FLOAT_HEIGHT = 5 * SCALE;
+
+// Phases in and out, patrolling slowly while visible
+export const ghost: EnemyBehavior = {
+  update(entity: Entity) {
+    if (!entity.velocity) return;
+
+    entity.stateTimer = (entity.stateTimer || 0) + 1;
+    entity.isVisible = entity.stateTimer % CYCLE_FRAMES < VISIBLE_FRAMES;
+
+    // Move only when visible
+    if (entity.isVisible) {
+      entity.position.x += entity.velocity.x;
+      reverseAtPatrolEdge(entity, 100);
+
+      // Slight floating effect
+      entity.phase = (entity.phase || 0) + FLOAT_STEP;
+      const spawnY = entity.spawnY || entity.position.y;
+      entity.position.y = spawnY + fixedMul(FLOAT_HEIGHT, fixedSin(entity.phase));
+    }
+  }
+};
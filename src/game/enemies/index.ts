@@ -0,0 +1,36 @@
+import { GameState, EntityType, EnemyType, LevelData, GameEvent } from "../../types";
+import { EnemyContext, getEnemyBehavior, registerEnemyBehavior } from "./behavior";
+import { crab } from "./crab";
+import { seagull } from "./seagull";
+import { skeleton } from "./skeleton";
+import { cannonTurret, updateCannonballs } from "./cannon";
+import { jellyfish } from "./jellyfish";
+import { ghost } from "./ghost";
+
+export type { EnemyBehavior, EnemyContext } from "./behavior";
+export { registerEnemyBehavior, getEnemyBehavior } from "./behavior";
+
+// A new enemy is one module plus one line here
+registerEnemyBehavior(EnemyType.CRAB, crab);
+registerEnemyBehavior(EnemyType.SEAGULL, seagull);
+registerEnemyBehavior(EnemyType.SKELETON, skeleton);
+registerEnemyBehavior(EnemyType.CANNON_TURRET, cannonTurret);
+registerEnemyBehavior(EnemyType.JELLYFISH, jellyfish);
+registerEnemyBehavior(EnemyType.GHOST, ghost);
+
+/**
+ * Advance every active enemy and cannonball by one frame.
+ * Returns the events raised (e.g. cannons firing).
+ */
+export function updateEnemies(state: GameState, level: LevelData | null): GameEvent[] {
+  const events: GameEvent[] = [];
+  const context: EnemyContext = { state, level, emit: (event) => events.push(event) };
+
+  for (const entity of state.entities) {
+    if (entity.type !== EntityType.ENEMY || !entity.active) continue;
+    getEnemyBehavior(entity.enemyType || EnemyType.CRAB)?.update(entity, context);
+  }
+
+  updateCannonballs(context);
+  return events;
+}
@@ -0,0 +1,18 @@
+import { Entity } from "../../types";
+import { fixedMul, fixedSin, radiansToAngle } from "../determinism";
+import { EnemyBehavior, SCALE } from "./behavior";
+
+const WAVE_STEP = radiansToAngle(0.03); // integer angle units per frame
+const DRIFT = 30; // scaled units per frame at most
+
+// Floats up and down with a slight horizontal drift
+export const jellyfish: EnemyBehavior = {
+  update(entity: Entity) {
+    const spawnY = entity.spawnY || entity.position.y;
+    const patrolHeight = entity.patrolHeight || 100;
+
+    entity.phase = (entity.phase || 0) + WAVE_STEP;
+    entity.position.y = spawnY + fixedMul((patrolHeight * SCALE) / 2, fixedSin(entity.phase));
+    entity.position.x += fixedMul(DRIFT, fixedSin(Math.floor(entity.phase / 2)));
+  }
+};
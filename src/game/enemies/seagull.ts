@@ -0,0 +1,22 @@
+import { Entity } from "../../types";
+import { fixedMul, fixedSin, radiansToAngle } from "../determinism";
+import { EnemyBehavior, SCALE, reverseAtPatrolEdge } from "./behavior";
+
+const WAVE_STEP = radiansToAngle(0.05); // integer angle units per frame
+
+// Flying sine wave pattern
+export const seagull: EnemyBehavior = {
+  update(entity: Entity) {
+    if (!entity.velocity) return;
+
+    // Horizontal movement
+    entity.position.x += entity.velocity.x;
+    reverseAtPatrolEdge(entity, 150);
+
+    // Sine wave vertical movement
+    const spawnY = entity.spawnY || entity.position.y;
+    const patrolHeight = entity.patrolHeight || 60;
+    entity.phase = (entity.phase || 0) + WAVE_STEP;
+    entity.position.y = spawnY + fixedMul((patrolHeight * SCALE) / 2, fixedSin(entity.phase));
+  }
+};
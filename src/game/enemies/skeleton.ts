@@ -0,0 +1,52 @@
+import { Entity } from "../../types";
+import { EnemyBehavior, EnemyContext, SCALE, nearestPlayer, reverseAtPatrolEdge } from "./behavior";
+
+const LUNGE_RANGE = 150 * SCALE; // How close player needs to be to trigger lunge
+const LUNGE_HEIGHT = 60 * SCALE;
+const CHARGE_SPEED = 300; // scaled units per frame
+const CHARGE_FRAMES = 30;
+const CHARGE_COOLDOWN = 60;
+const PATROL_SPEED = 80;
+
+// Walks and lunges at the nearest player
+export const skeleton: EnemyBehavior = {
+  update(entity: Entity, { state }: EnemyContext) {
+    if (!entity.velocity) return;
+
+    const player = nearestPlayer(entity, state);
+
+    // State timer for charging
+    entity.stateTimer = (entity.stateTimer || 0) + 1;
+
+    // Check if player is in range for a lunge
+    const playerInRange = player &&
+      Math.abs(player.position.x - entity.position.x) < LUNGE_RANGE &&
+      Math.abs(player.position.y - entity.position.y) < LUNGE_HEIGHT;
+
+    if (entity.isCharging) {
+      // During charge: move faster toward player direction
+      entity.position.x += entity.facingRight ? CHARGE_SPEED : -CHARGE_SPEED;
+
+      if (entity.stateTimer > CHARGE_FRAMES) {
+        entity.isCharging = false;
+        entity.stateTimer = 0;
+        // Reset velocity after charge
+        entity.velocity.x = entity.facingRight ? PATROL_SPEED : -PATROL_SPEED;
+      }
+    } else {
+      // Normal patrol
+      entity.position.x += entity.velocity.x;
+      reverseAtPatrolEdge(entity, 100);
+
+      // Start a charge if player in range and cooldown passed
+      if (playerInRange && entity.stateTimer > CHARGE_COOLDOWN) {
+        entity.isCharging = true;
+        entity.stateTimer = 0;
+        // Face the player
+        if (player) {
+          entity.facingRight = player.position.x > entity.position.x;
+        }
+      }
+    }
+  }
+};
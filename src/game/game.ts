@@ -1,27 +1,73 @@
 import PartySocket from "partysocket";
 import { PhysicsEngine } from "./physics";
 import { GameRenderer } from "./renderer";
-import { GameState, Input, SerializedGameState, PlayerState, CharacterType } from "../types";
+import { ClientPrediction } from "./prediction";
+import { getLevelById } from "./levels";
+import { CharacterType, GameEvent, GameEventType, GameMode } from "../types";
 import { getSoundManager } from "../sound";
+import { LobbyScreen } from "../lobby";
+import { RaceResultsScreen } from "../raceResults";
+import { CHARACTERS } from "../menu";
+import { SNAPSHOT_INTERVAL } from "./authority";
+import { PingTracker, NetworkSimulator, NetworkOverlayStats, parseSimulatedNetwork } from "./netStats";
+import { PROTOCOL_VERSION, ClientMessage, ServerMessage, SnapshotHistory, encodeClientMessage, decodeServerMessage } from "./protocol";
 
 const FPS = 60;
 const FRAME_TIME = 1000 / FPS;
-const INPUT_DELAY = 3;
-const SYNC_INTERVAL = 60;
-const SCALE = 100;
+const TARGET_INPUT_LEAD = 2; // frames ahead of the server our inputs should arrive
+const INPUT_LEAD_SLACK = 4; // how far past the target we drift before holding a frame
+const TIME_SYNC_INTERVAL = 10; // frames between clock adjustments, so we don't overshoot while a snapshot is in flight
+const PING_INTERVAL = 1000; // ms between round-trip measurements
+const SESSION_KEY = 'piratical_session';
+const FREE_CAMERA_SPEED = 8; // pixels per frame a spectator's free camera pans
+
+// Per tab, so a reconnect or reload resumes this tab's player while a second tab joins as
+// another. A duplicated tab copies the token, but the server gives it one of its own
+function getSessionToken(): string {
+  let token = sessionStorage.getItem(SESSION_KEY);
+  if (!token) {
+    token = createSessionToken();
+    sessionStorage.setItem(SESSION_KEY, token);
+  }
+  return token;
+}
+
+// randomUUID only exists in secure contexts, not when the game is served over plain http on a LAN
+function createSessionToken(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
 
 export class Game {
   private physics: PhysicsEngine;
   private renderer: GameRenderer;
   private socket: PartySocket;
   
-  private state: GameState;
-  private inputs: Map<number, Map<string, Input>>;
+  private prediction: ClientPrediction | null = null;
+  private levelId: number | null = null;
+  private snapshots = new SnapshotHistory();
+  private lobby: LobbyScreen;
+  private raceResults = new RaceResultsScreen();
+  private framesSinceTimeSync = 0;
+
+  // Network diagnostics (F3), and optional simulated latency/loss from the page URL
+  private pings = new PingTracker();
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private remoteInputLeads: { [playerId: string]: number } = {};
+  private reportedDesyncFrame: number | null = null;
+  private outgoing: NetworkSimulator | null = null;
+  private incoming: NetworkSimulator | null = null;
   
   private localPlayerId: string | null = null;
   private isHost = false;
   private running = false;
   private characterType: CharacterType;
+
+  // Spectators watch without a player: they follow one of the crew (Tab cycles) or pan freely (F)
+  private spectator: boolean;
+  private followIndex = 0;
+  private freeCamera: { x: number; y: number } | null = null;
+  private cameraKeys = { left: false, right: false, up: false, down: false };
   
   private onReturnToMenu: (() => void) | null = null;
 
@@ -30,29 +76,51 @@ export class Game {
     right: false,
     jump: false,
     action: false,
-    dash: false
+    dash: false,
+    down: false
   };
 
-  constructor(renderer: GameRenderer, roomCode: string, onReturnToMenu?: () => void, characterType: CharacterType = CharacterType.PIRATE) {
+  // mode is how we arrived: 'spectate' to watch, 'race' to open a racing room
+  constructor(renderer: GameRenderer, roomCode: string, onReturnToMenu?: () => void, characterType: CharacterType = CharacterType.PIRATE, mode: GameMode = 'multiplayer') {
     this.physics = new PhysicsEngine();
     this.renderer = renderer;
     this.onReturnToMenu = onReturnToMenu || null;
     this.characterType = characterType;
-    
-    this.inputs = new Map();
-    
-    this.state = {
-      frame: 0,
-      players: new Map(),
-      entities: []
-    };
+    this.spectator = mode === 'spectate';
+
+    const simulated = parseSimulatedNetwork(window.location.search);
+    if (simulated) {
+      this.outgoing = new NetworkSimulator(simulated);
+      this.incoming = new NetworkSimulator(simulated);
+    }
+
+    this.lobby = new LobbyScreen(
+      roomCode,
+      (ready) => this.send({ type: 'ready', ready }),
+      (levelId) => this.send({ type: 'select_level', levelId }),
+      (mode) => this.send({ type: 'select_mode', mode }),
+      () => this.send({ type: 'start' }),
+      () => this.leave()
+    );
 
     this.socket = new PartySocket({
       host: window.location.host,
-      room: roomCode
+      room: roomCode,
+      // The session token lets the server hand us back our player if the connection drops.
+      // Read on every connect, as the server may have handed us a new one
+      query: this.spectator
+        ? { spectate: '1', v: String(PROTOCOL_VERSION) }
+        : () => ({ character: this.characterType, mode, v: String(PROTOCOL_VERSION), session: getSessionToken() }),
+      // Connect once the renderer is up, so a game already under way can be drawn straight away
+      startClosed: true
     });
 
+    this.socket.binaryType = "arraybuffer";
     this.socket.addEventListener("message", this.onMessage.bind(this));
+    this.socket.addEventListener("close", () => {
+      // PartySocket retries on its own; the server holds our player until we're back
+      if (this.running) this.renderer.showMessage("RECONNECTING...", 999999);
+    });
     
     this.handleKeyDown = this.handleKeyDown.bind(this);
     this.handleKeyUp = this.handleKeyUp.bind(this);
@@ -67,6 +135,8 @@ export class Game {
   }
 
   private handleKey(e: KeyboardEvent, isDown: boolean) {
+    if (this.spectator && this.handleSpectatorKey(e, isDown)) return;
+
     switch(e.code) {
       case 'ArrowLeft': case 'KeyA': this.keys.left = isDown; break;
       case 'ArrowRight': case 'KeyD': this.keys.right = isDown; break;
@@ -76,132 +146,181 @@ export class Game {
         break;
       case 'KeyE': case 'KeyZ': this.keys.action = isDown; break;
       case 'ShiftLeft': case 'ShiftRight': this.keys.dash = isDown; break;
+      case 'ArrowDown': case 'KeyS':
+        this.keys.down = isDown;
+        if (isDown) e.preventDefault();
+        break;
       case 'Escape':
-        if (isDown && this.onReturnToMenu) {
-          this.stop();
-          this.onReturnToMenu();
+        if (isDown) this.leave();
+        break;
+      case 'F3':
+        if (isDown) {
+          e.preventDefault();
+          this.renderer.toggleNetworkOverlay();
         }
         break;
     }
   }
 
-  private onMessage(event: MessageEvent) {
-    const msg = JSON.parse(event.data);
-    
-    if (msg.type === 'init') {
-      this.localPlayerId = msg.playerId;
-      this.isHost = msg.isHost;
-      console.log(`Joined as ${this.localPlayerId}, Host: ${this.isHost}`);
-      this.addPlayer(this.localPlayerId!, true);
-    } else if (msg.type === 'join') {
-      this.addPlayer(msg.playerId, false);
-    } else if (msg.type === 'leave') {
-      this.state.players.delete(msg.playerId);
-    } else if (msg.type === 'input') {
-      const { frame, playerId, ...inputData } = msg;
-      if (!this.inputs.has(frame)) {
-        this.inputs.set(frame, new Map());
-      }
-      this.inputs.get(frame)!.set(playerId, inputData);
-    } else if (msg.type === 'state') {
-      this.applyState(msg.state);
+  private handleSpectatorKey(e: KeyboardEvent, isDown: boolean): boolean {
+    switch(e.code) {
+      case 'ArrowLeft': case 'KeyA': this.cameraKeys.left = isDown; return true;
+      case 'ArrowRight': case 'KeyD': this.cameraKeys.right = isDown; return true;
+      case 'ArrowUp': case 'KeyW': this.cameraKeys.up = isDown; e.preventDefault(); return true;
+      case 'ArrowDown': case 'KeyS': this.cameraKeys.down = isDown; e.preventDefault(); return true;
+      case 'Tab':
+        e.preventDefault();
+        if (isDown) this.followNextPlayer();
+        return true;
+      case 'KeyF':
+        if (isDown) this.toggleFreeCamera();
+        return true;
     }
+    return false;
   }
 
-  private serializeState(): SerializedGameState {
-    const playersObj: { [key: string]: PlayerState } = {};
-    this.state.players.forEach((p, id) => {
-      playersObj[id] = p;
-    });
+  private followNextPlayer() {
+    if (!this.prediction) return;
+    this.followIndex = this.freeCamera ? this.followIndex : this.followIndex + 1;
+    this.freeCamera = null;
+    this.renderer.setFreeCamera(null);
 
-    return {
-      frame: this.state.frame,
-      players: playersObj,
-      entities: this.state.entities
-    };
+    const id = this.getFollowedPlayerId();
+    const player = id ? this.prediction.state.players.get(id) : undefined;
+    const character = player && CHARACTERS.find(c => c.type === player.characterType);
+    if (character) this.renderer.showMessage(`WATCHING ${character.name.toUpperCase()}`, 1200);
   }
 
-  private applyState(serialized: SerializedGameState) {
-    this.state.frame = serialized.frame;
-    this.state.entities = serialized.entities;
-    
-    const newPlayerIds = new Set(Object.keys(serialized.players));
-    
-    for (const id of this.state.players.keys()) {
-      if (!newPlayerIds.has(id)) {
-        this.state.players.delete(id);
-      }
+  private toggleFreeCamera() {
+    if (this.freeCamera) {
+      // Back to whoever we were following
+      this.followNextPlayer();
+    } else {
+      this.freeCamera = this.renderer.getCameraCenter();
+      this.renderer.setFreeCamera(this.freeCamera);
+      this.renderer.showMessage("FREE CAMERA", 1200);
     }
+  }
 
-    for (const id in serialized.players) {
-      const serializedPlayer = serialized.players[id];
-      
-      if (this.state.players.has(id)) {
-        const existing = this.state.players.get(id)!;
-        Object.assign(existing, serializedPlayer);
-      } else {
-        this.state.players.set(id, serializedPlayer);
-      }
+  private getFollowedPlayerId(): string | null {
+    const ids = this.prediction ? [...this.prediction.state.players.keys()] : [];
+    if (ids.length === 0) return null;
+    return ids[((this.followIndex % ids.length) + ids.length) % ids.length];
+  }
+
+  private leave() {
+    if (!this.onReturnToMenu) return;
+    this.stop();
+    this.onReturnToMenu();
+  }
+
+  private send(message: ClientMessage) {
+    const data = encodeClientMessage(message);
+    if (!this.outgoing) {
+      this.socket.send(data);
+      return;
     }
+    // Inputs are sent every frame and the server copes with gaps; anything else must arrive
+    this.outgoing.deliver(performance.now(), message.type === 'input', () => {
+      if (this.running) this.socket.send(data);
+    });
   }
 
-  private addPlayer(id: string, isLocal: boolean) {
-    if (!this.state.players.has(id)) {
-      // Spawn at different positions based on player count
-      const playerIndex = this.state.players.size;
-      const spawnX = 100 + playerIndex * 100;
-      const charType = isLocal ? this.characterType : CharacterType.PIRATE;
-      
-      this.state.players.set(id, {
-        id,
-        position: { x: spawnX * SCALE, y: 100 * SCALE },
-        velocity: { x: 0, y: 0 },
-        isGrounded: false,
-        facingRight: true,
-        width: 32,
-        height: charType === CharacterType.OCTOPUS ? 40 : 32,
-        color: this.getCharacterColor(charType, isLocal),
-        sizeModifier: 1,
-        health: 3,
-        doubloons: 0,
-        jumpHeld: false,
-        isAttacking: false,
-        attackFrame: 0,
-        attackCooldown: 0,
-        hasSword: true,  // Multiplayer players start with sword
-        characterType: charType,
-        coyoteTimer: 0,
-        wallSliding: false,
-        wallDirection: 0,
-        isDashing: false,
-        dashCooldown: 0,
-        dashTimer: 0
-      });
+  private onMessage(event: MessageEvent) {
+    if (!this.incoming) {
+      this.handleMessage(event.data);
+      return;
     }
+    // Only snapshots travel as binary, and a lost one is replaced by the next
+    this.incoming.deliver(performance.now(), typeof event.data !== 'string', () => {
+      if (this.running) this.handleMessage(event.data);
+    });
   }
 
-  private getCharacterColor(charType: CharacterType, isLocal: boolean): number {
-    if (!isLocal) {
-      return 0x3498db; // Blue for other players
+  private handleMessage(data: string | ArrayBuffer) {
+    let msg: ServerMessage;
+    try {
+      msg = decodeServerMessage(data, frame => this.snapshots.get(frame));
+    } catch (e) {
+      // Most likely a delta against a snapshot we've since dropped - the next ack fixes it
+      console.warn(`Dropping server message: ${(e as Error).message}`);
+      return;
     }
-    switch (charType) {
-      case CharacterType.GIRL_PIRATE:
-        return 0x9b59b6; // Purple
-      case CharacterType.OCTOPUS:
-        return 0x8e44ad; // Deep purple
-      default:
-        return 0xe74c3c; // Red (classic pirate)
+
+    if (msg.type === 'init') {
+      this.localPlayerId = msg.playerId;
+      this.isHost = msg.isHost;
+      console.log(msg.spectator
+        ? `Watching as ${this.localPlayerId}`
+        : `${msg.resumed ? 'Rejoined' : 'Joined'} as ${this.localPlayerId}, Host: ${this.isHost}`);
+      this.lobby.setLocalPlayer(msg.playerId, msg.spectator);
+      if (msg.session) sessionStorage.setItem(SESSION_KEY, msg.session);
+      if (msg.resumed) {
+        this.renderer.showMessage("RECONNECTED!", 1500);
+      }
+      if (msg.started) {
+        // Joining a crew mid-level. Back from a dropped connection, we keep the level we
+        // had and the next snapshot puts our player wherever they are now
+        if (!msg.resumed || !this.prediction || this.levelId !== msg.levelId) {
+          this.loadLevel(msg.levelId);
+        }
+      } else {
+        this.lobby.show();
+      }
+    } else if (msg.type === 'lobby') {
+      this.lobby.update(msg.players, msg.maxPlayers, msg.levelId, msg.mode, msg.spectators);
+      const spectatorCount = document.getElementById('room-spectators');
+      if (spectatorCount) {
+        spectatorCount.textContent = msg.spectators > 0 ? `👁️ ${msg.spectators} watching` : '';
+      }
+    } else if (msg.type === 'start') {
+      // Everyone's first snapshot is this frame, so the whole crew sets off together
+      this.lobby.hide();
+      this.raceResults.hide();
+      this.loadLevel(msg.levelId);
+      this.renderer.showMessage("SET SAIL!", 1500);
+    } else if (msg.type === 'level_over' && msg.results.length > 0) {
+      this.renderer.showMessage("RACE OVER!", 1500);
+      setTimeout(() => {
+        if (this.running) this.raceResults.show(msg.results, this.localPlayerId, () => this.lobby.show());
+      }, 1500);
+    } else if (msg.type === 'level_over') {
+      this.renderer.showMessage(msg.complete ? "TREASURE FOUND!" : "THE CREW WAS LOST!", 2500);
+      setTimeout(() => {
+        if (this.running) this.lobby.show();
+      }, 2500);
+    } else if (msg.type === 'room_full') {
+      this.stop();
+      alert(`That room is full (${msg.maxPlayers} pirates max)`);
+      this.onReturnToMenu?.();
+    } else if (msg.type === 'version_mismatch') {
+      this.stop();
+      alert(`This room runs a different version of the game (protocol ${msg.serverVersion}, ours is ${PROTOCOL_VERSION}) - try reloading`);
+      this.onReturnToMenu?.();
+    } else if (msg.type === 'host_changed') {
+      // The world lives on the server, so the new host carries on from its latest
+      // frame - only the host duties move
+      const wasHost = this.isHost;
+      this.isHost = msg.hostId === this.localPlayerId;
+      if (this.isHost && !wasHost) {
+        console.log(`Host left - taking over at frame ${msg.frame}`);
+        this.renderer.showMessage("YOU'RE THE CAPTAIN NOW!", 2000);
+      }
+    } else if (msg.type === 'pong') {
+      this.pings.receive(msg.id, performance.now());
+    } else if (msg.type === 'snapshot') {
+      this.snapshots.add(msg.snapshot);
+      this.remoteInputLeads = msg.snapshot.inputLead;
+      if (this.spectator) {
+        this.send({ type: 'ack', ackFrame: msg.snapshot.state.frame });
+      }
+      this.prediction?.receiveSnapshot(msg.snapshot);
     }
   }
 
   public async start() {
     await this.renderer.initialize(document.body);
-    
-    // Create default multiplayer map
-    this.physics.createDefaultMap();
     this.renderer.setPhysics(this.physics);
-    this.renderer.drawMap(this.physics);
-    this.renderer.setupUI("Multiplayer Arena");
     
     // Start background music
     getSoundManager().playBackgroundMusic();
@@ -210,12 +329,42 @@ export class Game {
     window.addEventListener('keyup', this.handleKeyUp);
     
     this.running = true;
+    this.socket.reconnect();
+    this.pingTimer = setInterval(() => {
+      this.send({ type: 'ping', id: this.pings.send(performance.now()) });
+    }, PING_INTERVAL);
     this.loop();
   }
 
+  // Set up the lobby's chosen level; the server's first snapshot fills in the world
+  private loadLevel(levelId: number) {
+    const level = getLevelById(levelId);
+    if (!level || !this.localPlayerId) {
+      console.error(`Level ${levelId} not found`);
+      return;
+    }
+
+    this.physics.loadLevel(level);
+    this.prediction = new ClientPrediction(this.physics, this.localPlayerId);
+    this.levelId = levelId;
+    this.snapshots.clear();
+
+    this.renderer.clearWorld();
+    this.renderer.showEffects();
+    this.renderer.drawMap(this.physics);
+    this.renderer.setupUI(level.name);
+  }
+
   public stop() {
     this.running = false;
+    this.socket.send(encodeClientMessage({ type: 'leave' }));
     this.socket.close();
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    this.lobby.hide();
+    this.raceResults.hide();
     window.removeEventListener('keydown', this.handleKeyDown);
     window.removeEventListener('keyup', this.handleKeyUp);
     getSoundManager().stopBackgroundMusic();
@@ -236,44 +385,106 @@ export class Game {
       this.accumulator -= FRAME_TIME;
     }
 
-    this.renderer.render(this.state, this.localPlayerId || "");
+    if (this.prediction?.isSynced()) {
+      const followId = this.spectator ? this.getFollowedPlayerId() : this.localPlayerId;
+      this.renderer.render(this.prediction.state, followId || "");
+      this.renderer.renderRaceHud(this.prediction.state, followId || "");
+      this.renderer.updateNetworkOverlay(this.getNetworkStats());
+    }
     
     requestAnimationFrame((t) => this.loop(t));
   }
 
   private fixedUpdate() {
-    if (!this.localPlayerId) return;
+    if (!this.prediction) return;
 
-    const currentFrame = this.state.frame;
+    this.prediction.reconcile();
+    if (!this.prediction.isSynced()) return;
 
-    const inputFrame = currentFrame + INPUT_DELAY;
-    const localInput: Input = {
-      frame: inputFrame,
-      ...this.keys
-    };
+    if (this.spectator) {
+      this.spectate();
+      return;
+    }
 
-    this.socket.send(JSON.stringify({
-      type: 'input',
-      ...localInput
-    }));
+    // The server has ended the level - hold the final frame until the next one starts
+    const state = this.prediction.state;
+    if (state.levelComplete || state.levelFailed) return;
 
-    if (!this.inputs.has(inputFrame)) {
-      this.inputs.set(inputFrame, new Map());
+    // Keep our inputs landing just ahead of the server: run an extra frame when
+    // they arrive late, hold a frame when we've drifted too far ahead
+    let frames = 1;
+    if (++this.framesSinceTimeSync >= TIME_SYNC_INTERVAL) {
+      this.framesSinceTimeSync = 0;
+      const lead = this.prediction.getInputLead();
+      if (lead < TARGET_INPUT_LEAD) frames = 2;
+      else if (lead > TARGET_INPUT_LEAD + INPUT_LEAD_SLACK) frames = 0;
     }
-    this.inputs.get(inputFrame)!.set(this.localPlayerId, localInput);
 
-    const frameInputs = this.inputs.get(currentFrame) || new Map();
-    
-    this.physics.step(this.state, frameInputs);
-    
-    if (this.isHost && currentFrame % SYNC_INTERVAL === 0) {
-      const serialized = this.serializeState();
-      this.socket.send(JSON.stringify({
-        type: 'state',
-        state: serialized
-      }));
+    for (let i = 0; i < frames; i++) {
+      const { input, events } = this.prediction.predictFrame(this.keys);
+      // Acking our newest snapshot lets the server send the next one as a delta
+      this.send({ type: 'input', input, ackFrame: this.snapshots.getLatestFrame() });
+      getSoundManager().handleEvents(events);
+      this.renderer.handleEvents(events);
+      this.showCrewMessages(events);
+    }
+  }
+
+  private spectate() {
+    if (this.freeCamera) {
+      const { left, right, up, down } = this.cameraKeys;
+      this.freeCamera.x += ((right ? 1 : 0) - (left ? 1 : 0)) * FREE_CAMERA_SPEED;
+      this.freeCamera.y += ((down ? 1 : 0) - (up ? 1 : 0)) * FREE_CAMERA_SPEED;
+      // The renderer clamps the camera to the level; keep our point inside too
+      const level = this.physics.getCurrentLevel();
+      if (level) {
+        this.freeCamera.x = Math.max(400, Math.min(this.freeCamera.x, level.width - 400));
+        this.freeCamera.y = Math.max(300, Math.min(this.freeCamera.y, level.height - 300));
+      }
+    }
+
+    const state = this.prediction!.state;
+    if (state.levelComplete || state.levelFailed) return;
+
+    // We send no inputs, so there's nothing to run ahead for - just carry the crew forward
+    // between snapshots (repeating their last inputs) to keep the picture smooth
+    const latest = this.snapshots.getLatestFrame();
+    if (latest !== null && state.frame < latest + SNAPSHOT_INTERVAL) {
+      const { events } = this.prediction!.predictFrame({ left: false, right: false, jump: false, action: false, dash: false, down: false });
+      getSoundManager().handleEvents(events);
+      this.renderer.handleEvents(events);
+    }
+  }
+
+  private getNetworkStats(): NetworkOverlayStats {
+    const prediction = this.prediction!;
+    const desyncFrame = prediction.getDesyncFrame();
+    if (desyncFrame !== null && desyncFrame !== this.reportedDesyncFrame) {
+      this.reportedDesyncFrame = desyncFrame;
+      console.error(`Desync: snapshot ${desyncFrame} doesn't match the server's checksum`);
+    }
+
+    return {
+      rtt: this.pings.getRtt(),
+      jitter: this.pings.getJitter(),
+      inputLead: prediction.getInputLead(),
+      remoteInputLeads: Object.keys(this.remoteInputLeads)
+        .filter(id => id !== this.localPlayerId)
+        .map(id => ({ playerId: id, lead: this.remoteInputLeads[id] })),
+      corrections: prediction.getCorrectionCount(),
+      desyncFrame,
+      simulated: this.outgoing?.getConditions() ?? null
+    };
+  }
+
+  private showCrewMessages(events: GameEvent[]) {
+    const state = this.prediction!.state;
+    const reachedGoal = events.some(e => e.type === GameEventType.GOAL_REACHED && e.playerId === this.localPlayerId);
+    if (reachedGoal && state.race) {
+      const place = Object.keys(state.race.finishFrames).length;
+      this.renderer.showMessage(place === 1 ? "FIRST TO THE TREASURE!" : `YOU FINISHED #${place}!`, 2000);
+    } else if (reachedGoal && !state.levelComplete && state.players.size > 1) {
+      this.renderer.showMessage("WAITING FOR THE CREW...", 2000);
     }
-    
-    this.state.frame++;
   }
 }
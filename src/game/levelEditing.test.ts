@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GRID_SIZE, createBlankLevel, addBox, placeObject, findObjectAt, moveObject,
+  resizeObject, removeObject, getObjectBounds, exportLevel, importLevel
+} from './levelEditing';
+import { Simulation } from './simulation';
+import { EnemyType } from '../types';
+
+describe('level editing', () => {
+  it('snaps boxes drawn in any direction to the grid', () => {
+    const level = createBlankLevel();
+    const box = addBox(level, 'platform', { x: 413, y: 305, w: -97, h: -42 });
+
+    expect(level.platforms[box.index]).toEqual({ x: 320, y: 260, w: 100, h: 40 });
+
+    // A click with no drag still makes a usable platform
+    const tiny = addBox(level, 'movingPlatform', { x: 200, y: 200, w: 2, h: 0 });
+    expect(level.movingPlatforms![tiny.index]).toMatchObject({ w: GRID_SIZE, h: GRID_SIZE });
+    expect(level.movingPlatforms![tiny.index].speed).toBeGreaterThan(0);
+  });
+
+  it('picks, moves, resizes and removes the topmost object', () => {
+    const level = createBlankLevel();
+    const doubloon = placeObject(level, 'doubloon', { x: 98, y: 402 });
+    expect(level.doubloons[0]).toEqual({ x: 100, y: 400 });
+
+    expect(findObjectAt(level, 105, 405)).toEqual(doubloon);
+    expect(findObjectAt(level, 105, 550)).toEqual({ kind: 'platform', index: 0 });
+    expect(findObjectAt(level, 700, 100)).toBeNull();
+
+    moveObject(level, doubloon, 301, 279);
+    expect(level.doubloons[0]).toEqual({ x: 300, y: 280 });
+
+    const spikes = addBox(level, 'spike', { x: 600, y: 480, w: 60, h: 60 });
+    resizeObject(level, spikes, 125, 300);
+    expect(getObjectBounds(level, spikes)).toEqual({ x: 600, y: 480, w: 120, h: 20 });
+
+    expect(removeObject(level, doubloon)).toBe(true);
+    expect(level.doubloons).toEqual([]);
+    // A level always needs somewhere to start and finish
+    expect(removeObject(level, { kind: 'spawn', index: 0 })).toBe(false);
+  });
+
+  it('moves markers rather than adding more of them', () => {
+    const level = createBlankLevel();
+    placeObject(level, 'goal', { x: 1000, y: 300 });
+    placeObject(level, 'goal', { x: 1200, y: 300 });
+    expect(level.goalPosition).toEqual({ x: 1200, y: 300 });
+
+    const enemy = placeObject(level, 'enemy', { x: 400, y: 460 }, EnemyType.SKELETON);
+    expect(level.enemies![enemy.index].type).toBe(EnemyType.SKELETON);
+    expect(getObjectBounds(level, enemy)).toMatchObject({ w: 28, h: 40 });
+  });
+
+  it('round-trips through JSON into a playable level', () => {
+    const level = createBlankLevel();
+    placeObject(level, 'swordChest', { x: 400, y: 380 });
+    addBox(level, 'platform', { x: 600, y: 400, w: 200, h: 20 });
+
+    const imported = importLevel(exportLevel(level));
+    expect(imported).toEqual(level);
+
+    // Whatever the editor makes, the simulation can run
+    const sim = new Simulation(imported);
+    for (let i = 0; i < 60; i++) sim.step({ right: true });
+    expect(sim.getPlayer().position.x).toBeGreaterThan(level.spawnPoint.x * 100);
+  });
+
+  it('rejects files that are not levels', () => {
+    expect(() => importLevel('not json')).toThrow('not valid JSON');
+    expect(() => importLevel('{"name": "Nowhere", "width": 100, "height": 100}')).toThrow('spawn');
+
+    // Anything the editor couldn't draw is turned away too
+    const level = createBlankLevel();
+    const broken = { ...level, platforms: [null], enemies: [{ x: 100, y: 100, type: 'KRAKEN' }] };
+    expect(() => importLevel(JSON.stringify(broken))).toThrow(/platforms\[0\][\s\S]*unknown type "KRAKEN"/);
+  });
+});
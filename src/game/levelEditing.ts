@@ -0,0 +1,305 @@
+import { LevelData, EnemyType, CharacterType, Vector } from "../types";
+import { ENEMY_SIZES, getBaseSize } from "./levelState";
+import { validateLevel, isObject } from "./levelPacks";
+import { EDITOR_LEVEL_ID } from "./levels";
+
+export const GRID_SIZE = 20;
+
+const SPIKE_HEIGHT = 20;
+const DEFAULT_MOVING_PLATFORM = { moveX: 100, speed: 0.03 };
+
+// Resizable rectangles
+export type BoxKind = 'platform' | 'movingPlatform' | 'spike';
+// Placed any number of times
+export type ItemKind = 'doubloon' | 'enemy' | 'checkpoint' | 'rum' | 'coconut';
+// One per level
+export type MarkerKind = 'spawn' | 'goal' | 'swordChest';
+export type EditorObjectKind = BoxKind | ItemKind | MarkerKind;
+
+export interface EditorSelection {
+  kind: EditorObjectKind;
+  index: number; // always 0 for markers
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const ITEM_FIELDS = {
+  doubloon: 'doubloons',
+  checkpoint: 'checkpoints',
+  rum: 'rum',
+  coconut: 'coconuts'
+} as const;
+
+const ITEM_SIZES: Record<Exclude<ItemKind, 'enemy'> | MarkerKind, { width: number; height: number }> = {
+  doubloon: { width: 20, height: 20 },
+  checkpoint: { width: 24, height: 64 },
+  rum: { width: 16, height: 28 },
+  coconut: { width: 24, height: 24 },
+  spawn: getBaseSize(CharacterType.PIRATE),
+  goal: { width: 40, height: 40 },
+  swordChest: { width: 32, height: 32 }
+};
+
+export function isBoxKind(kind: EditorObjectKind): kind is BoxKind {
+  return kind === 'platform' || kind === 'movingPlatform' || kind === 'spike';
+}
+
+export function snapToGrid(value: number, grid: number = GRID_SIZE): number {
+  return Math.round(value / grid) * grid;
+}
+
+/**
+ * A small island to start from: ground, a spawn and a goal.
+ */
+export function createBlankLevel(): LevelData {
+  return {
+    id: EDITOR_LEVEL_ID,
+    name: "Uncharted Island",
+    width: 1600,
+    height: 600,
+    spawnPoint: { x: 60, y: 440 },
+    goalPosition: { x: 1500, y: 460 },
+    platforms: [{ x: 0, y: 500, w: 1600, h: 100 }],
+    doubloons: []
+  };
+}
+
+/**
+ * Everything placed in the level, in drawing order (later objects are on top).
+ */
+export function listObjects(level: LevelData): EditorSelection[] {
+  const objects: EditorSelection[] = [];
+  const add = (kind: EditorObjectKind, count: number) => {
+    for (let index = 0; index < count; index++) objects.push({ kind, index });
+  };
+
+  add('platform', level.platforms.length);
+  add('movingPlatform', level.movingPlatforms?.length ?? 0);
+  add('spike', level.spikes?.length ?? 0);
+  add('checkpoint', level.checkpoints?.length ?? 0);
+  add('doubloon', level.doubloons.length);
+  add('rum', level.rum?.length ?? 0);
+  add('coconut', level.coconuts?.length ?? 0);
+  add('enemy', level.enemies?.length ?? 0);
+  if (level.swordChest) add('swordChest', 1);
+  add('goal', 1);
+  add('spawn', 1);
+  return objects;
+}
+
+export function getObjectBounds(level: LevelData, selection: EditorSelection): Rect {
+  const { kind, index } = selection;
+  switch (kind) {
+    case 'platform':
+      return { ...level.platforms[index] };
+    case 'movingPlatform': {
+      const { x, y, w, h } = level.movingPlatforms![index];
+      return { x, y, w, h };
+    }
+    case 'spike': {
+      const { x, y, w } = level.spikes![index];
+      return { x, y, w, h: SPIKE_HEIGHT };
+    }
+    case 'enemy': {
+      const enemy = level.enemies![index];
+      const size = ENEMY_SIZES[enemy.type || EnemyType.CRAB];
+      return { x: enemy.x, y: enemy.y, w: size.width, h: size.height };
+    }
+    default: {
+      const position = getPosition(level, selection)!;
+      const size = ITEM_SIZES[kind];
+      return { x: position.x, y: position.y, w: size.width, h: size.height };
+    }
+  }
+}
+
+/**
+ * The topmost object under a point, if any.
+ */
+export function findObjectAt(level: LevelData, x: number, y: number): EditorSelection | null {
+  const objects = listObjects(level);
+  for (let i = objects.length - 1; i >= 0; i--) {
+    const bounds = getObjectBounds(level, objects[i]);
+    if (x >= bounds.x && x < bounds.x + bounds.w && y >= bounds.y && y < bounds.y + bounds.h) {
+      return objects[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Add a platform, moving platform or spike strip covering a rectangle. The rectangle
+ * may have been dragged in any direction; it's snapped and at least one grid cell.
+ */
+export function addBox(level: LevelData, kind: BoxKind, rect: Rect): EditorSelection {
+  const x = snapToGrid(Math.min(rect.x, rect.x + rect.w));
+  const y = snapToGrid(Math.min(rect.y, rect.y + rect.h));
+  const w = Math.max(GRID_SIZE, snapToGrid(Math.abs(rect.w)));
+  const h = Math.max(GRID_SIZE, snapToGrid(Math.abs(rect.h)));
+
+  switch (kind) {
+    case 'platform':
+      level.platforms.push({ x, y, w, h });
+      return { kind, index: level.platforms.length - 1 };
+    case 'movingPlatform': {
+      const platforms = level.movingPlatforms || (level.movingPlatforms = []);
+      platforms.push({ x, y, w, h, ...DEFAULT_MOVING_PLATFORM });
+      return { kind, index: platforms.length - 1 };
+    }
+    case 'spike': {
+      const spikes = level.spikes || (level.spikes = []);
+      spikes.push({ x, y, w });
+      return { kind, index: spikes.length - 1 };
+    }
+  }
+}
+
+/**
+ * Put an object at a (snapped) point. Markers move there instead, since a level has
+ * exactly one of each.
+ */
+export function placeObject(level: LevelData, kind: ItemKind | MarkerKind, at: Vector, enemyType: EnemyType = EnemyType.CRAB): EditorSelection {
+  const position = { x: snapToGrid(at.x), y: snapToGrid(at.y) };
+
+  switch (kind) {
+    case 'spawn':
+      level.spawnPoint = position;
+      return { kind, index: 0 };
+    case 'goal':
+      level.goalPosition = position;
+      return { kind, index: 0 };
+    case 'swordChest':
+      level.swordChest = position;
+      return { kind, index: 0 };
+    case 'enemy': {
+      const enemies = level.enemies || (level.enemies = []);
+      enemies.push({ ...position, type: enemyType, patrolWidth: 100 });
+      return { kind, index: enemies.length - 1 };
+    }
+    default: {
+      const field = ITEM_FIELDS[kind];
+      const items = level[field] || (level[field] = []);
+      items.push(position);
+      return { kind, index: items.length - 1 };
+    }
+  }
+}
+
+/**
+ * Move an object so its top-left corner is at the (snapped) point.
+ */
+export function moveObject(level: LevelData, selection: EditorSelection, x: number, y: number) {
+  const target = getObject(level, selection);
+  target.x = snapToGrid(x);
+  target.y = snapToGrid(y);
+}
+
+/**
+ * Resize a box. Spikes are always one strip high, so only their width changes.
+ */
+export function resizeObject(level: LevelData, selection: EditorSelection, w: number, h: number) {
+  const width = Math.max(GRID_SIZE, snapToGrid(w));
+  const height = Math.max(GRID_SIZE, snapToGrid(h));
+
+  if (selection.kind === 'spike') {
+    level.spikes![selection.index].w = width;
+  } else if (selection.kind === 'platform' || selection.kind === 'movingPlatform') {
+    const box = selection.kind === 'platform'
+      ? level.platforms[selection.index]
+      : level.movingPlatforms![selection.index];
+    box.w = width;
+    box.h = height;
+  }
+}
+
+/**
+ * Delete an object. The spawn and goal can only be moved; returns false for them.
+ */
+export function removeObject(level: LevelData, selection: EditorSelection): boolean {
+  const { kind, index } = selection;
+  switch (kind) {
+    case 'spawn':
+    case 'goal':
+      return false;
+    case 'swordChest':
+      delete level.swordChest;
+      return true;
+    case 'platform':
+      level.platforms.splice(index, 1);
+      return true;
+    case 'movingPlatform':
+      level.movingPlatforms!.splice(index, 1);
+      return true;
+    case 'spike':
+      level.spikes!.splice(index, 1);
+      return true;
+    case 'enemy':
+      level.enemies!.splice(index, 1);
+      return true;
+    default:
+      level[ITEM_FIELDS[kind]]!.splice(index, 1);
+      return true;
+  }
+}
+
+export function exportLevel(level: LevelData): string {
+  return JSON.stringify(level, null, 2);
+}
+
+/**
+ * Read a level back from exported JSON, checked the same way as a level pack's levels
+ * so the editor never has to draw something it doesn't understand. Whether it's any
+ * fun is for play-testing to find out.
+ */
+export function importLevel(text: string): LevelData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Level file is not valid JSON');
+  }
+
+  // Levels made in the editor needn't have an id yet
+  const level = isObject(data) && data.id === undefined ? { ...data, id: EDITOR_LEVEL_ID } : data;
+  const errors = validateLevel(level);
+  if (errors.length > 0) {
+    throw new Error(`Level can't be loaded:\n${errors.map(error => `• Level ${error}`).join('\n')}`);
+  }
+  return level as LevelData;
+}
+
+// Items and markers are positioned by a point; the rest carry x/y themselves
+function getPosition(level: LevelData, selection: EditorSelection): Vector | undefined {
+  const { kind, index } = selection;
+  switch (kind) {
+    case 'spawn': return level.spawnPoint;
+    case 'goal': return level.goalPosition;
+    case 'swordChest': return level.swordChest;
+    case 'doubloon':
+    case 'checkpoint':
+    case 'rum':
+    case 'coconut':
+      return level[ITEM_FIELDS[kind]]?.[index];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The level data behind a selection, for editing its properties in place.
+ */
+export function getObject(level: LevelData, selection: EditorSelection): { x: number; y: number } {
+  const { kind, index } = selection;
+  switch (kind) {
+    case 'platform': return level.platforms[index];
+    case 'movingPlatform': return level.movingPlatforms![index];
+    case 'spike': return level.spikes![index];
+    case 'enemy': return level.enemies![index];
+    default: return getPosition(level, selection)!;
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { validateLevel, parseLevelPack, restoreLevelPacks } from './levelPacks';
+import { CAMPAIGN_LEVELS, addLevelPack, removeLevelPack, getLevelById, getNextLevel, getLevelPackOf } from './levels';
+import { LevelData, TileShape } from '../types';
+
+function island(id: number, changes: Partial<LevelData> = {}): LevelData {
+  return {
+    id,
+    name: `Island ${id}`,
+    width: 800,
+    height: 600,
+    platforms: [{ x: 0, y: 500, w: 800, h: 100 }],
+    spawnPoint: { x: 40, y: 400 },
+    goalPosition: { x: 700, y: 460 },
+    doubloons: [{ x: 300, y: 450 }],
+    ...changes
+  };
+}
+
+describe('level packs', () => {
+  afterEach(() => {
+    removeLevelPack('coral-reef');
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('accepts every built-in level', () => {
+    for (const level of CAMPAIGN_LEVELS) {
+      expect(validateLevel(level), level.name).toEqual([]);
+    }
+  });
+
+  it('explains what is wrong with a level', () => {
+    const errors = validateLevel(island(101, {
+      platforms: [{ x: 0, y: 500, w: 800, h: 100 }, { x: 700, y: 200, w: 200, h: 20 }],
+      enemies: [{ x: 100, y: 468, type: 'KRAKEN' as any }],
+      requiredDoubloons: 3
+    }));
+
+    expect(errors).toEqual([
+      'platforms[1] at (700, 200) sticks out of the 800x600 level',
+      expect.stringContaining('enemies[0] has unknown type "KRAKEN"'),
+      'needs 3 doubloons to open the treasure but only has 1'
+    ]);
+    expect(validateLevel({ name: 'Blank' })).toEqual(['needs a whole-number "id"', 'needs a positive "width" and "height"']);
+  });
+
+  it('needs a spawn the player can stand at', () => {
+    expect(validateLevel(island(101, { spawnPoint: { x: 40, y: 520 } }))[0]).toContain('is inside platforms[0]');
+    expect(validateLevel(island(101, { platforms: [{ x: 200, y: 500, w: 600, h: 100 }] }))[0]).toContain('no platform below it');
+  });
+
+  it('checks tile layers and lets the player start on tiles', () => {
+    const tiles = {
+      tileSize: 40,
+      tileset: { 1: { shape: TileShape.SOLID, color: 0x8b4513 }, 2: { shape: TileShape.ONE_WAY, color: 0xdeb887 } },
+      rows: [...Array(12).fill(Array(20).fill(0)), Array(20).fill(2), Array(20).fill(0), Array(20).fill(1)]
+    };
+    expect(validateLevel(island(101, { platforms: [], spawnPoint: { x: 40, y: 400 }, tiles }))).toEqual([]);
+
+    const broken = { ...tiles, tileset: { ...tiles.tileset, 3: { shape: 'LADDER', color: 0 } }, rows: [[0, 7], Array(21).fill(1)] };
+    expect(validateLevel(island(101, { tiles: broken as any }))).toEqual([
+      expect.stringContaining('tiles.tileset[3] has unknown shape "LADDER"'),
+      "tiles.rows[0] uses tile 7, which isn't in the tileset",
+      'tiles.rows[1] is 21 tiles wide, wider than the level (800px)'
+    ]);
+    expect(validateLevel(island(101, { platforms: [], tiles: { ...tiles, rows: [...tiles.rows.slice(0, 10), Array(20).fill(1)] } }))[0])
+      .toContain('is inside a solid tile');
+  });
+
+  it('reads packs, bare level lists and single levels', () => {
+    const pack = parseLevelPack(JSON.stringify({ name: 'Coral Reef', levels: [island(101), island(102)] }), 'reef');
+    expect(pack.id).toBe('coral-reef');
+    expect(pack.levels.map(l => l.id)).toEqual([101, 102]);
+
+    expect(parseLevelPack(JSON.stringify([island(101)]), 'lagoon').name).toBe('lagoon');
+    expect(parseLevelPack(JSON.stringify(island(101)), 'cove').levels).toHaveLength(1);
+    expect(() => parseLevelPack('{"levels": []}', 'empty')).toThrow('empty has no levels');
+    expect(() => parseLevelPack('<html>', 'page')).toThrow('page is not valid JSON');
+  });
+
+  it('names the level each problem is in and refuses taken ids', () => {
+    const json = JSON.stringify({ name: 'Coral Reef', levels: [island(1), island(101, { goalPosition: { x: 900, y: 0 } }), island(101)] });
+    let message = '';
+    try {
+      parseLevelPack(json, 'reef');
+    } catch (e) {
+      message = (e as Error).message;
+    }
+
+    expect(message.split('\n')).toEqual([
+      "Coral Reef can't be loaded:",
+      `• Level 1 "Island 1" uses id 1, which is already campaign level "${CAMPAIGN_LEVELS[0].name}"`,
+      '• Level 2 "Island 101" goalPosition at (900, 0) is outside the 800x600 level',
+      '• Level 3 "Island 101" uses id 101, which is already "Island 101" in this pack'
+    ]);
+  });
+
+  it('keeps pack level ids clear of the campaign, the editor and voyages', () => {
+    const errorsFor = (id: number) => {
+      try {
+        parseLevelPack(JSON.stringify([island(id)]), 'reef');
+        return '';
+      } catch (e) {
+        return (e as Error).message;
+      }
+    };
+
+    expect(errorsFor(99)).toContain('uses id 99, but pack levels start at 100');
+    expect(errorsFor(1000)).toContain('uses id 1000, which is already kept for the level editor');
+    expect(errorsFor(2000)).toContain('uses id 2000, which is already kept for endless voyages');
+    expect(errorsFor(100)).toBe('');
+  });
+
+  it('plays a loaded pack as its own campaign', () => {
+    addLevelPack(parseLevelPack(JSON.stringify({ name: 'Coral Reef', levels: [island(101), island(102)] }), 'reef'));
+
+    expect(getLevelById(102)?.name).toBe('Island 102');
+    expect(getLevelPackOf(101)?.name).toBe('Coral Reef');
+    expect(getNextLevel(101)?.id).toBe(102);
+    // The last island of a pack doesn't lead anywhere else
+    expect(getNextLevel(102)).toBeUndefined();
+    expect(getNextLevel(CAMPAIGN_LEVELS[0].id)).toBe(CAMPAIGN_LEVELS[1]);
+
+    // Reloading the same pack replaces it rather than clashing with itself
+    expect(() => parseLevelPack(JSON.stringify({ name: 'Coral Reef', levels: [island(101)] }), 'reef')).not.toThrow();
+  });
+
+  it('restores saved packs, skipping whatever in storage is not one', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const stored = (value: unknown) => vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(value) });
+
+    stored({ name: 'Coral Reef' });
+    expect(() => restoreLevelPacks()).not.toThrow();
+    expect(getLevelPackOf(101)).toBeNull();
+
+    stored([null, 5, { name: 'Coral Reef', levels: [island(101)] }]);
+    restoreLevelPacks();
+    expect(getLevelPackOf(101)?.name).toBe('Coral Reef');
+  });
+});
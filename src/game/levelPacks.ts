@@ -0,0 +1,307 @@
+import { LevelData, LevelPack, EnemyType, CharacterType, TileShape } from "../types";
+import {
+  CAMPAIGN_LEVELS, FIRST_PACK_LEVEL_ID, EDITOR_LEVEL_ID, VOYAGE_LEVEL_ID, getLevelPacks, addLevelPack, removeLevelPack
+} from "./levels";
+import { getBaseSize } from "./levelState";
+import { buildTileBodies } from "./tiles";
+
+const STORAGE_KEY = 'piratical_level_packs';
+const MAX_REPORTED_ERRORS = 15; // enough to work through, without burying the first ones
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isWholeNumber = (value: unknown): value is number => Number.isInteger(value);
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isPoint = (value: unknown): value is { x: number; y: number } => isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+/**
+ * Everything wrong with one level, each as a sentence a pack author can act on.
+ * Empty when the level is good to play.
+ */
+export function validateLevel(data: unknown): string[] {
+  if (!isObject(data) || Array.isArray(data)) return ['is not a level object'];
+  const level = data;
+  const errors: string[] = [];
+
+  if (!isWholeNumber(level.id)) errors.push('needs a whole-number "id"');
+  if (typeof level.name !== 'string' || !level.name.trim()) errors.push('needs a "name"');
+  const { width, height } = level;
+  if (!isNumber(width) || width <= 0 || !isNumber(height) || height <= 0) {
+    // Nothing else can be checked against the bounds
+    errors.push('needs a positive "width" and "height"');
+    return errors;
+  }
+
+  const outside = (x: number, y: number, w: number, h: number) => x < 0 || y < 0 || x + w > width || y + h > height;
+  const bounds = `the ${width}x${height} level`;
+
+  const checkList = (field: string, required: boolean, check: (item: unknown, name: string) => void) => {
+    const list: unknown = level[field];
+    if (list === undefined && !required) return;
+    if (!Array.isArray(list)) {
+      errors.push(`needs a "${field}" list`);
+      return;
+    }
+    list.forEach((item: unknown, i) => check(item, `${field}[${i}]`));
+  };
+
+  const checkBox = (box: unknown, name: string, boxHeight?: number) => {
+    const h = boxHeight ?? (isObject(box) ? box.h : undefined);
+    if (!isObject(box) || !isNumber(box.x) || !isNumber(box.y) || !isNumber(box.w) || !isNumber(h) || box.w <= 0 || h <= 0) {
+      errors.push(`${name} needs numbers x, y and a positive size`);
+    } else if (outside(box.x, box.y, box.w, h)) {
+      errors.push(`${name} at (${box.x}, ${box.y}) sticks out of ${bounds}`);
+    }
+  };
+
+  const checkPoint = (point: unknown, name: string) => {
+    if (!isPoint(point)) {
+      errors.push(`${name} needs numbers x and y`);
+    } else if (outside(point.x, point.y, 0, 0)) {
+      errors.push(`${name} at (${point.x}, ${point.y}) is outside ${bounds}`);
+    }
+  };
+
+  checkList('platforms', true, (box, name) => checkBox(box, name));
+  checkList('movingPlatforms', false, (box, name) => {
+    checkBox(box, name);
+    if (isObject(box) && !isNumber(box.speed)) errors.push(`${name} needs a "speed"`);
+  });
+  checkList('spikes', false, (spike, name) => checkBox(spike, name, 20));
+
+  checkList('doubloons', true, checkPoint);
+  checkList('checkpoints', false, checkPoint);
+  checkList('rum', false, checkPoint);
+  checkList('coconuts', false, checkPoint);
+
+  const enemyTypes = Object.values(EnemyType) as string[];
+  checkList('enemies', false, (enemy, name) => {
+    checkPoint(enemy, name);
+    if (!isObject(enemy)) return;
+    if (enemy.type !== undefined && (typeof enemy.type !== 'string' || !enemyTypes.includes(enemy.type))) {
+      errors.push(`${name} has unknown type "${enemy.type}" (expected one of ${enemyTypes.join(', ')})`);
+    }
+    for (const field of ['patrolWidth', 'patrolHeight', 'fireRate']) {
+      if (enemy[field] !== undefined && !isNumber(enemy[field])) errors.push(`${name}.${field} must be a number`);
+    }
+  });
+
+  checkPoint(level.goalPosition, 'goalPosition');
+  if (level.swordChest !== undefined) checkPoint(level.swordChest, 'swordChest');
+  if (level.background !== undefined && !isNumber(level.background)) errors.push('"background" must be a colour number');
+
+  const required = level.requiredDoubloons;
+  const doubloonCount = Array.isArray(level.doubloons) ? level.doubloons.length : 0;
+  if (required !== undefined && (!isWholeNumber(required) || required < 0)) {
+    errors.push('"requiredDoubloons" must be a whole number');
+  } else if (isWholeNumber(required) && required > doubloonCount) {
+    errors.push(`needs ${required} doubloons to open the treasure but only has ${doubloonCount}`);
+  }
+
+  if (level.tiles !== undefined) errors.push(...checkTiles(level.tiles, width, height));
+
+  checkPoint(level.spawnPoint, 'spawnPoint');
+  if (errors.length === 0) {
+    // Every field checkSpawn reads has been checked above
+    errors.push(...checkSpawn(level as unknown as LevelData));
+  }
+  return errors;
+}
+
+function checkTiles(tiles: unknown, width: number, height: number): string[] {
+  if (!isObject(tiles)) return ['"tiles" must be a tile layer'];
+  const { tileSize: size, tileset, rows } = tiles;
+  if (!isWholeNumber(size) || size <= 0) return ['tiles.tileSize must be a positive whole number'];
+  if (!isObject(tileset)) return ['tiles needs a "tileset"'];
+  if (!Array.isArray(rows)) return ['tiles needs a "rows" grid'];
+
+  const errors: string[] = [];
+  const shapes = Object.values(TileShape) as string[];
+  for (const [id, tile] of Object.entries(tileset)) {
+    if (!/^[1-9][0-9]*$/.test(id)) errors.push(`tiles.tileset id "${id}" must be a whole number above 0`);
+    const shape = isObject(tile) ? tile.shape : undefined;
+    if (typeof shape !== 'string' || !shapes.includes(shape)) {
+      errors.push(`tiles.tileset[${id}] has unknown shape "${shape}" (expected one of ${shapes.join(', ')})`);
+    }
+    if (!isObject(tile) || !isNumber(tile.color)) errors.push(`tiles.tileset[${id}] needs a colour number`);
+  }
+
+  if (rows.length * size > height) {
+    errors.push(`tiles has ${rows.length} rows of ${size}px, taller than the level (${height}px)`);
+  }
+  rows.forEach((row: unknown, r: number) => {
+    if (!Array.isArray(row)) {
+      errors.push(`tiles.rows[${r}] must be a list of tile ids`);
+      return;
+    }
+    if (row.length * size > width) {
+      errors.push(`tiles.rows[${r}] is ${row.length} tiles wide, wider than the level (${width}px)`);
+    }
+    const unknown = row.find((id: unknown) => id !== 0 && !(isWholeNumber(id) && tileset[id]));
+    if (unknown !== undefined) errors.push(`tiles.rows[${r}] uses tile ${JSON.stringify(unknown)}, which isn't in the tileset`);
+  });
+  return errors;
+}
+
+// The player has to appear in open air with something below to land on
+function checkSpawn(level: LevelData): string[] {
+  const { x, y } = level.spawnPoint;
+  const size = getBaseSize(CharacterType.PIRATE);
+  const overlapsX = (box: { x: number; w: number }) => box.x < x + size.width && box.x + box.w > x;
+  const tiles = level.tiles ? buildTileBodies(level.tiles) : { solids: [], slopes: [], oneWays: [] };
+
+  const inside = level.platforms.findIndex(p => overlapsX(p) && p.y < y + size.height && p.y + p.h > y);
+  if (inside >= 0) {
+    return [`spawnPoint (${x}, ${y}) is inside platforms[${inside}] - the player would be stuck`];
+  }
+  if (tiles.solids.some(p => overlapsX(p) && p.y < y + size.height && p.y + p.h > y)) {
+    return [`spawnPoint (${x}, ${y}) is inside a solid tile - the player would be stuck`];
+  }
+
+  // Slopes count by the tile they fill
+  const slopeBoxes = tiles.slopes.map(corners => {
+    const xs = corners.map(c => c.x);
+    const ys = corners.map(c => c.y);
+    return { x: Math.min(...xs), y: Math.min(...ys), w: Math.max(...xs) - Math.min(...xs), h: Math.max(...ys) - Math.min(...ys) };
+  });
+  const ground = [...level.platforms, ...(level.movingPlatforms || []), ...tiles.solids, ...tiles.oneWays, ...slopeBoxes];
+  if (!ground.some(p => overlapsX(p) && p.y >= y + size.height)) {
+    return [`spawnPoint (${x}, ${y}) has no platform below it - the player would fall out of the world`];
+  }
+  return [];
+}
+
+/**
+ * Read a level pack: `{ "name", "levels": [...] }`, a bare list of levels or a single
+ * level. Throws with every problem found, naming the level each is in.
+ */
+export function parseLevelPack(text: string, fallbackName: string): LevelPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${fallbackName} is not valid JSON`);
+  }
+
+  let levels: unknown[];
+  let name = fallbackName;
+  let id: string | undefined;
+  if (Array.isArray(data)) {
+    levels = data;
+  } else if (isObject(data) && Array.isArray(data.levels)) {
+    levels = data.levels;
+    if (typeof data.name === 'string' && data.name.trim()) name = data.name.trim();
+    if (typeof data.id === 'string' && data.id.trim()) id = data.id.trim();
+  } else if (isObject(data) && Array.isArray(data.platforms)) {
+    levels = [data];
+  } else {
+    throw new Error(`${fallbackName} has no levels - expected { "name", "levels": [...] }`);
+  }
+  if (levels.length === 0) throw new Error(`${name} has no levels`);
+
+  const packId = id ?? (name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pack');
+  const errors: string[] = [];
+
+  // Progress is kept by level id, so ids must be unique across every campaign
+  const takenIds = new Map<number, string>([
+    [EDITOR_LEVEL_ID, 'kept for the level editor'],
+    [VOYAGE_LEVEL_ID, 'kept for endless voyages']
+  ]);
+  for (const level of CAMPAIGN_LEVELS) takenIds.set(level.id, `campaign level "${level.name}"`);
+  for (const pack of getLevelPacks()) {
+    if (pack.id === packId) continue; // this pack is being reloaded
+    for (const level of pack.levels) takenIds.set(level.id, `"${level.name}" in ${pack.name}`);
+  }
+
+  levels.forEach((level, i) => {
+    const levelName = isObject(level) ? level.name : undefined;
+    const levelId = isObject(level) ? level.id : undefined;
+    const label = typeof levelName === 'string' ? `Level ${i + 1} "${levelName}"` : `Level ${i + 1}`;
+    for (const error of validateLevel(level)) errors.push(`${label} ${error}`);
+
+    if (isWholeNumber(levelId)) {
+      const taken = takenIds.get(levelId);
+      if (taken) {
+        errors.push(`${label} uses id ${levelId}, which is already ${taken}`);
+      } else if (levelId < FIRST_PACK_LEVEL_ID) {
+        errors.push(`${label} uses id ${levelId}, but pack levels start at ${FIRST_PACK_LEVEL_ID}`);
+      }
+      takenIds.set(levelId, `"${levelName}" in this pack`);
+    }
+  });
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).map(error => `• ${error}`);
+    if (errors.length > shown.length) shown.push(`• ...and ${errors.length - shown.length} more`);
+    throw new Error(`${name} can't be loaded:\n${shown.join('\n')}`);
+  }
+
+  return { id: packId, name, levels: levels as LevelData[] };
+}
+
+// "https://example.com/packs/coral-reef.json" -> "coral-reef"
+function nameFromPath(path: string): string {
+  const file = path.split(/[/\\?#]/).filter(Boolean).pop() || path;
+  return file.replace(/\.json$/i, '') || 'Level pack';
+}
+
+export async function fetchLevelPack(url: string): Promise<LevelPack> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(`Couldn't reach ${url}`);
+  }
+  if (!response.ok) throw new Error(`Couldn't download ${url} (HTTP ${response.status})`);
+  return parseLevelPack(await response.text(), nameFromPath(url));
+}
+
+export async function readLevelPackFile(file: File): Promise<LevelPack> {
+  return parseLevelPack(await file.text(), nameFromPath(file.name));
+}
+
+/**
+ * Add a pack to the map and remember it for next time.
+ */
+export function installLevelPack(pack: LevelPack) {
+  addLevelPack(pack);
+  saveLevelPacks();
+}
+
+export function uninstallLevelPack(packId: string) {
+  removeLevelPack(packId);
+  saveLevelPacks();
+}
+
+function saveLevelPacks() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getLevelPacks()));
+  } catch (e) {
+    console.warn('Failed to save level packs:', e);
+  }
+}
+
+/**
+ * Bring back the packs loaded on earlier visits. Each is checked again, since a new
+ * build may have claimed one of its level ids.
+ */
+export function restoreLevelPacks() {
+  let saved: unknown = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (e) {
+    console.warn('Failed to load level packs:', e);
+  }
+  if (!Array.isArray(saved)) {
+    console.warn('Ignoring saved level packs: not a list');
+    return;
+  }
+
+  saved.forEach((pack: unknown, i) => {
+    const name = isObject(pack) && typeof pack.name === 'string' ? pack.name : `Level pack ${i + 1}`;
+    try {
+      addLevelPack(parseLevelPack(JSON.stringify(pack), name));
+    } catch (e) {
+      console.warn(`Dropping level pack ${name}:`, (e as Error).message);
+    }
+  });
+}
@@ -0,0 +1,244 @@
+import { LevelData, Entity, EntityType, EnemyType, PlayerState, CharacterType, Vector } from "../types";
+import { FIXED_ONE, fixedMul } from "./determinism";
+
+const SCALE = 100;
+export const MAX_HEALTH = 3;
+
+// Hitbox size in pixels for each enemy type
+export const ENEMY_SIZES: Record<EnemyType, { width: number; height: number }> = {
+  [EnemyType.CRAB]: { width: 32, height: 24 },
+  [EnemyType.SEAGULL]: { width: 36, height: 20 },
+  [EnemyType.SKELETON]: { width: 28, height: 40 }, // Taller
+  [EnemyType.CANNON_TURRET]: { width: 48, height: 36 },
+  [EnemyType.JELLYFISH]: { width: 28, height: 36 },
+  [EnemyType.GHOST]: { width: 32, height: 36 },
+};
+
+/**
+ * Hitbox size in pixels for a character at normal size.
+ */
+export function getBaseSize(characterType: CharacterType): { width: number; height: number } {
+  return { width: 32, height: characterType === CharacterType.OCTOPUS ? 40 : 32 };
+}
+
+/**
+ * A single-player character's colour - the ghost of a run is drawn the same.
+ */
+export function getCharacterColor(characterType: CharacterType): number {
+  switch (characterType) {
+    case CharacterType.GIRL_PIRATE:
+      return 0x9b59b6; // Purple
+    case CharacterType.OCTOPUS:
+      return 0x8e44ad; // Deep purple
+    default:
+      return 0xe74c3c; // Red (classic pirate)
+  }
+}
+
+/**
+ * Grow or shrink a player's hitbox (coconut power-up), keeping their feet and
+ * horizontal center where they were. `sizeModifier` is fixed-point (FIXED_ONE is
+ * normal size); the pixel size is derived from it, rounded down.
+ */
+export function setPlayerSize(player: PlayerState, sizeModifier: number) {
+  const base = getBaseSize(player.characterType);
+  const width = fixedMul(base.width, sizeModifier);
+  const height = fixedMul(base.height, sizeModifier);
+
+  player.position.x -= ((width - player.width) * SCALE) / 2;
+  player.position.y -= (height - player.height) * SCALE;
+  player.width = width;
+  player.height = height;
+  player.sizeModifier = sizeModifier;
+}
+
+/**
+ * Fresh player state at a spawn point (spawn is in pixels).
+ */
+export function createPlayerState(
+  id: string,
+  spawn: Vector,
+  characterType: CharacterType,
+  color: number,
+  hasSword: boolean = false
+): PlayerState {
+  return {
+    id,
+    position: { x: spawn.x * SCALE, y: spawn.y * SCALE },
+    velocity: { x: 0, y: 0 },
+    isGrounded: false,
+    facingRight: true,
+    ...getBaseSize(characterType),
+    color,
+    sizeModifier: FIXED_ONE,
+    health: MAX_HEALTH,
+    doubloons: 0,
+    jumpHeld: false,
+    isAttacking: false,
+    attackFrame: 0,
+    attackCooldown: 0,
+    hasSword,
+    characterType,
+    coyoteTimer: 0,
+    wallSliding: false,
+    wallDirection: 0,
+    isDashing: false,
+    dashCooldown: 0,
+    dashTimer: 0,
+    invulnerableTimer: 0,
+    reachedGoal: false
+  };
+}
+
+/**
+ * Build the goal, collectibles, enemies and hazards described by a level. Positions
+ * and velocities are scaled integers, like the player's.
+ */
+export function createLevelEntities(level: LevelData): Entity[] {
+  const entities: Entity[] = [];
+
+  // Create entities from level data
+  let entityId = 0;
+
+  // Goal
+  entities.push({
+    id: `goal_${entityId++}`,
+    type: EntityType.GOAL,
+    position: { x: level.goalPosition.x * SCALE, y: level.goalPosition.y * SCALE },
+    width: 40,
+    height: 40,
+    active: true
+  });
+
+  // Doubloons
+  for (const pos of level.doubloons) {
+    entities.push({
+      id: `doubloon_${entityId++}`,
+      type: EntityType.DOUBLOON,
+      position: { x: pos.x * SCALE, y: pos.y * SCALE },
+      width: 20,
+      height: 20,
+      active: true,
+      collected: false
+    });
+  }
+
+  // Enemies
+  if (level.enemies) {
+    for (const enemy of level.enemies) {
+      const enemyType = enemy.type || EnemyType.CRAB;
+
+      const { width, height } = ENEMY_SIZES[enemyType];
+      let velocityX = SCALE; // Scaled units per frame, like player velocities
+
+      switch (enemyType) {
+        case EnemyType.SEAGULL: velocityX = 150; break; // Faster, flying
+        case EnemyType.SKELETON: velocityX = 80; break; // Slower base speed
+        case EnemyType.CANNON_TURRET: velocityX = 0; break; // Stationary
+        case EnemyType.JELLYFISH: velocityX = 0; break; // Only moves vertically
+        case EnemyType.GHOST: velocityX = 60; break; // Slow, floaty
+      }
+
+      const newEnemy: Entity = {
+        id: `enemy_${entityId++}`,
+        type: EntityType.ENEMY,
+        enemyType: enemyType,
+        position: { x: enemy.x * SCALE, y: enemy.y * SCALE },
+        velocity: { x: velocityX, y: 0 },
+        width,
+        height,
+        active: true,
+        // Store spawn position for patrol bounds
+        spawnX: enemy.x * SCALE,
+        spawnY: enemy.y * SCALE,
+        patrolWidth: enemy.patrolWidth || 100,
+        patrolHeight: enemy.patrolHeight || 0,
+        patrolDirection: 1,
+        facingRight: !enemy.facingLeft,
+        // Type-specific properties
+        stateTimer: 0,
+        phase: 0,
+        isVisible: true, // For ghosts
+        isCharging: false, // For skeletons
+        fireRate: enemy.fireRate || 120,
+        lastFired: 0
+      };
+
+      entities.push(newEnemy);
+    }
+  }
+
+  // Spikes
+  if (level.spikes) {
+    for (const spike of level.spikes) {
+      entities.push({
+        id: `spike_${entityId++}`,
+        type: EntityType.SPIKE,
+        position: { x: spike.x * SCALE, y: spike.y * SCALE },
+        width: spike.w,
+        height: 20,
+        active: true
+      });
+    }
+  }
+
+  // Sword Chest (power-up like Mario ? block)
+  if (level.swordChest) {
+    entities.push({
+      id: `sword_chest_${entityId++}`,
+      type: EntityType.SWORD_CHEST,
+      position: { x: level.swordChest.x * SCALE, y: level.swordChest.y * SCALE },
+      width: 32,
+      height: 32,
+      active: true,
+      collected: false
+    });
+  }
+
+  // Rum bottles (heal one heart)
+  if (level.rum) {
+    for (const pos of level.rum) {
+      entities.push({
+        id: `rum_${entityId++}`,
+        type: EntityType.RUM,
+        position: { x: pos.x * SCALE, y: pos.y * SCALE },
+        width: 16,
+        height: 28,
+        active: true,
+        collected: false
+      });
+    }
+  }
+
+  // Coconuts (size-up)
+  if (level.coconuts) {
+    for (const pos of level.coconuts) {
+      entities.push({
+        id: `coconut_${entityId++}`,
+        type: EntityType.COCONUT,
+        position: { x: pos.x * SCALE, y: pos.y * SCALE },
+        width: 24,
+        height: 24,
+        active: true,
+        collected: false
+      });
+    }
+  }
+
+  // Checkpoint flag poles
+  if (level.checkpoints) {
+    for (const checkpoint of level.checkpoints) {
+      entities.push({
+        id: `checkpoint_${entityId++}`,
+        type: EntityType.CHECKPOINT,
+        position: { x: checkpoint.x * SCALE, y: checkpoint.y * SCALE },
+        width: 24,
+        height: 64,
+        active: true,
+        collected: false // Raised once touched
+      });
+    }
+  }
+
+  return entities;
+}
@@ -1,4 +1,10 @@
-import { LevelData, EnemyType } from '../types';
+import { LevelData, LevelPack, EnemyType } from '../types';
+
+// Progress is kept by level id, so every kind of level has its own: the campaign uses
+// 1-99, level packs start at FIRST_PACK_LEVEL_ID, and the editor and voyages have one each
+export const FIRST_PACK_LEVEL_ID = 100;
+export const EDITOR_LEVEL_ID = 1000;
+export const VOYAGE_LEVEL_ID = 2000;
 
 export const CAMPAIGN_LEVELS: LevelData[] = [
   {
@@ -245,6 +251,15 @@ export const CAMPAIGN_LEVELS: LevelData[] = [
     requiredDoubloons: 0,
     // Sword chest - floating above the debris section, jump up from platform at y:420
     swordChest: { x: 1210, y: 340 },
+    // Checkpoint flags - before the first spikes, the spike gauntlet and the final run
+    // Power-ups - a coconut past the first crab, rum before the long second half
+    coconuts: [{ x: 1000, y: 476 }],
+    rum: [{ x: 2970, y: 472 }],
+    checkpoints: [
+      { x: 1510, y: 436 },
+      { x: 3710, y: 436 },
+      { x: 5310, y: 436 },
+    ],
   },
   {
     id: 2,
@@ -299,6 +314,9 @@ export const CAMPAIGN_LEVELS: LevelData[] = [
     requiredDoubloons: 2,
     // Sword chest - above the middle section, jump from platform at y:300
     swordChest: { x: 580, y: 140 },
+    // Checkpoint flag - past the second crab, before the last spike pit
+    checkpoints: [{ x: 960, y: 436 }],
+    coconuts: [{ x: 230, y: 476 }],
   },
   {
     id: 3,
@@ -377,6 +395,9 @@ export const CAMPAIGN_LEVELS: LevelData[] = [
     requiredDoubloons: 5,
     // Sword chest - mid-level on the ship, jump from platform at y:400
     swordChest: { x: 730, y: 320 },
+    // Checkpoint flag - far end of the main deck
+    checkpoints: [{ x: 1450, y: 536 }],
+    rum: [{ x: 1400, y: 572 }],
     // Moving platforms - swinging ship cargo
     movingPlatforms: [
       // Horizontal cargo platform bridging gap between deck sections
@@ -490,6 +511,10 @@ export const CAMPAIGN_LEVELS: LevelData[] = [
     requiredDoubloons: 10,
     // Sword chest - in the mid section, jump from platform at y:420
     swordChest: { x: 980, y: 340 },
+    // Checkpoint flag - halfway up the climb
+    checkpoints: [{ x: 1160, y: 336 }],
+    coconuts: [{ x: 250, y: 676 }],
+    rum: [{ x: 1700, y: 372 }],
     // Moving platforms - ancient mechanisms in the lair
     movingPlatforms: [
       // Horizontal platform over spike pit
@@ -502,15 +527,44 @@ export const CAMPAIGN_LEVELS: LevelData[] = [
   },
 ];
 
+// Campaigns loaded from level packs at runtime, sailed after the built-in one
+const levelPacks: LevelPack[] = [];
+
+/**
+ * Add a level pack as an extra campaign, replacing any earlier copy of the same pack.
+ */
+export function addLevelPack(pack: LevelPack) {
+  removeLevelPack(pack.id);
+  levelPacks.push(pack);
+}
+
+export function removeLevelPack(packId: string) {
+  const index = levelPacks.findIndex(pack => pack.id === packId);
+  if (index >= 0) levelPacks.splice(index, 1);
+}
+
+export function getLevelPacks(): LevelPack[] {
+  return levelPacks;
+}
+
+/**
+ * The pack a level came from, or null for the built-in campaign (and unknown levels).
+ */
+export function getLevelPackOf(levelId: number): LevelPack | null {
+  return levelPacks.find(pack => pack.levels.some(level => level.id === levelId)) ?? null;
+}
+
 export function getLevelById(id: number): LevelData | undefined {
-  return CAMPAIGN_LEVELS.find(level => level.id === id);
+  return CAMPAIGN_LEVELS.find(level => level.id === id)
+    ?? getLevelPackOf(id)?.levels.find(level => level.id === id);
 }
 
+// The next level in the same campaign - finishing a pack doesn't lead back into the built-in one
 export function getNextLevel(currentId: number): LevelData | undefined {
-  const currentIndex = CAMPAIGN_LEVELS.findIndex(level => level.id === currentId);
-  if (currentIndex >= 0 && currentIndex < CAMPAIGN_LEVELS.length - 1) {
-    return CAMPAIGN_LEVELS[currentIndex + 1];
+  const levels = getLevelPackOf(currentId)?.levels ?? CAMPAIGN_LEVELS;
+  const currentIndex = levels.findIndex(level => level.id === currentId);
+  if (currentIndex >= 0 && currentIndex < levels.length - 1) {
+    return levels[currentIndex + 1];
   }
   return undefined;
 }
-
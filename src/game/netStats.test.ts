@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { PingTracker, NetworkSimulator, parseSimulatedNetwork } from './netStats';
+
+describe('simulated network', () => {
+  it('reads conditions from the URL', () => {
+    expect(parseSimulatedNetwork('?room=abc')).toBeNull();
+    expect(parseSimulatedNetwork('?latency=120&loss=5')).toEqual({ latency: 120, jitter: 0, loss: 0.05 });
+    expect(parseSimulatedNetwork('?loss=250&jitter=-3')).toEqual({ latency: 0, jitter: 0, loss: 1 });
+  });
+
+  it('delays messages in order and only drops droppable ones', () => {
+    const rolls = [0.9, 0.0, 0.0, 0.0, 0.5, 0.1];
+    const delivered: { id: number; at: number }[] = [];
+    const sim = new NetworkSimulator(
+      { latency: 100, jitter: 50, loss: 0.2 },
+      () => rolls.shift()!,
+      (fn, delay) => { fn(); delivered[delivered.length - 1].at = delay; }
+    );
+    const send = (id: number, now: number, droppable: boolean) =>
+      sim.deliver(now, droppable, () => delivered.push({ id, at: 0 }));
+
+    send(1, 0, true);   // kept (0.9), jitter 0
+    send(2, 0, true);   // dropped (0.0)
+    send(3, 0, false);  // never dropped, jitter 0
+    send(4, 10, true);  // kept (0.5), jitter 0.1 * 50
+
+    expect(delivered.map(d => d.id)).toEqual([1, 3, 4]);
+    expect(delivered.map(d => d.at)).toEqual([100, 100, 105]);
+  });
+});
+
+describe('ping tracker', () => {
+  it('averages round trips and their jitter', () => {
+    const pings = new PingTracker();
+    expect(pings.getRtt()).toBeNull();
+
+    pings.receive(pings.send(0), 100);
+    expect(pings.getJitter()).toBeNull();
+    pings.receive(pings.send(1000), 1140);
+    pings.receive(pings.send(2000), 2120);
+    pings.receive(99, 3000); // unknown pong
+
+    expect(pings.getRtt()).toBe(120);
+    expect(pings.getJitter()).toBe(30);
+  });
+});
@@ -0,0 +1,117 @@
+const RTT_SAMPLES = 10; // pings averaged for the round-trip time and jitter
+const MAX_OUTSTANDING_PINGS = 10; // pings we still wait on - older ones count as lost
+
+/**
+ * Artificial network conditions for testing co-op locally. All times in milliseconds;
+ * loss is the fraction (0-1) of inputs and snapshots dropped.
+ */
+export interface SimulatedNetwork {
+  latency: number;
+  jitter: number;
+  loss: number;
+}
+
+/**
+ * Read simulated conditions from the page URL, e.g. `?latency=120&jitter=30&loss=5`
+ * (loss in percent). Returns null when none are asked for.
+ */
+export function parseSimulatedNetwork(search: string): SimulatedNetwork | null {
+  const params = new URLSearchParams(search);
+  if (!params.has('latency') && !params.has('jitter') && !params.has('loss')) return null;
+
+  const read = (name: string, max: number) => Math.min(max, Math.max(0, Number(params.get(name)) || 0));
+  return {
+    latency: read('latency', 5000),
+    jitter: read('jitter', 5000),
+    loss: read('loss', 100) / 100
+  };
+}
+
+/**
+ * Delays (and optionally drops) messages in one direction. Delivery stays in order, like
+ * the WebSocket underneath would; only messages we can afford to lose are ever dropped.
+ */
+export class NetworkSimulator {
+  private lastDelivery = 0;
+
+  constructor(
+    private conditions: SimulatedNetwork,
+    private random: () => number = Math.random,
+    private schedule: (fn: () => void, delay: number) => void = (fn, delay) => setTimeout(fn, delay)
+  ) {}
+
+  public getConditions(): SimulatedNetwork {
+    return this.conditions;
+  }
+
+  public deliver(now: number, droppable: boolean, fn: () => void) {
+    const { latency, jitter, loss } = this.conditions;
+    if (droppable && this.random() < loss) return;
+
+    const at = Math.max(this.lastDelivery, now + latency + this.random() * jitter);
+    this.lastDelivery = at;
+    this.schedule(fn, at - now);
+  }
+}
+
+/**
+ * Round-trip time from ping/pong pairs, and jitter as the average change between
+ * consecutive round trips.
+ */
+export class PingTracker {
+  private nextId = 0;
+  private outstanding: Map<number, number> = new Map();
+  private samples: number[] = [];
+
+  /**
+   * Note a ping going out; returns the id the pong will echo.
+   */
+  public send(now: number): number {
+    const id = this.nextId++;
+    this.outstanding.set(id, now);
+    for (const oldId of this.outstanding.keys()) {
+      if (this.outstanding.size <= MAX_OUTSTANDING_PINGS) break;
+      this.outstanding.delete(oldId);
+    }
+    return id;
+  }
+
+  public receive(id: number, now: number) {
+    const sentAt = this.outstanding.get(id);
+    if (sentAt === undefined) return;
+    this.outstanding.delete(id);
+
+    this.samples.push(now - sentAt);
+    if (this.samples.length > RTT_SAMPLES) this.samples.shift();
+  }
+
+  public getRtt(): number | null {
+    if (this.samples.length === 0) return null;
+    return this.samples.reduce((sum, rtt) => sum + rtt, 0) / this.samples.length;
+  }
+
+  public getJitter(): number | null {
+    if (this.samples.length < 2) return null;
+    let total = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      total += Math.abs(this.samples[i] - this.samples[i - 1]);
+    }
+    return total / (this.samples.length - 1);
+  }
+}
+
+/**
+ * Everything the network overlay shows.
+ */
+export interface NetworkOverlayStats {
+  rtt: number | null;
+  jitter: number | null;
+  // Frames ahead of the server our inputs arrive (the frame advantage)
+  inputLead: number;
+  // The same for everyone else - negative means their inputs arrive late
+  remoteInputLeads: { playerId: string; lead: number }[];
+  // Snapshots that overruled our prediction
+  corrections: number;
+  desyncFrame: number | null;
+  simulated: SimulatedNetwork | null;
+}
@@ -1,34 +1,72 @@
 import SAT from 'sat';
-import { GameState, PlayerState, Input, EntityType, EnemyType, LevelData, MovingPlatform } from '../types';
-import { getSoundManager, SoundEffect } from '../sound';
+import { GameState, PlayerState, Input, EntityType, EnemyType, LevelData, MovingPlatform, Entity, GameEvent, GameEventType } from '../types';
+import { FIXED_ONE, fixedMul, fixedSin, radiansToAngle } from './determinism';
+import { MAX_HEALTH, setPlayerSize } from './levelState';
+import { updateEnemies } from './enemies';
+import { isRaceStarted, isRaceOver, getRaceWinner } from './race';
+import { buildTileBodies } from './tiles';
 
 // Constants for integer-based physics (x100)
-const SCALE = 100;
-const GRAVITY = 50; // pixels per frame^2 (scaled)
-const JUMP_VELOCITY = -1100; // initial jump velocity (scaled)
-const MOVE_SPEED = 400; // max horizontal speed (scaled)
-const MOVE_ACCEL = 80; // horizontal acceleration (scaled)
-const FRICTION = 0.85;
-const AIR_FRICTION = 0.95;
-const MAX_FALL_SPEED = 1200;
+export const SCALE = 100;
+export const GRAVITY = 50; // pixels per frame^2 (scaled)
+export const JUMP_VELOCITY = -1100; // initial jump velocity (scaled)
+export const MOVE_SPEED = 400; // max horizontal speed (scaled)
+export const MOVE_ACCEL = 80; // horizontal acceleration (scaled)
+export const FRICTION = 870; // ~0.85 (fixed-point, 1/1024ths)
+export const AIR_FRICTION = 973; // ~0.95 (fixed-point, 1/1024ths)
+export const MAX_FALL_SPEED = 1200;
 const ATTACK_DURATION = 25; // frames the attack animation lasts
 const ATTACK_COOLDOWN = 20; // frames before can attack again
 const ATTACK_RANGE = 50; // pixels in front of player (sword reach)
 const COYOTE_FRAMES = 6; // frames after leaving ground where jump is still allowed
 const WALL_SLIDE_SPEED = 300; // max fall speed when wall sliding (scaled)
-const WALL_JUMP_VELOCITY_X = 600; // horizontal kick from wall jump (scaled)
-const WALL_JUMP_VELOCITY_Y = -1000; // vertical jump from wall (scaled)
-const DASH_SPEED = 1200; // horizontal dash speed (scaled)
-const DASH_DURATION = 8; // frames the dash lasts
+export const WALL_JUMP_VELOCITY_X = 600; // horizontal kick from wall jump (scaled)
+export const WALL_JUMP_VELOCITY_Y = -1000; // vertical jump from wall (scaled)
+export const DASH_SPEED = 1200; // horizontal dash speed (scaled)
+export const DASH_DURATION = 8; // frames the dash lasts
 const DASH_COOLDOWN = 45; // frames before can dash again
+export const DASH_END_DAMPING = 512; // 0.5 - velocity kept when a dash ends (fixed-point)
+const STOMP_BOUNCE = 614; // ~0.6 of JUMP_VELOCITY after stomping an enemy (fixed-point)
+const CHEST_BOUNCE = 307; // ~0.3 of upward speed reflected off the sword chest (fixed-point)
+const INVULNERABLE_FRAMES = 90; // frames of invulnerability after taking damage
+const HITSTUN_FRAMES = 12; // frames at the start of invulnerability where movement input is ignored
+const KNOCKBACK_VELOCITY_X = 400; // horizontal push away from the damage source (scaled, full run speed)
+const KNOCKBACK_VELOCITY_Y = -700; // upward pop when hit (scaled)
+const COCONUT_GROWTH = 256; // size gained per coconut (fixed-point, a quarter)
+const MAX_SIZE = 2048; // largest sizeModifier coconuts can reach (fixed-point, double)
+const SLOPE_FLOOR_NORMAL = 0.5; // contacts this upright count as standing on a slope (45° is ~0.71)
+
+export interface MovingPlatformBody {
+  def: MovingPlatform;
+  box: SAT.Box;
+  prevX: number;
+  prevY: number;
+  angleStep: number; // speed converted to integer angle units per frame
+  angleOffset: number; // phase converted to integer angle units
+}
+
+// Internal engine state that must be saved alongside GameState for rollback
+export interface PhysicsSnapshot {
+  frameCount: number;
+  movingPlatforms: { x: number; y: number; prevX: number; prevY: number }[];
+}
 
 export class PhysicsEngine {
   private obstacles: SAT.Box[];
+  // From the level's tile layer
+  private tileSolids: SAT.Box[] = [];
+  private slopes: SAT.Polygon[] = [];
+  private oneWayPlatforms: SAT.Box[] = [];
+  // Polygons of the static shapes above, rebuilt when they change rather than every frame
+  private solidPolygons: SAT.Polygon[] = [];
+  private slopeSurfaces: SAT.Polygon[] = [];
+  private levelLeft: number = 0; // everything left of here has been dropped (streamed levels)
   private levelWidth: number = 800;
   private levelHeight: number = 600;
   private currentLevel: LevelData | null = null;
-  private movingPlatforms: { def: MovingPlatform; box: SAT.Box; prevX: number; prevY: number }[] = [];
+  private movingPlatforms: MovingPlatformBody[] = [];
   private frameCount: number = 0;
+  private events: GameEvent[] = [];
 
   constructor() {
     this.obstacles = [];
@@ -36,12 +74,58 @@ export class PhysicsEngine {
 
   public loadLevel(level: LevelData) {
     this.obstacles = [];
+    this.tileSolids = [];
+    this.slopes = [];
+    this.oneWayPlatforms = [];
     this.movingPlatforms = [];
     this.frameCount = 0;
     this.currentLevel = level;
+    this.levelLeft = 0;
     this.levelWidth = level.width;
     this.levelHeight = level.height;
+    this.addPlatforms(level);
+
+    if (level.tiles) {
+      const bodies = buildTileBodies(level.tiles);
+      const toBox = (r: { x: number; y: number; w: number; h: number }) =>
+        new SAT.Box(new SAT.Vector(r.x * SCALE, r.y * SCALE), r.w * SCALE, r.h * SCALE);
+      this.tileSolids = bodies.solids.map(toBox);
+      this.oneWayPlatforms = bodies.oneWays.map(toBox);
+      this.slopes = bodies.slopes.map(corners => new SAT.Polygon(
+        new SAT.Vector(),
+        corners.map(c => new SAT.Vector(c.x * SCALE, c.y * SCALE))
+      ));
+    }
+    this.cacheSolidPolygons();
+  }
+
+  /**
+   * Extend the loaded level with a chunk generated past its right edge, e.g. by the
+   * endless voyage. The chunk is in world coordinates and ends at its `width`.
+   */
+  public appendChunk(chunk: LevelData) {
+    this.addPlatforms(chunk);
+    this.cacheSolidPolygons();
+    this.levelWidth = Math.max(this.levelWidth, chunk.width);
+    if (this.currentLevel) {
+      this.currentLevel = { ...this.currentLevel, width: this.levelWidth };
+    }
+  }
+
+  /**
+   * Forget platforms entirely left of `x` (in pixels) and stop players going back past it.
+   */
+  public dropChunksBefore(x: number) {
+    const left = x * SCALE;
+    this.obstacles = this.obstacles.filter(box => box.pos.x + box.w > left);
+    this.cacheSolidPolygons();
+    this.movingPlatforms = this.movingPlatforms.filter(mp =>
+      (mp.def.x + mp.def.w + Math.abs(mp.def.moveX || 0)) * SCALE > left
+    );
+    this.levelLeft = Math.max(this.levelLeft, x);
+  }
 
+  private addPlatforms(level: LevelData) {
     for (const platform of level.platforms) {
       this.obstacles.push(
         new SAT.Box(
@@ -52,7 +136,6 @@ export class PhysicsEngine {
       );
     }
 
-    // Load moving platforms
     if (level.movingPlatforms) {
       for (const mp of level.movingPlatforms) {
         const box = new SAT.Box(
@@ -60,25 +143,48 @@ export class PhysicsEngine {
           mp.w * SCALE,
           mp.h * SCALE
         );
-        this.movingPlatforms.push({ def: mp, box, prevX: mp.x * SCALE, prevY: mp.y * SCALE });
+        this.movingPlatforms.push({
+          def: mp,
+          box,
+          prevX: mp.x * SCALE,
+          prevY: mp.y * SCALE,
+          angleStep: radiansToAngle(mp.speed),
+          angleOffset: radiansToAngle(mp.phase || 0)
+        });
       }
     }
   }
 
   public createDefaultMap() {
     this.obstacles = [];
+    this.tileSolids = [];
+    this.slopes = [];
+    this.oneWayPlatforms = [];
+    this.levelLeft = 0;
     this.levelWidth = 800;
     this.levelHeight = 600;
     
     this.obstacles.push(new SAT.Box(new SAT.Vector(0, 500 * SCALE), 800 * SCALE, 100 * SCALE));
     this.obstacles.push(new SAT.Box(new SAT.Vector(200 * SCALE, 400 * SCALE), 200 * SCALE, 20 * SCALE));
     this.obstacles.push(new SAT.Box(new SAT.Vector(500 * SCALE, 300 * SCALE), 200 * SCALE, 20 * SCALE));
+    this.cacheSolidPolygons();
+  }
+
+  // Solids are checked platforms first, then tiles; slopes snap onto slopes and tile ground
+  private cacheSolidPolygons() {
+    const tilePolygons = this.tileSolids.map(solid => solid.toPolygon());
+    this.solidPolygons = [...this.obstacles.map(box => box.toPolygon()), ...tilePolygons];
+    this.slopeSurfaces = [...this.slopes, ...tilePolygons];
   }
 
   public getObstacles(): SAT.Box[] {
     return this.obstacles;
   }
 
+  public getLevelLeft(): number {
+    return this.levelLeft;
+  }
+
   public getLevelWidth(): number {
     return this.levelWidth;
   }
@@ -87,25 +193,235 @@ export class PhysicsEngine {
     return this.levelHeight;
   }
 
+  public getRequiredDoubloons(): number {
+    return this.currentLevel?.requiredDoubloons || 0;
+  }
+
+  // Doubloons count towards the lock for the whole crew, not per player
+  public getCrewDoubloons(state: GameState): number {
+    let total = 0;
+    state.players.forEach(p => total += p.doubloons);
+    return total;
+  }
+
+  // What a player has towards the lock: the crew's doubloons, or a racer's own
+  public getGoalDoubloons(state: GameState, player: PlayerState): number {
+    return state.race ? player.doubloons : this.getCrewDoubloons(state);
+  }
+
   public getCurrentLevel(): LevelData | null {
     return this.currentLevel;
   }
 
-  public getMovingPlatforms(): { def: MovingPlatform; box: SAT.Box; prevX: number; prevY: number }[] {
+  public getMovingPlatforms(): MovingPlatformBody[] {
     return this.movingPlatforms;
   }
 
-  public step(state: GameState, inputs: Map<string, Input>): void {
+  public saveSnapshot(): PhysicsSnapshot {
+    return {
+      frameCount: this.frameCount,
+      movingPlatforms: this.movingPlatforms.map(mp => ({
+        x: mp.box.pos.x,
+        y: mp.box.pos.y,
+        prevX: mp.prevX,
+        prevY: mp.prevY
+      }))
+    };
+  }
+
+  public restoreSnapshot(snapshot: PhysicsSnapshot) {
+    this.frameCount = snapshot.frameCount;
+    snapshot.movingPlatforms.forEach((saved, i) => {
+      const mp = this.movingPlatforms[i];
+      if (!mp) return;
+      mp.box.pos.x = saved.x;
+      mp.box.pos.y = saved.y;
+      mp.prevX = saved.prevX;
+      mp.prevY = saved.prevY;
+    });
+  }
+
+  /**
+   * Advance the simulation one frame. Returns the events that happened during the
+   * step; the engine has no other side effects, so frames can be re-simulated freely.
+   */
+  public step(state: GameState, inputs: Map<string, Input>): GameEvent[] {
     this.frameCount++;
+    // Enemies move first, so players react to where they are this frame
+    this.events = updateEnemies(state, this.currentLevel);
     this.updateMovingPlatforms();
 
+    // Racers stand on the start line until the countdown is over
+    const started = isRaceStarted(state);
     state.players.forEach((player) => {
-      const input = inputs.get(player.id) || { frame: 0, left: false, right: false, jump: false, action: false, dash: false };
+      const input = (started && inputs.get(player.id)) || { frame: 0, left: false, right: false, jump: false, action: false, dash: false, down: false };
       this.updatePlayer(player, input, state);
     });
 
-    this.updateEntities(state);
     this.checkEntityCollisions(state);
+
+    if (state.race && !state.levelComplete && isRaceOver(state)) {
+      state.levelComplete = true;
+      const winner = state.players.get(getRaceWinner(state) ?? '');
+      if (winner) this.emit(GameEventType.LEVEL_COMPLETE, state, winner);
+    }
+
+    return this.events;
+  }
+
+  private emit(type: GameEventType, state: GameState, player: PlayerState, entity?: Entity) {
+    const position = entity
+      ? { x: entity.position.x / SCALE + entity.width / 2, y: entity.position.y / SCALE + entity.height / 2 }
+      : { x: player.position.x / SCALE + player.width / 2, y: player.position.y / SCALE + player.height / 2 };
+
+    this.events.push({
+      type,
+      frame: state.frame,
+      position,
+      playerId: player.id,
+      entityId: entity?.id,
+      enemyType: entity?.enemyType
+    });
+  }
+
+  /**
+   * Take one point of health (or the coconut size-up) from a player touching a hazard,
+   * unless they're still invulnerable from the last hit. Knocks them away from the
+   * source; the level only fails once health runs out.
+   */
+  private damagePlayer(state: GameState, player: PlayerState, source: Entity) {
+    if (player.invulnerableTimer > 0) return;
+
+    // A sized-up player shrinks back to normal instead of losing a heart
+    if (player.sizeModifier > FIXED_ONE) {
+      setPlayerSize(player, FIXED_ONE);
+    } else {
+      player.health--;
+    }
+    this.emit(GameEventType.PLAYER_HIT, state, player);
+
+    if (player.health <= 0) {
+      player.health = 0;
+      this.killPlayer(state, player);
+      return;
+    }
+
+    player.invulnerableTimer = INVULNERABLE_FRAMES;
+
+    // Push away from the source's center
+    const playerCenter = player.position.x + (player.width * SCALE) / 2;
+    const sourceCenter = source.position.x + (source.width * SCALE) / 2;
+    const direction = playerCenter < sourceCenter ? -1 : 1;
+    player.velocity.x = direction * KNOCKBACK_VELOCITY_X;
+    player.velocity.y = KNOCKBACK_VELOCITY_Y;
+    player.isDashing = false;
+    player.dashTimer = 0;
+  }
+
+  /**
+   * Out of health or fell out of the world: back to the last checkpoint with full
+   * health, or fail the level if none has been raised.
+   */
+  private killPlayer(state: GameState, player: PlayerState) {
+    if (state.race) {
+      this.respawnRacer(state, player);
+      return;
+    }
+
+    const checkpoint = state.checkpoint;
+    if (!checkpoint) {
+      state.levelFailed = true;
+      return;
+    }
+
+    // Respawn is where the feet go, so any character size stands on the same spot
+    setPlayerSize(player, FIXED_ONE);
+    player.position.x = checkpoint.respawn.x - (player.width * SCALE) / 2;
+    player.position.y = checkpoint.respawn.y - player.height * SCALE;
+    player.velocity.x = 0;
+    player.velocity.y = 0;
+    player.health = MAX_HEALTH;
+    player.invulnerableTimer = INVULNERABLE_FRAMES;
+    player.isDashing = false;
+    player.dashTimer = 0;
+    player.wallSliding = false;
+
+    // Doubloons this player picked up since the checkpoint go back into the level.
+    // The rest of the crew keep theirs, so nobody can collect the same one twice
+    let restored = 0;
+    for (const entity of state.entities) {
+      if (entity.type === EntityType.DOUBLOON && entity.collected && entity.collectedBy === player.id &&
+          !checkpoint.collectedDoubloons.includes(entity.id)) {
+        entity.collected = false;
+        entity.active = true;
+        delete entity.collectedBy;
+        restored++;
+      }
+    }
+    player.doubloons = checkpoint.doubloons[player.id] ?? player.doubloons - restored;
+
+    this.emit(GameEventType.PLAYER_RESPAWNED, state, player);
+  }
+
+  // A race never fails - a fallen racer goes back to their own last checkpoint (or the start)
+  private respawnRacer(state: GameState, player: PlayerState) {
+    const respawn = state.race!.respawns[player.id]
+      ?? (this.currentLevel ? { x: this.currentLevel.spawnPoint.x + player.width / 2, y: this.currentLevel.spawnPoint.y + player.height } : { x: 100, y: 100 });
+
+    setPlayerSize(player, FIXED_ONE);
+    player.position.x = respawn.x * SCALE - (player.width * SCALE) / 2;
+    player.position.y = respawn.y * SCALE - player.height * SCALE;
+    player.velocity.x = 0;
+    player.velocity.y = 0;
+    player.health = MAX_HEALTH;
+    player.invulnerableTimer = INVULNERABLE_FRAMES;
+    player.isDashing = false;
+    player.dashTimer = 0;
+    player.wallSliding = false;
+
+    this.emit(GameEventType.PLAYER_RESPAWNED, state, player);
+  }
+
+  /**
+   * Pick up a doubloon, rum or coconut. In a race every racer has their own copy of
+   * each pickup, so nobody can take one from a rival; otherwise the first to touch it
+   * takes it. Returns false if this player can't have it.
+   */
+  private takePickup(state: GameState, player: PlayerState, entity: Entity): boolean {
+    if (state.race) {
+      const takenBy = entity.takenBy || (entity.takenBy = []);
+      if (takenBy.includes(player.id)) return false;
+      takenBy.push(player.id);
+      return true;
+    }
+
+    if (entity.collected) return false;
+    entity.collected = true;
+    entity.active = false;
+    return true;
+  }
+
+  private raiseCheckpoint(state: GameState, player: PlayerState, flag: Entity) {
+    flag.collected = true;
+
+    const doubloons: { [playerId: string]: number } = {};
+    state.players.forEach((p, id) => {
+      doubloons[id] = p.doubloons;
+    });
+
+    state.checkpoint = {
+      entityId: flag.id,
+      respawn: {
+        x: flag.position.x + (flag.width * SCALE) / 2,
+        y: flag.position.y + flag.height * SCALE
+      },
+      doubloons,
+      collectedDoubloons: state.entities
+        .filter(e => e.type === EntityType.DOUBLOON && e.collected)
+        .map(e => e.id)
+    };
+
+    this.emit(GameEventType.CHECKPOINT_REACHED, state, player, flag);
   }
 
   private updateMovingPlatforms() {
@@ -113,9 +429,9 @@ export class PhysicsEngine {
       mp.prevX = mp.box.pos.x;
       mp.prevY = mp.box.pos.y;
 
-      const t = this.frameCount * mp.def.speed + (mp.def.phase || 0);
-      const newX = (mp.def.x + (mp.def.moveX || 0) * Math.sin(t)) * SCALE;
-      const newY = (mp.def.y + (mp.def.moveY || 0) * Math.sin(t)) * SCALE;
+      const sin = fixedSin(this.frameCount * mp.angleStep + mp.angleOffset);
+      const newX = mp.def.x * SCALE + fixedMul((mp.def.moveX || 0) * SCALE, sin);
+      const newY = mp.def.y * SCALE + fixedMul((mp.def.moveY || 0) * SCALE, sin);
 
       mp.box.pos.x = newX;
       mp.box.pos.y = newY;
@@ -132,7 +448,7 @@ export class PhysicsEngine {
       player.isAttacking = true;
       player.attackFrame = ATTACK_DURATION;
       player.attackCooldown = ATTACK_COOLDOWN;
-      getSoundManager().playSound(SoundEffect.ATTACK);
+      this.emit(GameEventType.ATTACK, state, player);
     }
 
     if (player.isAttacking) {
@@ -143,6 +459,12 @@ export class PhysicsEngine {
       }
     }
 
+    // === DAMAGE RECOVERY ===
+    if (player.invulnerableTimer > 0) {
+      player.invulnerableTimer--;
+    }
+    const inHitstun = player.invulnerableTimer > INVULNERABLE_FRAMES - HITSTUN_FRAMES;
+
     // === DASH HANDLING ===
     if (player.dashCooldown > 0) {
       player.dashCooldown--;
@@ -162,17 +484,17 @@ export class PhysicsEngine {
         player.isDashing = false;
         player.dashTimer = 0;
         // Reduce velocity after dash ends
-        player.velocity.x *= 0.5;
+        player.velocity.x = fixedMul(player.velocity.x, DASH_END_DAMPING);
       }
     }
 
     // === HORIZONTAL MOVEMENT (skip during dash) ===
     if (!player.isDashing) {
-      if (input.left) {
+      if (input.left && !inHitstun) {
         player.velocity.x -= MOVE_ACCEL;
         player.facingRight = false;
       }
-      if (input.right) {
+      if (input.right && !inHitstun) {
         player.velocity.x += MOVE_ACCEL;
         player.facingRight = true;
       }
@@ -181,7 +503,7 @@ export class PhysicsEngine {
       player.velocity.x = Math.max(-MOVE_SPEED, Math.min(MOVE_SPEED, player.velocity.x));
 
       // Apply friction
-      player.velocity.x *= player.isGrounded ? FRICTION : AIR_FRICTION;
+      player.velocity.x = fixedMul(player.velocity.x, player.isGrounded ? FRICTION : AIR_FRICTION);
       if (Math.abs(player.velocity.x) < 10) player.velocity.x = 0;
     }
 
@@ -202,7 +524,7 @@ export class PhysicsEngine {
         player.jumpHeld = true;
         player.coyoteTimer = COYOTE_FRAMES; // Consume coyote time
         player.wallSliding = false;
-        getSoundManager().playSound(SoundEffect.JUMP);
+        this.emit(GameEventType.JUMP, state, player);
       } else if (player.wallSliding) {
         // Wall jump - kick away from wall
         player.velocity.y = WALL_JUMP_VELOCITY_Y;
@@ -211,7 +533,7 @@ export class PhysicsEngine {
         player.jumpHeld = true;
         player.wallSliding = false;
         player.wallDirection = 0;
-        getSoundManager().playSound(SoundEffect.JUMP);
+        this.emit(GameEventType.JUMP, state, player);
       }
     }
 
@@ -231,16 +553,18 @@ export class PhysicsEngine {
     }
 
     // === APPLY MOVEMENT ===
+    const previousBottom = player.position.y + player.height * SCALE;
     player.position.x += player.velocity.x;
     player.position.y += player.velocity.y;
 
     // === COLLISION DETECTION ===
+    const wasGrounded = player.isGrounded;
     player.isGrounded = false;
     player.wallSliding = false;
     player.wallDirection = 0;
 
     let touchingWallDir = 0;
-    let standingOnMovingPlatform: typeof this.movingPlatforms[0] | null = null;
+    let standingOnMovingPlatform: MovingPlatformBody | null = null;
 
     const playerPoly = new SAT.Box(
       new SAT.Vector(player.position.x, player.position.y),
@@ -248,27 +572,39 @@ export class PhysicsEngine {
       player.height * SCALE
     ).toPolygon();
 
-    // Check static obstacles
-    for (const obstacle of this.obstacles) {
+    // Check static obstacles, then the tile layer's solid tiles
+    for (const solid of this.solidPolygons) {
+      touchingWallDir = this.collideSolid(player, playerPoly, solid) || touchingWallDir;
+    }
+
+    // Slopes hold the player up like ground, but lift them straight up onto the surface -
+    // pushing out along the slant would slide them downhill while standing still
+    for (const slope of this.slopes) {
       const response = new SAT.Response();
-      const obstaclePoly = obstacle.toPolygon();
+      if (!SAT.testPolygonPolygon(playerPoly, slope, response)) continue;
 
-      if (SAT.testPolygonPolygon(playerPoly, obstaclePoly, response)) {
-        player.position.x -= response.overlapV.x;
-        player.position.y -= response.overlapV.y;
-        playerPoly.pos.x = player.position.x;
+      if (response.overlapN.y > SLOPE_FLOOR_NORMAL) {
+        player.position.y -= Math.round(response.overlap / response.overlapN.y);
         playerPoly.pos.y = player.position.y;
+        player.isGrounded = true;
+        player.velocity.y = 0;
+      } else {
+        touchingWallDir = this.resolveContact(player, playerPoly, response) || touchingWallDir;
+      }
+    }
 
-        if (response.overlapN.y > 0.7) {
+    // One-way planks only catch a player coming down onto them from above; holding
+    // down lets them drop through
+    if (!input.down && player.velocity.y >= 0) {
+      const bottom = player.position.y + player.height * SCALE;
+      for (const plank of this.oneWayPlatforms) {
+        const top = plank.pos.y;
+        const overlapsX = player.position.x < plank.pos.x + plank.w && player.position.x + player.width * SCALE > plank.pos.x;
+        if (overlapsX && previousBottom <= top && bottom >= top) {
+          player.position.y = top - player.height * SCALE;
+          playerPoly.pos.y = player.position.y;
           player.isGrounded = true;
           player.velocity.y = 0;
-        } else if (response.overlapN.y < -0.7) {
-          player.velocity.y = Math.max(0, player.velocity.y);
-        }
-
-        if (Math.abs(response.overlapN.x) > 0.7) {
-          touchingWallDir = response.overlapN.x > 0 ? 1 : -1;
-          player.velocity.x = 0;
         }
       }
     }
@@ -279,8 +615,8 @@ export class PhysicsEngine {
       const obstaclePoly = mp.box.toPolygon();
 
       if (SAT.testPolygonPolygon(playerPoly, obstaclePoly, response)) {
-        player.position.x -= response.overlapV.x;
-        player.position.y -= response.overlapV.y;
+        player.position.x -= Math.round(response.overlapV.x);
+        player.position.y -= Math.round(response.overlapV.y);
         playerPoly.pos.x = player.position.x;
         playerPoly.pos.y = player.position.y;
 
@@ -307,6 +643,11 @@ export class PhysicsEngine {
       player.position.y += deltaY;
     }
 
+    // Walking downhill: keep to the slope rather than skipping off it every frame
+    if (wasGrounded && !player.isGrounded && player.velocity.y >= 0 && this.slopes.length > 0) {
+      this.snapToSlope(player, playerPoly);
+    }
+
     // === WALL SLIDE DETECTION ===
     // Wall slide if: touching wall, not grounded, falling, and holding toward wall
     if (touchingWallDir !== 0 && !player.isGrounded && player.velocity.y > 0 && !player.isDashing) {
@@ -318,8 +659,8 @@ export class PhysicsEngine {
     }
 
     // === WORLD BOUNDARIES ===
-    if (player.position.x < 0) {
-      player.position.x = 0;
+    if (player.position.x < this.levelLeft * SCALE) {
+      player.position.x = this.levelLeft * SCALE;
       player.velocity.x = 0;
     }
     if (player.position.x > (this.levelWidth - player.width) * SCALE) {
@@ -329,18 +670,65 @@ export class PhysicsEngine {
 
     // Fall off bottom = death
     if (player.position.y > this.levelHeight * SCALE) {
-      state.levelFailed = true;
+      this.killPlayer(state, player);
     }
   }
 
-  private updateEntities(state: GameState) {
-    for (const entity of state.entities) {
-      if (!entity.active) continue;
+  /**
+   * Push the player out of a solid shape. Returns the side a wall is on (1 right,
+   * -1 left) or 0 if the contact wasn't a wall.
+   */
+  private collideSolid(player: PlayerState, playerPoly: SAT.Polygon, solid: SAT.Polygon): number {
+    const response = new SAT.Response();
+    if (!SAT.testPolygonPolygon(playerPoly, solid, response)) return 0;
+    return this.resolveContact(player, playerPoly, response);
+  }
+
+  private resolveContact(player: PlayerState, playerPoly: SAT.Polygon, response: SAT.Response): number {
+    player.position.x -= Math.round(response.overlapV.x);
+    player.position.y -= Math.round(response.overlapV.y);
+    playerPoly.pos.x = player.position.x;
+    playerPoly.pos.y = player.position.y;
+
+    if (response.overlapN.y > 0.7) {
+      player.isGrounded = true;
+      player.velocity.y = 0;
+    } else if (response.overlapN.y < -0.7) {
+      player.velocity.y = Math.max(0, player.velocity.y);
+    }
+
+    if (Math.abs(response.overlapN.x) > 0.7) {
+      player.velocity.x = 0;
+      return response.overlapN.x > 0 ? 1 : -1;
+    }
+    return 0;
+  }
+
+  // Look a little way below a player who just left the ground for a slope, or the tile
+  // ground at its foot, to stand on. Going down a 45° slope drops as far as the player
+  // moves sideways. Rectangle platforms are left alone so older levels play as they did.
+  private snapToSlope(player: PlayerState, playerPoly: SAT.Polygon) {
+    const reach = Math.abs(player.velocity.x) + GRAVITY;
+    playerPoly.pos.y = player.position.y + reach;
+
+    let drop: number | null = null;
+    for (const surface of this.slopeSurfaces) {
+      const response = new SAT.Response();
+      if (!SAT.testPolygonPolygon(playerPoly, surface, response) || response.overlapN.y <= SLOPE_FLOOR_NORMAL) continue;
 
-      if (entity.type === EntityType.ENEMY && entity.velocity) {
-        entity.position.x += entity.velocity.x;
+      // The highest surface in reach is the one underfoot
+      const lift = Math.round(response.overlap / response.overlapN.y);
+      if (lift <= reach && (drop === null || reach - lift < drop)) {
+        drop = reach - lift;
       }
     }
+
+    if (drop !== null) {
+      player.position.y += drop;
+      player.isGrounded = true;
+      player.velocity.y = 0;
+    }
+    playerPoly.pos.y = player.position.y;
   }
 
   private checkEntityCollisions(state: GameState) {
@@ -378,7 +766,7 @@ export class PhysicsEngine {
           if (entity.enemyType === EnemyType.GHOST && !entity.isVisible) continue;
 
           const entityBox = new SAT.Box(
-            new SAT.Vector(entity.position.x * SCALE, entity.position.y * SCALE),
+            new SAT.Vector(entity.position.x, entity.position.y),
             entity.width * SCALE,
             entity.height * SCALE
           );
@@ -386,7 +774,7 @@ export class PhysicsEngine {
           if (SAT.testPolygonPolygon(swordBox.toPolygon(), entityBox.toPolygon())) {
             // Enemy defeated by sword!
             entity.active = false;
-            getSoundManager().playSound(SoundEffect.ENEMY_DEFEAT);
+            this.emit(GameEventType.ENEMY_DEFEATED, state, player, entity);
           }
         }
       }
@@ -395,8 +783,12 @@ export class PhysicsEngine {
       for (const entity of state.entities) {
         if (!entity.active) continue;
 
+        // A respawn mid-loop moves the player
+        playerBox.pos.x = player.position.x;
+        playerBox.pos.y = player.position.y;
+
         const entityBox = new SAT.Box(
-          new SAT.Vector(entity.position.x * SCALE, entity.position.y * SCALE),
+          new SAT.Vector(entity.position.x, entity.position.y),
           entity.width * SCALE,
           entity.height * SCALE
         );
@@ -404,18 +796,16 @@ export class PhysicsEngine {
         if (SAT.testPolygonPolygon(playerBox.toPolygon(), entityBox.toPolygon())) {
           switch (entity.type) {
             case EntityType.DOUBLOON:
-              if (!entity.collected) {
-                entity.collected = true;
-                entity.active = false;
+              if (this.takePickup(state, player, entity)) {
+                if (!state.race) entity.collectedBy = player.id;
                 player.doubloons++;
-                getSoundManager().playSound(SoundEffect.COLLECT_DOUBLOON);
+                this.emit(GameEventType.DOUBLOON_COLLECTED, state, player, entity);
               }
               break;
 
             case EntityType.SPIKE:
               if (!player.isDashing) {
-                state.levelFailed = true;
-                getSoundManager().playSound(SoundEffect.PLAYER_HIT);
+                this.damagePlayer(state, player, entity);
               }
               break;
 
@@ -434,8 +824,7 @@ export class PhysicsEngine {
                 }
                 // When visible, can only be killed with sword (not stomp)
                 if (!player.isAttacking) {
-                  state.levelFailed = true;
-                  getSoundManager().playSound(SoundEffect.PLAYER_HIT);
+                  this.damagePlayer(state, player, entity);
                 }
                 // Sword kills handled above in the sword attack section
                 break;
@@ -444,23 +833,21 @@ export class PhysicsEngine {
               // Cannon turrets can't be killed, just avoided
               if (enemyType === EnemyType.CANNON_TURRET) {
                 // Cannons are indestructible - touching hurts player
-                state.levelFailed = true;
-                getSoundManager().playSound(SoundEffect.PLAYER_HIT);
+                this.damagePlayer(state, player, entity);
                 break;
               }
 
               // Jellyfish - can be killed but hurt on any contact
               if (enemyType === EnemyType.JELLYFISH) {
-                if (player.isAttacking || (player.velocity.y > 0 && player.position.y < entity.position.y * SCALE)) {
+                if (player.isAttacking || (player.velocity.y > 0 && player.position.y < entity.position.y)) {
                   // Can stomp or sword jellyfish
                   entity.active = false;
-                  getSoundManager().playSound(SoundEffect.ENEMY_DEFEAT);
+                  this.emit(GameEventType.ENEMY_DEFEATED, state, player, entity);
                   if (player.velocity.y > 0) {
-                    player.velocity.y = JUMP_VELOCITY * 0.6;
+                    player.velocity.y = fixedMul(JUMP_VELOCITY, STOMP_BOUNCE);
                   }
                 } else {
-                  state.levelFailed = true;
-                  getSoundManager().playSound(SoundEffect.PLAYER_HIT);
+                  this.damagePlayer(state, player, entity);
                 }
                 break;
               }
@@ -468,15 +855,14 @@ export class PhysicsEngine {
               // Standard enemies (CRAB, SEAGULL, SKELETON)
               // Sword attack already handled above with extended range
               // Check for stomp attack
-              if (player.velocity.y > 0 && player.position.y < entity.position.y * SCALE) {
+              if (player.velocity.y > 0 && player.position.y < entity.position.y) {
                 // Stomp attack (like Mario)
                 entity.active = false;
-                getSoundManager().playSound(SoundEffect.ENEMY_DEFEAT);
-                player.velocity.y = JUMP_VELOCITY * 0.6;
+                this.emit(GameEventType.ENEMY_DEFEATED, state, player, entity);
+                player.velocity.y = fixedMul(JUMP_VELOCITY, STOMP_BOUNCE);
               } else if (!player.isAttacking) {
                 // Player hit by enemy (not attacking = vulnerable)
-                state.levelFailed = true;
-                getSoundManager().playSound(SoundEffect.PLAYER_HIT);
+                this.damagePlayer(state, player, entity);
               }
               // If attacking but didn't hit with sword, player is protected but doesn't kill enemy
               break;
@@ -485,28 +871,53 @@ export class PhysicsEngine {
               // Dashing through cannonballs
               if (player.isDashing) break;
               // Cannonballs always hurt the player
-              state.levelFailed = true;
-              getSoundManager().playSound(SoundEffect.PLAYER_HIT);
+              this.damagePlayer(state, player, entity);
+              break;
+
+            case EntityType.CHECKPOINT:
+              if (state.race) {
+                // Racers each keep their own checkpoint - one racer's flag doesn't pull the others along
+                const respawns = state.race.respawns;
+                if (respawns[player.id]?.entityId !== entity.id) {
+                  entity.collected = true;
+                  respawns[player.id] = {
+                    entityId: entity.id,
+                    x: entity.position.x / SCALE + entity.width / 2,
+                    y: entity.position.y / SCALE + entity.height
+                  };
+                  this.emit(GameEventType.CHECKPOINT_REACHED, state, player, entity);
+                }
+              } else if (!entity.collected) {
+                this.raiseCheckpoint(state, player, entity);
+              }
               break;
 
             case EntityType.GOAL:
-              state.levelComplete = true;
-              getSoundManager().playSound(SoundEffect.LEVEL_COMPLETE);
+              // The treasure stays locked until the crew (or in a race, the racer) has collected enough doubloons
+              if (this.getGoalDoubloons(state, player) < this.getRequiredDoubloons()) break;
+              if (!player.reachedGoal) {
+                player.reachedGoal = true;
+                if (state.race) state.race.finishFrames[player.id] = state.frame;
+                this.emit(GameEventType.GOAL_REACHED, state, player, entity);
+              }
+              // A race ends on its own clock (see step)
+              if (state.race) break;
+              // In co-op the level is only complete once every player has made it
+              if (!state.levelComplete && [...state.players.values()].every(p => p.reachedGoal)) {
+                state.levelComplete = true;
+                this.emit(GameEventType.LEVEL_COMPLETE, state, player, entity);
+              }
               break;
 
             case EntityType.RUM:
-              if (!entity.collected) {
-                entity.collected = true;
-                entity.active = false;
-                player.health = Math.min(player.health + 1, 3);
+              if (this.takePickup(state, player, entity)) {
+                player.health = Math.min(player.health + 1, MAX_HEALTH);
               }
               break;
 
             case EntityType.COCONUT:
-              if (!entity.collected) {
-                entity.collected = true;
-                entity.active = false;
-                player.sizeModifier = Math.min(player.sizeModifier + 0.25, 2);
+              if (this.takePickup(state, player, entity)) {
+                setPlayerSize(player, Math.min(player.sizeModifier + COCONUT_GROWTH, MAX_SIZE));
               }
               break;
 
@@ -515,15 +926,15 @@ export class PhysicsEngine {
               // Check if player is below the chest and moving upward
               if (!entity.collected && player.velocity.y < 0) {
                 const playerTop = player.position.y;
-                const chestBottom = (entity.position.y + entity.height) * SCALE;
+                const chestBottom = entity.position.y + entity.height * SCALE;
                 
                 // Player's head is hitting the bottom of the chest
                 if (playerTop <= chestBottom && playerTop > chestBottom - 20 * SCALE) {
                   entity.collected = true;
                   player.hasSword = true;
-                  getSoundManager().playSound(SoundEffect.COLLECT_SWORD);
+                  this.emit(GameEventType.SWORD_COLLECTED, state, player, entity);
                   // Bounce player back down slightly
-                  player.velocity.y = Math.abs(player.velocity.y) * 0.3;
+                  player.velocity.y = fixedMul(Math.abs(player.velocity.y), CHEST_BOUNCE);
                 }
               }
               break;
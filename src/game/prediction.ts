@@ -0,0 +1,147 @@
+import { PhysicsEngine } from "./physics";
+import { ServerSnapshot, deserializeGameState } from "./authority";
+import { hashState } from "./determinism";
+import { GameState, Input, GameEvent } from "../types";
+
+const EMPTY_INPUT: Omit<Input, 'frame'> = { left: false, right: false, jump: false, action: false, dash: false, down: false };
+
+/**
+ * Client side of the authoritative model. The local player is simulated ahead of the
+ * server using our own inputs; everyone else is predicted by repeating their last
+ * input. Each server snapshot replaces the predicted world, and the inputs the server
+ * hasn't processed yet are re-applied on top of it.
+ */
+export class ClientPrediction {
+  public state: GameState;
+
+  private pendingInputs: Map<number, Input> = new Map();
+  private remoteInputs: Map<string, Input> = new Map();
+  private latestSnapshot: ServerSnapshot | null = null;
+  private inputLead = 0;
+  private synced = false;
+
+  // Checksums of the frames we predicted, compared against the server's as snapshots land
+  private predictedHashes: Map<number, number> = new Map();
+  private corrections = 0;
+  private desyncFrame: number | null = null;
+
+  constructor(private physics: PhysicsEngine, private localPlayerId: string) {
+    this.state = {
+      frame: 0,
+      players: new Map(),
+      entities: []
+    };
+  }
+
+  public isSynced(): boolean {
+    return this.synced;
+  }
+
+  /**
+   * How many frames ahead of the server our inputs were arriving, as of the last snapshot.
+   */
+  public getInputLead(): number {
+    return this.inputLead;
+  }
+
+  /**
+   * How many snapshots disagreed with what we had predicted for their frame.
+   */
+  public getCorrectionCount(): number {
+    return this.corrections;
+  }
+
+  /**
+   * The latest frame whose rebuilt snapshot didn't match the server's checksum, if any.
+   * Prediction errors are expected; this never should be.
+   */
+  public getDesyncFrame(): number | null {
+    return this.desyncFrame;
+  }
+
+  /**
+   * Queue a snapshot; only the newest one is applied at the next reconcile.
+   */
+  public receiveSnapshot(snapshot: ServerSnapshot) {
+    if (this.latestSnapshot && this.latestSnapshot.state.frame >= snapshot.state.frame) return;
+    this.latestSnapshot = snapshot;
+  }
+
+  /**
+   * Adopt the newest server snapshot and silently re-simulate our unacknowledged
+   * inputs up to the frame we had predicted. Returns true if a snapshot was applied.
+   */
+  public reconcile(): boolean {
+    const snapshot = this.latestSnapshot;
+    if (!snapshot) return false;
+    this.latestSnapshot = null;
+
+    const predictedFrame = this.synced ? this.state.frame : snapshot.state.frame;
+
+    const predictedHash = this.predictedHashes.get(snapshot.state.frame);
+    if (predictedHash !== undefined && predictedHash !== snapshot.checksum) {
+      this.corrections++;
+    }
+    for (const frame of this.predictedHashes.keys()) {
+      if (frame <= snapshot.state.frame) this.predictedHashes.delete(frame);
+    }
+
+    this.state = deserializeGameState(snapshot.state);
+    if (hashState(this.state) !== snapshot.checksum) {
+      this.desyncFrame = snapshot.state.frame;
+    }
+    this.physics.restoreSnapshot(snapshot.physics);
+    this.inputLead = snapshot.inputLead[this.localPlayerId] ?? 0;
+
+    this.remoteInputs.clear();
+    for (const id in snapshot.inputs) {
+      if (id !== this.localPlayerId) this.remoteInputs.set(id, snapshot.inputs[id]);
+    }
+
+    for (const frame of this.pendingInputs.keys()) {
+      if (frame < this.state.frame) this.pendingInputs.delete(frame);
+    }
+
+    while (this.state.frame < predictedFrame) {
+      this.simulateFrame();
+    }
+
+    this.synced = true;
+    return true;
+  }
+
+  /**
+   * Simulate the next frame with a fresh local input. Returns the input (to send to
+   * the server) and the frame's events.
+   */
+  public predictFrame(buttons: Omit<Input, 'frame'>): { input: Input; events: GameEvent[] } {
+    const input: Input = { frame: this.state.frame, ...buttons };
+    this.pendingInputs.set(input.frame, input);
+    return { input, events: this.simulateFrame() };
+  }
+
+  private simulateFrame(): GameEvent[] {
+    const frame = this.state.frame;
+    const frameInputs = new Map<string, Input>();
+
+    for (const id of this.state.players.keys()) {
+      const input = id === this.localPlayerId
+        ? this.pendingInputs.get(frame) ?? this.getLastPendingInput()
+        : this.remoteInputs.get(id);
+      frameInputs.set(id, { ...(input || EMPTY_INPUT), frame });
+    }
+
+    const events = this.physics.step(this.state, frameInputs);
+    this.state.frame++;
+    this.predictedHashes.set(this.state.frame, hashState(this.state));
+    return events;
+  }
+
+  private getLastPendingInput(): Input | undefined {
+    let last: Input | undefined;
+    for (const input of this.pendingInputs.values()) {
+      if (!last || input.frame > last.frame) last = input;
+    }
+    return last;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { AuthoritativeSimulation, ServerSnapshot, deserializeGameState } from './authority';
+import {
+  PROTOCOL_VERSION, ServerMessage, encodeSnapshot, decodeServerMessage,
+  encodeServerMessage, encodeClientMessage, decodeClientMessage
+} from './protocol';
+import { hashState } from './determinism';
+import { CAMPAIGN_LEVELS } from './levels';
+import { CharacterType, Input, LevelData, EntityType, EnemyType } from '../types';
+
+function input(frame: number, buttons: Partial<Omit<Input, 'frame'>> = {}): Input {
+  return { frame, left: false, right: false, jump: false, action: false, dash: false, down: false, ...buttons };
+}
+
+function decodeSnapshot(data: ArrayBuffer, base?: ServerSnapshot): ServerSnapshot {
+  const msg = decodeServerMessage(data, frame => base && base.state.frame === frame ? base : undefined);
+  if (msg.type !== 'snapshot') throw new Error(`Expected a snapshot, got ${msg.type}`);
+  return msg.snapshot;
+}
+
+function runLevel(frames: number) {
+  const server = new AuthoritativeSimulation(CAMPAIGN_LEVELS[0]);
+  server.addPlayer('a', CharacterType.PIRATE);
+  server.addPlayer('b', CharacterType.OCTOPUS);
+  const snapshots: ServerSnapshot[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    server.receiveInput('a', input(frame, { right: true, jump: frame % 30 < 4 }));
+    server.receiveInput('b', input(frame, { left: frame % 40 < 20 }));
+    server.step();
+    snapshots.push(server.getSnapshot());
+  }
+  return snapshots;
+}
+
+describe('snapshot encoding', () => {
+  it('round-trips a full snapshot', () => {
+    const [snapshot] = runLevel(1);
+    const decoded = decodeSnapshot(encodeSnapshot(snapshot, null));
+
+    expect(decoded).toEqual(snapshot);
+    expect(hashState(deserializeGameState(decoded.state))).toBe(hashState(deserializeGameState(snapshot.state)));
+  });
+
+  it('sends only what changed since the acknowledged snapshot', () => {
+    const snapshots = runLevel(60);
+    const base = snapshots[50];
+    const current = snapshots[59];
+
+    const full = encodeSnapshot(current, null);
+    const delta = encodeSnapshot(current, base);
+    expect(delta.byteLength).toBeLessThan(full.byteLength / 2);
+
+    const decoded = decodeSnapshot(delta, base);
+    expect(decoded).toEqual(current);
+    expect(hashState(deserializeGameState(decoded.state))).toBe(hashState(deserializeGameState(current.state)));
+  });
+
+  it('drops spent cannonballs and matches entities by id', () => {
+    const level: LevelData = {
+      id: 999,
+      name: 'Cannon Cove',
+      width: 600,
+      height: 600,
+      platforms: [{ x: 0, y: 500, w: 600, h: 100 }],
+      spawnPoint: { x: 40, y: 468 },
+      goalPosition: { x: 560, y: 460 },
+      doubloons: [],
+      enemies: [{ x: 200, y: 300, type: EnemyType.CANNON_TURRET, fireRate: 30 }]
+    };
+    const server = new AuthoritativeSimulation(level);
+    server.addPlayer('a', CharacterType.PIRATE);
+    const snapshots: ServerSnapshot[] = [];
+    for (let frame = 0; frame < 600; frame++) {
+      server.step();
+      snapshots.push(server.getSnapshot());
+    }
+
+    // Only the cannonballs still in flight are kept
+    const cannonballs = (snapshot: ServerSnapshot) =>
+      snapshot.state.entities.filter(entity => entity.type === EntityType.CANNONBALL).map(entity => entity.id);
+    const base = snapshots[450];
+    const current = snapshots[599];
+    expect(cannonballs(current).length).toBeGreaterThan(0);
+    expect(cannonballs(current).length).toBeLessThanOrEqual(5);
+    expect(cannonballs(base).some(id => !cannonballs(current).includes(id))).toBe(true);
+
+    const decoded = decodeSnapshot(encodeSnapshot(current, base), base);
+    expect(decoded).toEqual(current);
+    expect(hashState(deserializeGameState(decoded.state))).toBe(hashState(deserializeGameState(current.state)));
+  });
+
+  it('rejects deltas without their baseline and other versions', () => {
+    const snapshots = runLevel(10);
+    expect(() => decodeSnapshot(encodeSnapshot(snapshots[9], snapshots[5]))).toThrow(/Missing baseline/);
+
+    const data = new Uint8Array(encodeSnapshot(snapshots[9], null));
+    data[0] = PROTOCOL_VERSION + 1;
+    expect(() => decodeSnapshot(data.buffer)).toThrow(/version/);
+  });
+});
+
+describe('control messages', () => {
+  it('round-trips client messages', () => {
+    const inputMsg = { type: 'input' as const, input: input(1234, { right: true, dash: true }), ackFrame: 1230 };
+    expect(encodeClientMessage(inputMsg)).toBeInstanceOf(ArrayBuffer);
+    expect(decodeClientMessage(encodeClientMessage(inputMsg))).toEqual(inputMsg);
+
+    const noAck = { type: 'input' as const, input: input(0), ackFrame: null };
+    expect(decodeClientMessage(encodeClientMessage(noAck))).toEqual(noAck);
+
+    const ready = { type: 'ready' as const, ready: true };
+    expect(decodeClientMessage(encodeClientMessage(ready))).toEqual(ready);
+  });
+
+  it('round-trips server messages', () => {
+    const lobby: ServerMessage = {
+      type: 'lobby',
+      players: [{ id: 'a', characterType: CharacterType.PIRATE, ready: true, isHost: true, connected: true }],
+      maxPlayers: 4,
+      levelId: 1,
+      mode: 'race',
+      started: false,
+      spectators: 1
+    };
+    expect(decodeServerMessage(encodeServerMessage(lobby), () => undefined)).toEqual(lobby);
+
+    // Clients on any version can still read why they were turned away
+    const mismatch = JSON.stringify({ v: PROTOCOL_VERSION + 1, type: 'version_mismatch', serverVersion: PROTOCOL_VERSION + 1 });
+    expect(decodeServerMessage(mismatch, () => undefined)).toEqual({ type: 'version_mismatch', serverVersion: PROTOCOL_VERSION + 1 });
+    expect(() => decodeServerMessage(JSON.stringify({ v: PROTOCOL_VERSION + 1, type: 'join', playerId: 'a' }), () => undefined)).toThrow(/version/);
+  });
+});
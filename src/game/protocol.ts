@@ -0,0 +1,559 @@
+import { Input, PlayerState, Entity, SerializedGameState, LobbyPlayer, RoomMode, RaceResult } from "../types";
+import { ServerSnapshot } from "./authority";
+import { inputToMask, maskToInput } from "./replay";
+
+// Bump whenever the wire format or message shapes change - mismatched builds refuse to talk
+export const PROTOCOL_VERSION = 12;
+
+// Messages the room server sends to clients
+export type ServerMessage =
+  // resumed: a reconnect picked up the player this session already had. Spectators get
+  // their connection id as playerId, but no player in the world. session is the token to
+  // reconnect with - new if the one sent was already in use (e.g. by a duplicated tab)
+  | { type: 'init'; playerId: string; isHost: boolean; started: boolean; levelId: number; frame: number; resumed: boolean; spectator: boolean; session: string | null }
+  | { type: 'join'; playerId: string }
+  | { type: 'leave'; playerId: string }
+  | { type: 'host_changed'; hostId: string; frame: number }
+  | { type: 'lobby'; players: LobbyPlayer[]; maxPlayers: number; levelId: number; mode: RoomMode; started: boolean; spectators: number }
+  | { type: 'start'; levelId: number; frame: number }
+  // results is empty unless the level was a race
+  | { type: 'level_over'; levelId: number; complete: boolean; results: RaceResult[] }
+  | { type: 'room_full'; maxPlayers: number }
+  | { type: 'version_mismatch'; serverVersion: number }
+  | { type: 'pong'; id: number }
+  // baseFrame is the snapshot the delta was taken against (null = complete snapshot)
+  | { type: 'snapshot'; snapshot: ServerSnapshot; baseFrame: number | null };
+
+// Messages clients send to the room server
+export type ClientMessage =
+  // ackFrame is the newest snapshot we hold, so the server can send deltas against it
+  | { type: 'input'; input: Input; ackFrame: number | null }
+  // Spectators send no inputs, so they acknowledge snapshots on their own
+  | { type: 'ack'; ackFrame: number }
+  | { type: 'ready'; ready: boolean }
+  | { type: 'select_level'; levelId: number }
+  | { type: 'select_mode'; mode: RoomMode }
+  | { type: 'start' }
+  // Leaving for good, so the server needn't hold our seat for a reconnect
+  | { type: 'leave' }
+  // Echoed straight back as a pong, for measuring round-trip time
+  | { type: 'ping'; id: number };
+
+type RawMessage = string | ArrayBuffer | ArrayBufferView;
+
+// Binary frames start with [version, kind]; everything else is versioned JSON
+enum BinaryKind {
+  INPUT = 1,
+  SNAPSHOT = 2
+}
+
+const NO_FRAME = 0xffffffff;
+
+enum ValueTag {
+  UNDEFINED = 0,
+  FALSE = 1,
+  TRUE = 2,
+  INT = 3,
+  FLOAT = 4,
+  STRING = 5,
+  VECTOR = 6,
+  JSON = 7
+}
+
+// Every field of T, in wire order. Listing them as an object means adding a field to
+// the type is a compile error here until the protocol knows about it.
+function fieldList<T>(fields: Record<keyof T, true>): (keyof T)[] {
+  return Object.keys(fields) as (keyof T)[];
+}
+
+const PLAYER_FIELDS = fieldList<PlayerState>({
+  id: true, position: true, velocity: true, isGrounded: true, facingRight: true,
+  width: true, height: true, color: true, sizeModifier: true, health: true, doubloons: true,
+  jumpHeld: true, isAttacking: true, attackFrame: true, attackCooldown: true, hasSword: true,
+  characterType: true, coyoteTimer: true, wallSliding: true, wallDirection: true,
+  isDashing: true, dashCooldown: true, dashTimer: true, invulnerableTimer: true, reachedGoal: true
+});
+
+const ENTITY_FIELDS = fieldList<Entity>({
+  id: true, type: true, position: true, velocity: true, width: true, height: true,
+  active: true, collected: true, collectedBy: true, takenBy: true, enemyType: true, patrolDirection: true, spawnX: true,
+  spawnY: true, patrolWidth: true, patrolHeight: true, stateTimer: true, phase: true,
+  isVisible: true, facingRight: true, isCharging: true, fireRate: true, lastFired: true
+});
+
+type WorldFields = Omit<SerializedGameState, 'frame' | 'players' | 'entities'>;
+const WORLD_FIELDS = fieldList<WorldFields>({
+  checkpoint: true, levelComplete: true, levelFailed: true, race: true
+});
+
+class ByteWriter {
+  private buffer = new ArrayBuffer(256);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+  private static encoder = new TextEncoder();
+
+  private reserve(bytes: number) {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+    let size = this.buffer.byteLength * 2;
+    while (size < this.offset + bytes) size *= 2;
+    const grown = new ArrayBuffer(size);
+    new Uint8Array(grown).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = grown;
+    this.view = new DataView(grown);
+  }
+
+  public u8(value: number) {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  public u16(value: number) {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  public i16(value: number) {
+    this.reserve(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  public u32(value: number) {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  public i32(value: number) {
+    this.reserve(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  public f64(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  public string(value: string) {
+    const bytes = ByteWriter.encoder.encode(value);
+    this.u16(bytes.length);
+    this.reserve(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  public number(value: number) {
+    // -0 goes as a float so the sign survives - the simulation must match bit for bit
+    if (Number.isInteger(value) && !Object.is(value, -0) && value >= -0x80000000 && value <= 0x7fffffff) {
+      this.u8(ValueTag.INT);
+      this.i32(value);
+    } else {
+      this.u8(ValueTag.FLOAT);
+      this.f64(value);
+    }
+  }
+
+  // Any field value: primitives, {x, y} vectors, or JSON for anything richer
+  public value(value: unknown) {
+    if (value === undefined || value === null) {
+      this.u8(ValueTag.UNDEFINED);
+    } else if (typeof value === 'boolean') {
+      this.u8(value ? ValueTag.TRUE : ValueTag.FALSE);
+    } else if (typeof value === 'number') {
+      this.number(value);
+    } else if (typeof value === 'string') {
+      this.u8(ValueTag.STRING);
+      this.string(value);
+    } else if (isVector(value)) {
+      this.u8(ValueTag.VECTOR);
+      this.number(value.x);
+      this.number(value.y);
+    } else {
+      this.u8(ValueTag.JSON);
+      this.string(JSON.stringify(value));
+    }
+  }
+
+  public finish(): ArrayBuffer {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+  private static decoder = new TextDecoder();
+
+  constructor(data: ArrayBuffer | ArrayBufferView) {
+    this.view = data instanceof ArrayBuffer
+      ? new DataView(data)
+      : new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private take(bytes: number): number {
+    if (this.offset + bytes > this.view.byteLength) {
+      throw new Error('Truncated message');
+    }
+    const at = this.offset;
+    this.offset += bytes;
+    return at;
+  }
+
+  public u8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  public u16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  public i16(): number {
+    return this.view.getInt16(this.take(2));
+  }
+
+  public u32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+
+  public string(): string {
+    const length = this.u16();
+    const at = this.take(length);
+    return ByteReader.decoder.decode(new Uint8Array(this.view.buffer, this.view.byteOffset + at, length));
+  }
+
+  public number(): number {
+    const tag = this.u8();
+    if (tag === ValueTag.INT) return this.view.getInt32(this.take(4));
+    if (tag === ValueTag.FLOAT) return this.view.getFloat64(this.take(8));
+    throw new Error(`Expected a number, got tag ${tag}`);
+  }
+
+  public value(): unknown {
+    const tag = this.u8();
+    switch (tag) {
+      case ValueTag.UNDEFINED: return undefined;
+      case ValueTag.FALSE: return false;
+      case ValueTag.TRUE: return true;
+      case ValueTag.INT: return this.view.getInt32(this.take(4));
+      case ValueTag.FLOAT: return this.view.getFloat64(this.take(8));
+      case ValueTag.STRING: return this.string();
+      case ValueTag.VECTOR: return { x: this.number(), y: this.number() };
+      case ValueTag.JSON: return JSON.parse(this.string());
+      default: throw new Error(`Unknown value tag ${tag}`);
+    }
+  }
+}
+
+function isVector(value: unknown): value is { x: number; y: number } {
+  if (typeof value !== 'object' || value === null) return false;
+  const keys = Object.keys(value);
+  const v = value as { x: unknown; y: unknown };
+  return keys.length === 2 && typeof v.x === 'number' && typeof v.y === 'number';
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isVector(a) && isVector(b)) {
+    return Object.is(a.x, b.x) && Object.is(a.y, b.y);
+  }
+  if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return Object.is(a, b);
+}
+
+function changedFields<T>(fields: (keyof T)[], base: T | undefined, current: T): number[] {
+  const changed: number[] = [];
+  fields.forEach((field, index) => {
+    if (!sameValue(base?.[field], current[field])) changed.push(index);
+  });
+  return changed;
+}
+
+// [count, (field index, value)...] for the fields of `current` that differ from `base`
+function writeFieldDelta<T>(writer: ByteWriter, fields: (keyof T)[], changed: number[], current: T) {
+  writer.u8(changed.length);
+  for (const index of changed) {
+    writer.u8(index);
+    writer.value(current[fields[index]]);
+  }
+}
+
+function readFieldDelta<T>(reader: ByteReader, fields: (keyof T)[], target: T) {
+  const count = reader.u8();
+  for (let i = 0; i < count; i++) {
+    const index = reader.u8();
+    const field = fields[index];
+    if (field === undefined) throw new Error(`Unknown field ${index}`);
+    const value = reader.value();
+    if (value === undefined) {
+      delete target[field];
+    } else {
+      target[field] = value as T[keyof T];
+    }
+  }
+}
+
+function writeHeader(writer: ByteWriter, kind: BinaryKind) {
+  writer.u8(PROTOCOL_VERSION);
+  writer.u8(kind);
+}
+
+function readHeader(reader: ByteReader): BinaryKind {
+  const version = reader.u8();
+  if (version !== PROTOCOL_VERSION) {
+    throw new Error(`Protocol version ${version} (expected ${PROTOCOL_VERSION})`);
+  }
+  return reader.u8();
+}
+
+function parseJson(text: string): { type: string } {
+  const message = JSON.parse(text);
+  // The mismatch notice has to reach clients of any version
+  if (message.v !== PROTOCOL_VERSION && message.type !== 'version_mismatch') {
+    throw new Error(`Protocol version ${message.v} (expected ${PROTOCOL_VERSION})`);
+  }
+  delete message.v;
+  return message;
+}
+
+function toJson(message: { type: string }): string {
+  return JSON.stringify({ v: PROTOCOL_VERSION, ...message });
+}
+
+/**
+ * Encode a snapshot, sending only what changed since `base` (the newest snapshot the
+ * client has acknowledged). Without a base every field is sent.
+ */
+export function encodeSnapshot(snapshot: ServerSnapshot, base: ServerSnapshot | null): ArrayBuffer {
+  const writer = new ByteWriter();
+  writeHeader(writer, BinaryKind.SNAPSHOT);
+
+  const state = snapshot.state;
+  writer.u32(state.frame);
+  writer.u32(base ? base.state.frame : NO_FRAME);
+  writer.u32(snapshot.checksum);
+
+  writeFieldDelta<WorldFields>(writer, WORLD_FIELDS, changedFields<WorldFields>(WORLD_FIELDS, base?.state, state), state);
+
+  // Players: who left, then the fields that changed for everyone still here
+  const removed = base ? Object.keys(base.state.players).filter(id => !(id in state.players)) : [];
+  writer.u8(removed.length);
+  removed.forEach(id => writer.string(id));
+
+  const ids = Object.keys(state.players);
+  writer.u8(ids.length);
+  for (const id of ids) {
+    writer.string(id);
+    const player = state.players[id];
+    writeFieldDelta(writer, PLAYER_FIELDS, changedFields(PLAYER_FIELDS, base?.state.players[id], player), player);
+  }
+
+  // Entities are matched by id: who left (e.g. spent cannonballs), then the fields that
+  // changed for the rest. New entities are only ever appended, so they go on the end
+  const baseEntities = new Map(base?.state.entities.map(entity => [entity.id, entity]));
+  const entityIds = new Set(state.entities.map(entity => entity.id));
+  const removedEntities = base ? base.state.entities.filter(entity => !entityIds.has(entity.id)) : [];
+  writer.u16(removedEntities.length);
+  removedEntities.forEach(entity => writer.string(entity.id));
+
+  const changedEntities: { entity: Entity; fields: number[] }[] = [];
+  for (const entity of state.entities) {
+    const fields = changedFields(ENTITY_FIELDS, baseEntities.get(entity.id), entity);
+    if (fields.length > 0) changedEntities.push({ entity, fields });
+  }
+  writer.u16(state.entities.length);
+  writer.u16(changedEntities.length);
+  for (const { entity, fields } of changedEntities) {
+    writer.string(entity.id);
+    writeFieldDelta(writer, ENTITY_FIELDS, fields, entity);
+  }
+
+  // Engine state, last inputs and input lead are small - always sent whole
+  writer.u32(snapshot.physics.frameCount);
+  writer.u8(snapshot.physics.movingPlatforms.length);
+  for (const mp of snapshot.physics.movingPlatforms) {
+    writer.number(mp.x);
+    writer.number(mp.y);
+    writer.number(mp.prevX);
+    writer.number(mp.prevY);
+  }
+
+  const inputIds = Object.keys(snapshot.inputs);
+  writer.u8(inputIds.length);
+  for (const id of inputIds) {
+    writer.string(id);
+    writer.u32(snapshot.inputs[id].frame);
+    writer.u8(inputToMask(snapshot.inputs[id]));
+    writer.i16(snapshot.inputLead[id] ?? 0);
+  }
+
+  return writer.finish();
+}
+
+function decodeSnapshot(reader: ByteReader, getBase: (frame: number) => ServerSnapshot | undefined): ServerMessage {
+  const frame = reader.u32();
+  const baseFrameRaw = reader.u32();
+  const baseFrame = baseFrameRaw === NO_FRAME ? null : baseFrameRaw;
+  const checksum = reader.u32();
+
+  let base: ServerSnapshot | undefined;
+  if (baseFrame !== null) {
+    base = getBase(baseFrame);
+    if (!base) throw new Error(`Missing baseline snapshot ${baseFrame}`);
+  }
+
+  // Start from a copy of the baseline so it stays intact for later deltas
+  const state: SerializedGameState = base
+    ? structuredClone(base.state)
+    : { frame, players: {}, entities: [] };
+  state.frame = frame;
+
+  readFieldDelta<WorldFields>(reader, WORLD_FIELDS, state);
+
+  const removedCount = reader.u8();
+  for (let i = 0; i < removedCount; i++) {
+    delete state.players[reader.string()];
+  }
+
+  const playerCount = reader.u8();
+  for (let i = 0; i < playerCount; i++) {
+    const id = reader.string();
+    const player = state.players[id] || ({} as PlayerState);
+    readFieldDelta(reader, PLAYER_FIELDS, player);
+    state.players[id] = player;
+  }
+
+  const removedEntities = new Set<string>();
+  const removedEntityCount = reader.u16();
+  for (let i = 0; i < removedEntityCount; i++) {
+    removedEntities.add(reader.string());
+  }
+  state.entities = state.entities.filter(entity => !removedEntities.has(entity.id));
+
+  const entities = new Map(state.entities.map(entity => [entity.id, entity]));
+  const entityCount = reader.u16();
+  const changedCount = reader.u16();
+  for (let i = 0; i < changedCount; i++) {
+    const id = reader.string();
+    let entity = entities.get(id);
+    if (!entity) {
+      entity = {} as Entity;
+      entities.set(id, entity);
+      state.entities.push(entity);
+    }
+    readFieldDelta(reader, ENTITY_FIELDS, entity);
+  }
+  if (state.entities.length !== entityCount) {
+    throw new Error(`Snapshot ${frame} is missing entities`);
+  }
+
+  const frameCount = reader.u32();
+  const movingPlatforms = [];
+  const platformCount = reader.u8();
+  for (let i = 0; i < platformCount; i++) {
+    movingPlatforms.push({ x: reader.number(), y: reader.number(), prevX: reader.number(), prevY: reader.number() });
+  }
+
+  const inputs: { [playerId: string]: Input } = {};
+  const inputLead: { [playerId: string]: number } = {};
+  const inputCount = reader.u8();
+  for (let i = 0; i < inputCount; i++) {
+    const id = reader.string();
+    const inputFrame = reader.u32();
+    inputs[id] = maskToInput(reader.u8(), inputFrame);
+    inputLead[id] = reader.i16();
+  }
+
+  return {
+    type: 'snapshot',
+    baseFrame,
+    snapshot: { state, physics: { frameCount, movingPlatforms }, inputs, inputLead, checksum }
+  };
+}
+
+/**
+ * Control messages go as versioned JSON; snapshots are sent per client with encodeSnapshot.
+ */
+export function encodeServerMessage(message: Exclude<ServerMessage, { type: 'snapshot' }>): string {
+  return toJson(message);
+}
+
+/**
+ * Decode anything the server sent. Delta snapshots need the baseline they were taken
+ * against; throws if it's missing, the data is corrupt, or the server runs another version.
+ */
+export function decodeServerMessage(data: RawMessage, getBase: (frame: number) => ServerSnapshot | undefined): ServerMessage {
+  if (typeof data === 'string') {
+    return parseJson(data) as ServerMessage;
+  }
+
+  const reader = new ByteReader(data);
+  const kind = readHeader(reader);
+  if (kind !== BinaryKind.SNAPSHOT) throw new Error(`Unexpected message kind ${kind}`);
+  return decodeSnapshot(reader, getBase);
+}
+
+export function encodeClientMessage(message: ClientMessage): string | ArrayBuffer {
+  if (message.type !== 'input') return toJson(message);
+
+  // Inputs go out every frame, so they're packed: [version, kind, frame, buttons, ack]
+  const writer = new ByteWriter();
+  writeHeader(writer, BinaryKind.INPUT);
+  writer.u32(message.input.frame);
+  writer.u8(inputToMask(message.input));
+  writer.u32(message.ackFrame ?? NO_FRAME);
+  return writer.finish();
+}
+
+export function decodeClientMessage(data: RawMessage): ClientMessage {
+  if (typeof data === 'string') {
+    return parseJson(data) as ClientMessage;
+  }
+
+  const reader = new ByteReader(data);
+  const kind = readHeader(reader);
+  if (kind !== BinaryKind.INPUT) throw new Error(`Unexpected message kind ${kind}`);
+
+  const frame = reader.u32();
+  const input = maskToInput(reader.u8(), frame);
+  const ack = reader.u32();
+  return { type: 'input', input, ackFrame: ack === NO_FRAME ? null : ack };
+}
+
+/**
+ * The last few snapshots by frame - the baselines deltas are encoded against (server)
+ * and decoded against (client).
+ */
+export class SnapshotHistory {
+  private snapshots: Map<number, ServerSnapshot> = new Map();
+
+  constructor(private capacity: number = 32) {}
+
+  public add(snapshot: ServerSnapshot) {
+    this.snapshots.set(snapshot.state.frame, snapshot);
+    for (const frame of this.snapshots.keys()) {
+      if (this.snapshots.size <= this.capacity) break;
+      this.snapshots.delete(frame);
+    }
+  }
+
+  public get(frame: number): ServerSnapshot | undefined {
+    return this.snapshots.get(frame);
+  }
+
+  public getLatestFrame(): number | null {
+    let latest: number | null = null;
+    for (const frame of this.snapshots.keys()) {
+      if (latest === null || frame > latest) latest = frame;
+    }
+    return latest;
+  }
+
+  public clear() {
+    this.snapshots.clear();
+  }
+}
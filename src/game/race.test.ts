@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { AuthoritativeSimulation } from './authority';
+import { RACE_COUNTDOWN_FRAMES, RACE_FINISH_WINDOW, getRaceResults } from './race';
+import { CharacterType, Input, LevelData, GameEvent, GameEventType } from '../types';
+
+function input(frame: number, buttons: Partial<Omit<Input, 'frame'>> = {}): Input {
+  return { frame, left: false, right: false, jump: false, action: false, dash: false, down: false, ...buttons };
+}
+
+const GROUND_Y = 500;
+const level: LevelData = {
+  id: 999,
+  name: 'Race Island',
+  width: 2000,
+  height: 600,
+  platforms: [{ x: 0, y: GROUND_Y, w: 1200, h: 100 }],
+  spawnPoint: { x: 100, y: GROUND_Y - 32 },
+  goalPosition: { x: 500, y: GROUND_Y - 40 },
+  checkpoints: [{ x: 300, y: GROUND_Y - 48 }],
+  doubloons: [],
+  enemies: []
+};
+
+function race(steps: number, server: AuthoritativeSimulation, buttons: { [id: string]: Partial<Omit<Input, 'frame'>> }) {
+  const events: GameEvent[] = [];
+  for (let i = 0; i < steps && !server.isFinished(); i++) {
+    for (const id in buttons) server.receiveInput(id, input(server.state.frame, buttons[id]));
+    events.push(...server.step());
+  }
+  return events;
+}
+
+describe('race mode', () => {
+  it('holds everyone on the start line until the countdown ends', () => {
+    const server = new AuthoritativeSimulation(level, 'race');
+    server.addPlayer('a', CharacterType.PIRATE);
+    const startX = server.state.players.get('a')!.position.x;
+
+    race(RACE_COUNTDOWN_FRAMES, server, { a: { right: true } });
+    expect(server.state.players.get('a')!.position.x).toBe(startX);
+
+    race(10, server, { a: { right: true } });
+    expect(server.state.players.get('a')!.position.x).toBeGreaterThan(startX);
+  });
+
+  it('ranks racers by finish time, then ends once the finish window runs out', () => {
+    const server = new AuthoritativeSimulation(level, 'race');
+    server.addPlayer('a', CharacterType.PIRATE);
+    server.addPlayer('b', CharacterType.OCTOPUS);
+    server.addPlayer('c', CharacterType.GIRL_PIRATE);
+
+    // a runs, b dawdles behind, c never moves
+    const events = race(RACE_COUNTDOWN_FRAMES + 300, server, { a: { right: true }, b: {}, c: {} });
+    expect(events.some(e => e.type === GameEventType.GOAL_REACHED && e.playerId === 'a')).toBe(true);
+    expect(server.state.levelComplete).toBe(false);
+
+    race(60, server, { a: {}, b: { right: true }, c: {} });
+    race(RACE_FINISH_WINDOW, server, { a: {}, b: { right: true }, c: {} });
+    expect(server.state.levelComplete).toBe(true);
+
+    const results = getRaceResults(server.state);
+    expect(results.map(r => r.playerId)).toEqual(['a', 'b', 'c']);
+    expect(results[0].finishFrames).toBeLessThan(results[1].finishFrames!);
+    expect(results[2].finishFrames).toBeNull();
+  });
+
+  it('never fails - racers respawn at their own checkpoint', () => {
+    const server = new AuthoritativeSimulation(level, 'race');
+    server.addPlayer('a', CharacterType.PIRATE);
+    server.addPlayer('b', CharacterType.OCTOPUS);
+
+    // a runs past the checkpoint; b hangs back at the start
+    race(RACE_COUNTDOWN_FRAMES + 100, server, { a: { right: true }, b: { left: true } });
+    expect(server.state.race!.respawns['a']).toBeDefined();
+    expect(server.state.race!.respawns['b']).toBeUndefined();
+
+    // Drop b into the sea - a's checkpoint doesn't count for them
+    const b = server.state.players.get('b')!;
+    b.position.y = (level.height + 10) * 100;
+    const events = race(1, server, { a: {}, b: {} });
+
+    expect(server.state.levelFailed).toBeFalsy();
+    expect(events.some(e => e.type === GameEventType.PLAYER_RESPAWNED && e.playerId === 'b')).toBe(true);
+    expect(server.state.players.get('b')!.position.x).toBe(level.spawnPoint.x * 100);
+  });
+
+  it('gives every racer their own doubloons and only counts their own at the treasure', () => {
+    const server = new AuthoritativeSimulation({
+      ...level,
+      checkpoints: [],
+      doubloons: [{ x: 300, y: GROUND_Y - 30 }],
+      requiredDoubloons: 1
+    }, 'race');
+    const a = server.addPlayer('a', CharacterType.PIRATE);
+    const b = server.addPlayer('b', CharacterType.OCTOPUS);
+
+    // a grabs the doubloon and opens the treasure; b hangs back
+    let events = race(RACE_COUNTDOWN_FRAMES + 200, server, { a: { right: true }, b: { left: true } });
+    expect(events.some(e => e.type === GameEventType.GOAL_REACHED && e.playerId === 'a')).toBe(true);
+    expect(a.doubloons).toBe(1);
+
+    // Dropped on the treasure without a doubloon of their own, b finds it still locked
+    b.position.x = 510 * 100;
+    b.position.y = (GROUND_Y - b.height) * 100;
+    events = race(30, server, { a: {}, b: {} });
+    expect(events.some(e => e.type === GameEventType.GOAL_REACHED && e.playerId === 'b')).toBe(false);
+
+    // a's doubloon is still there for b to take
+    events = race(120, server, { a: {}, b: { left: true } });
+    expect(events.some(e => e.type === GameEventType.DOUBLOON_COLLECTED && e.playerId === 'b')).toBe(true);
+    expect(b.doubloons).toBe(1);
+    expect(a.doubloons).toBe(1);
+
+    events = race(120, server, { a: {}, b: { right: true } });
+    expect(events.some(e => e.type === GameEventType.GOAL_REACHED && e.playerId === 'b')).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { GameState, RaceState, RaceResult } from "../types";
+
+export const RACE_COUNTDOWN_FRAMES = 180; // 3 seconds of "3, 2, 1" before anyone can move
+export const RACE_FINISH_WINDOW = 600; // the rest of the field gets 10 seconds after the winner
+export const MIN_RACERS = 2;
+
+export function createRaceState(startFrame: number = RACE_COUNTDOWN_FRAMES): RaceState {
+  return { startFrame, finishFrames: {}, respawns: {} };
+}
+
+export function isRaceStarted(state: GameState): boolean {
+  return !state.race || state.frame >= state.race.startFrame;
+}
+
+/**
+ * The race is over once everyone has finished, or the finish window after the
+ * winner has run out.
+ */
+export function isRaceOver(state: GameState): boolean {
+  const race = state.race;
+  if (!race) return false;
+
+  const finishes = Object.values(race.finishFrames);
+  if (finishes.length === 0) return false;
+  if ([...state.players.keys()].every(id => id in race.finishFrames)) return true;
+  return state.frame >= Math.min(...finishes) + RACE_FINISH_WINDOW;
+}
+
+export function getRaceWinner(state: GameState): string | null {
+  return getRaceResults(state).find(r => r.place === 1 && r.finishFrames !== null)?.playerId ?? null;
+}
+
+/**
+ * Everyone who finished in the order they did, then the rest by doubloons.
+ */
+export function getRaceResults(state: GameState): RaceResult[] {
+  const race = state.race;
+  if (!race) return [];
+
+  const results = [...state.players.values()].map(player => {
+    const finish = race.finishFrames[player.id];
+    return {
+      playerId: player.id,
+      characterType: player.characterType,
+      place: 0,
+      finishFrames: finish === undefined ? null : finish - race.startFrame,
+      doubloons: player.doubloons
+    };
+  });
+
+  results.sort((a, b) => {
+    if (a.finishFrames !== null && b.finishFrames !== null) return a.finishFrames - b.finishFrames;
+    if (a.finishFrames !== null) return -1;
+    if (b.finishFrames !== null) return 1;
+    return b.doubloons - a.doubloons;
+  });
+  results.forEach((result, i) => result.place = i + 1);
+  return results;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { checkReachability } from './reachability';
+import { CAMPAIGN_LEVELS } from './levels';
+import { Simulation } from './simulation';
+import { LevelData } from '../types';
+
+function island(changes: Partial<LevelData> = {}): LevelData {
+  return {
+    id: 900,
+    name: 'Test Island',
+    width: 1600,
+    height: 600,
+    platforms: [{ x: 0, y: 500, w: 800, h: 100 }],
+    spawnPoint: { x: 40, y: 468 },
+    goalPosition: { x: 700, y: 460 },
+    doubloons: [],
+    ...changes
+  };
+}
+
+// Two cliffs with a gap between them and a doubloon on the far one
+const gap = (width: number) => island({
+  platforms: [{ x: 0, y: 500, w: 300, h: 100 }, { x: 300 + width, y: 500, w: 300, h: 100 }],
+  goalPosition: { x: 400 + width, y: 460 },
+  doubloons: [{ x: 340 + width, y: 470 }],
+  requiredDoubloons: 1
+});
+
+describe('reachability', () => {
+  it('can finish every campaign level', () => {
+    for (const level of CAMPAIGN_LEVELS) {
+      const report = checkReachability(level);
+      expect(report.problems, level.name).toEqual([]);
+      expect(report.reachableDoubloons).toHaveLength(level.doubloons.length);
+    }
+  });
+
+  it('reports doubloons and treasure out of reach', () => {
+    const report = checkReachability(island({
+      platforms: [{ x: 0, y: 500, w: 800, h: 100 }, { x: 1200, y: 200, w: 200, h: 20 }],
+      goalPosition: { x: 1280, y: 160 },
+      doubloons: [{ x: 300, y: 450 }, { x: 500, y: 150 }],
+      requiredDoubloons: 2
+    }));
+
+    expect(report.reachableDoubloons).toEqual([0]);
+    expect(report.unreachableDoubloons).toEqual([1]);
+    expect(report.goalReachable).toBe(false);
+    expect(report.problems).toEqual([
+      "doubloons[1] at (500, 150) can't be reached",
+      "the treasure at (1280, 160) can't be reached",
+      'only 1 doubloons can be reached but the treasure needs 2'
+    ]);
+  });
+
+  it('clears gaps with a dash that a jump alone would not', () => {
+    expect(checkReachability(gap(300)).problems).toEqual([]);
+    expect(checkReachability(gap(350)).goalReachable).toBe(false);
+
+    // And the engine agrees: a running jump off the edge, dashing on the way down
+    const sim = new Simulation(gap(300));
+    sim.run(200, [{ from: 0, to: 200, right: true }, { from: 84, to: 85, jump: true }, { from: 118, to: 119, dash: true }]);
+    expect(sim.state.levelComplete).toBe(true);
+  });
+
+  it('climbs walls to ledges too high to jump to', () => {
+    const ledge = { x: 400, y: 250, w: 200, h: 20 };
+    const wall = { x: 300, y: 150, w: 20, h: 350 };
+    const doubloons = [{ x: 500, y: 220 }];
+
+    expect(checkReachability(island({ platforms: [{ x: 0, y: 500, w: 800, h: 100 }, ledge], doubloons })).unreachableDoubloons).toEqual([0]);
+    expect(checkReachability(island({ platforms: [{ x: 0, y: 500, w: 800, h: 100 }, ledge, wall], doubloons })).problems).toEqual([]);
+  });
+
+  it('needs a spawn in open air that does not land on spikes', () => {
+    expect(checkReachability(island({ spawnPoint: { x: 40, y: 480 } })).problems[0]).toBe('spawnPoint (40, 480) is inside platforms[0]');
+    expect(checkReachability(island({ spikes: [{ x: 20, y: 480, w: 80 }] })).problems[0]).toBe('spawnPoint (40, 468) drops straight onto spikes[0]');
+    expect(checkReachability(island({ spikes: [{ x: 200, y: 480, w: 80 }] })).problems).toEqual([]);
+  });
+});
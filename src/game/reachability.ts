@@ -0,0 +1,365 @@
+import { LevelData, CharacterType, EntityType } from "../types";
+import {
+  SCALE, GRAVITY, JUMP_VELOCITY, MOVE_SPEED, MOVE_ACCEL, FRICTION, AIR_FRICTION, MAX_FALL_SPEED,
+  WALL_JUMP_VELOCITY_X, WALL_JUMP_VELOCITY_Y, DASH_SPEED, DASH_DURATION, DASH_END_DAMPING
+} from "./physics";
+import { fixedMul } from "./determinism";
+import { getBaseSize, createLevelEntities } from "./levelState";
+import { buildTileBodies, TileRect } from "./tiles";
+
+const LATEST_DASH = 60; // frames into an arc worth trying a dash at
+const MAX_ARC_FRAMES = 600;
+
+// Tables only depend on how far there is to fall, which most levels share
+const tableCache = new Map<string, ReachTable>();
+
+export interface ReachabilityReport {
+  reachableDoubloons: number[]; // indexes into level.doubloons
+  unreachableDoubloons: number[];
+  goalReachable: boolean;
+  problems: string[]; // one sentence per problem, empty when the level can be finished
+}
+
+type Launch = 'jump' | 'wallJump' | 'fall';
+type Range = [number, number];
+
+// Horizontal offsets from the launch point the player can be at, at one height
+interface Span {
+  near: number;
+  far: number;
+}
+
+/**
+ * Every point the player can pass through after one kind of launch - a running jump,
+ * a kick off a wall, or dropping from rest - over all the ways of steering and dashing
+ * in the air. Indexed by feet height relative to the launch, in whole pixels.
+ */
+interface ReachTable {
+  top: number; // height of the first entry (negative is up)
+  land: Span[]; // falling through this height, so able to land on something there
+  pass: Span[]; // at this height at any point
+}
+
+// Where the player can set off from, and the table of where that gets them
+interface Origin {
+  table: ReachTable;
+  x: Range; // player's left edge
+  y: Range; // player's feet
+  away: 1 | -1; // the direction the table's offsets point in
+}
+
+// Somewhere to stand: the top of a box, a slope, or everywhere a moving platform goes
+interface Surface {
+  x: Range;
+  y: Range;
+  reached: boolean;
+}
+
+// A side of a solid box to wall-slide on and jump off
+interface Wall {
+  x: number; // player's left edge while touching it
+  away: 1 | -1;
+  y: Range; // feet heights where the player touches it
+  highest: number | null; // highest feet height the player has grabbed it at
+}
+
+// The ground speed holding a direction settles at
+function getRunSpeed(): number {
+  let speed = 0;
+  for (;;) {
+    const next = fixedMul(Math.min(MOVE_SPEED, speed + MOVE_ACCEL), FRICTION);
+    if (next === speed) return speed;
+    speed = next;
+  }
+}
+
+// Follows updatePlayer's order of dash, steering, jump and gravity, in scaled units
+function traceArc(launch: Launch, steer: 1 | -1, dashAt: number | null, maxDrop: number): { x: number; y: number }[] {
+  let vx = launch === 'jump' ? getRunSpeed() : 0;
+  let vy = 0;
+  let x = 0;
+  let y = 0;
+  let grounded = launch === 'jump';
+  let dashTimer = 0;
+  const points = [{ x: 0, y: 0 }];
+
+  for (let frame = 0; y <= maxDrop * SCALE && frame < MAX_ARC_FRAMES; frame++) {
+    if (frame === dashAt) {
+      dashTimer = DASH_DURATION;
+      vx = steer * DASH_SPEED;
+      vy = 0;
+    }
+    if (dashTimer > 0) {
+      dashTimer--;
+      if (dashTimer === 0) vx = fixedMul(vx, DASH_END_DAMPING);
+    }
+    const dashing = dashTimer > 0;
+
+    if (!dashing) {
+      vx = Math.max(-MOVE_SPEED, Math.min(MOVE_SPEED, vx + steer * MOVE_ACCEL));
+      vx = fixedMul(vx, grounded ? FRICTION : AIR_FRICTION);
+      if (Math.abs(vx) < 10) vx = 0;
+    }
+
+    if (frame === 0 && launch === 'jump') {
+      vy = JUMP_VELOCITY;
+    } else if (frame === 0 && launch === 'wallJump') {
+      vy = WALL_JUMP_VELOCITY_Y;
+      vx = WALL_JUMP_VELOCITY_X;
+    }
+
+    if (!dashing) vy = Math.min(vy + GRAVITY, MAX_FALL_SPEED);
+
+    x += vx;
+    y += vy;
+    grounded = false;
+    points.push({ x: x / SCALE, y: y / SCALE });
+  }
+  return points;
+}
+
+/**
+ * How high a plain running jump (no dash or wall) lifts the player's feet, in pixels.
+ */
+export function getJumpHeight(): number {
+  return -Math.min(...traceArc('jump', 1, null, 0).map(p => p.y));
+}
+
+/**
+ * How far a plain running jump carries the player before they come down through a
+ * height `rise` pixels above where they took off (negative for lower down), or 0 if
+ * the jump doesn't get that high.
+ */
+export function getJumpDistance(rise: number): number {
+  const arc = traceArc('jump', 1, null, Math.max(0, -rise));
+  for (let i = arc.length - 1; i > 0; i--) {
+    if (arc[i].y > arc[i - 1].y && arc[i - 1].y <= -rise && arc[i].y >= -rise) {
+      return Math.floor(arc[i].x);
+    }
+  }
+  return 0;
+}
+
+function buildReachTable(launch: Launch, maxDrop: number): ReachTable {
+  const key = `${launch}:${maxDrop}`;
+  const cached = tableCache.get(key);
+  if (cached) return cached;
+
+  const arcs: { x: number; y: number }[][] = [];
+  // A jump or drop can go either way, so one direction is enough; off a wall,
+  // steering back towards it matters as much as steering away
+  const steers: (1 | -1)[] = launch === 'wallJump' ? [1, -1] : [1];
+  for (const steer of steers) {
+    arcs.push(traceArc(launch, steer, null, maxDrop));
+    for (let dashAt = 0; dashAt <= LATEST_DASH; dashAt++) {
+      arcs.push(traceArc(launch, steer, dashAt, maxDrop));
+    }
+  }
+
+  const top = Math.floor(Math.min(...arcs.flatMap(arc => arc.map(p => p.y))));
+  const size = Math.ceil(maxDrop) - top + 1;
+  const empty = (): Span[] => Array.from({ length: size }, () => ({ near: Infinity, far: -Infinity }));
+  const table: ReachTable = { top, land: empty(), pass: empty() };
+
+  const widen = (spans: Span[], height: number, near: number, far: number) => {
+    const span = spans[height - top];
+    if (!span) return;
+    // The wall is in the way of going back past it
+    if (launch === 'wallJump') {
+      near = Math.max(0, near);
+      far = Math.max(0, far);
+    } else {
+      far = Math.max(Math.abs(near), Math.abs(far));
+      near = -far;
+    }
+    span.near = Math.min(span.near, near);
+    span.far = Math.max(span.far, far);
+  };
+
+  widen(table.pass, 0, 0, 0);
+  for (const arc of arcs) {
+    for (let i = 1; i < arc.length; i++) {
+      const from = arc[i - 1];
+      const to = arc[i];
+      const near = Math.min(from.x, to.x);
+      const far = Math.max(from.x, to.x);
+      for (let height = Math.ceil(Math.min(from.y, to.y)); height <= Math.floor(Math.max(from.y, to.y)); height++) {
+        widen(table.pass, height, near, far);
+        if (to.y > from.y) widen(table.land, height, near, far);
+      }
+    }
+  }
+  tableCache.set(key, table);
+  return table;
+}
+
+/**
+ * The highest (smallest) feet height in `targetY` that `origin` reaches while its left
+ * edge is somewhere in `targetX`, or null if it never gets there.
+ */
+function findReach(origin: Origin, kind: 'land' | 'pass', targetX: Range, targetY: Range): number | null {
+  const { table } = origin;
+  const first = Math.max(targetY[0] - origin.y[1], table.top);
+  const last = Math.min(targetY[1] - origin.y[0], table.top + table.land.length - 1);
+
+  for (let height = first; height <= last; height++) {
+    const span = table[kind][height - table.top];
+    if (span.near > span.far) continue;
+    const reach: Range = origin.away === 1
+      ? [origin.x[0] + span.near, origin.x[1] + span.far]
+      : [origin.x[0] - span.far, origin.x[1] - span.near];
+    if (reach[0] <= targetX[1] && reach[1] >= targetX[0]) {
+      return Math.max(targetY[0], origin.y[0] + height);
+    }
+  }
+  return null;
+}
+
+/**
+ * Parts of each box's top edge with nothing solid sitting on them
+ */
+function getOpenTops(boxes: TileRect[], solids: TileRect[]): { x: Range; y: number }[] {
+  const tops: { x: Range; y: number }[] = [];
+  for (const box of boxes) {
+    let open: Range[] = [[box.x, box.x + box.w]];
+    for (const other of solids) {
+      if (other === box || other.y >= box.y || other.y + other.h < box.y) continue;
+      open = open.flatMap(([left, right]): Range[] => {
+        if (other.x >= right || other.x + other.w <= left) return [[left, right]];
+        const pieces: Range[] = [];
+        if (other.x > left) pieces.push([left, other.x]);
+        if (other.x + other.w < right) pieces.push([other.x + other.w, right]);
+        return pieces;
+      });
+    }
+    tops.push(...open.map(x => ({ x, y: box.y })));
+  }
+  return tops;
+}
+
+/**
+ * Works out which doubloons and whether the treasure can be reached from the spawn,
+ * using the same movement constants as the physics: running jumps, wall jumps and a
+ * dash at any point in the air. It only looks at where the player can get to, not at
+ * what's in the way, so a level it reports problems for certainly can't be finished,
+ * while one it passes could still have a route blocked by a ceiling.
+ */
+export function checkReachability(level: LevelData, characterType: CharacterType = CharacterType.PIRATE): ReachabilityReport {
+  const size = getBaseSize(characterType);
+  const tiles = level.tiles ? buildTileBodies(level.tiles) : { solids: [], slopes: [], oneWays: [] };
+  const solids: TileRect[] = [...level.platforms, ...tiles.solids];
+  const problems = checkSpawnPoint(level, solids, [...solids, ...tiles.oneWays, ...(level.movingPlatforms || [])], size);
+
+  const maxDrop = level.height + size.height;
+  const tables = {
+    jump: buildReachTable('jump', maxDrop),
+    wallJump: buildReachTable('wallJump', maxDrop),
+    fall: buildReachTable('fall', maxDrop)
+  };
+
+  // Standing anywhere the player overlaps the top, even hanging off the edge
+  const standOn = (x: Range, y: Range): Surface => ({ x: [x[0] - size.width + 1, x[1] - 1], y, reached: false });
+  const surfaces: Surface[] = [
+    ...getOpenTops(solids, solids).map(top => standOn(top.x, [top.y, top.y])),
+    ...tiles.oneWays.map(plank => standOn([plank.x, plank.x + plank.w], [plank.y, plank.y])),
+    ...tiles.slopes.map(corners => {
+      const xs = corners.map(c => c.x);
+      const ys = corners.map(c => c.y);
+      return standOn([Math.min(...xs), Math.max(...xs)], [Math.min(...ys), Math.max(...ys)]);
+    }),
+    ...(level.movingPlatforms || []).map(mp => {
+      const moveX = Math.abs(mp.moveX || 0);
+      const moveY = Math.abs(mp.moveY || 0);
+      return standOn([mp.x - moveX, mp.x + mp.w + moveX], [mp.y - moveY, mp.y + moveY]);
+    })
+  ];
+
+  const walls: Wall[] = solids.flatMap((box): Wall[] => {
+    const y: Range = [box.y + 1, box.y + box.h + size.height - 1];
+    return [
+      { x: box.x - size.width, away: -1, y, highest: null },
+      { x: box.x + box.w, away: 1, y, highest: null }
+    ];
+  });
+
+  const entities = createLevelEntities(level);
+  const goal = entities.find(e => e.type === EntityType.GOAL)!;
+  const doubloons = entities.filter(e => e.type === EntityType.DOUBLOON);
+  const touched = new Set<typeof goal>();
+
+  const queue: Origin[] = [{
+    table: tables.fall,
+    x: [level.spawnPoint.x, level.spawnPoint.x],
+    y: [level.spawnPoint.y + size.height, level.spawnPoint.y + size.height],
+    away: 1
+  }];
+
+  while (queue.length > 0) {
+    const origin = queue.shift()!;
+
+    for (const item of [goal, ...doubloons]) {
+      if (touched.has(item)) continue;
+      const left = item.position.x / SCALE;
+      const top = item.position.y / SCALE;
+      const x: Range = [left - size.width + 1, left + item.width - 1];
+      const y: Range = [top + 1, top + item.height + size.height - 1];
+      if (findReach(origin, 'pass', x, y) !== null) touched.add(item);
+    }
+
+    for (const surface of surfaces) {
+      if (surface.reached || findReach(origin, 'land', surface.x, surface.y) === null) continue;
+      surface.reached = true;
+      queue.push({ table: tables.jump, x: surface.x, y: surface.y, away: 1 });
+    }
+
+    for (const wall of walls) {
+      const grab = findReach(origin, 'pass', [wall.x, wall.x], wall.y);
+      if (grab === null || (wall.highest !== null && grab >= wall.highest)) continue;
+      // Sliding down, the player can kick off anywhere below where they grabbed it
+      wall.highest = grab;
+      queue.push({ table: tables.wallJump, x: [wall.x, wall.x], y: [grab, wall.y[1]], away: wall.away });
+    }
+  }
+
+  const reachableDoubloons: number[] = [];
+  const unreachableDoubloons: number[] = [];
+  doubloons.forEach((doubloon, i) => {
+    if (touched.has(doubloon)) {
+      reachableDoubloons.push(i);
+    } else {
+      unreachableDoubloons.push(i);
+      problems.push(`doubloons[${i}] at (${level.doubloons[i].x}, ${level.doubloons[i].y}) can't be reached`);
+    }
+  });
+
+  const goalReachable = touched.has(goal);
+  if (!goalReachable) {
+    problems.push(`the treasure at (${level.goalPosition.x}, ${level.goalPosition.y}) can't be reached`);
+  }
+  const required = level.requiredDoubloons ?? 0;
+  if (reachableDoubloons.length < required) {
+    problems.push(`only ${reachableDoubloons.length} doubloons can be reached but the treasure needs ${required}`);
+  }
+
+  return { reachableDoubloons, unreachableDoubloons, goalReachable, problems };
+}
+
+// The player has to appear in open air, and not fall straight onto spikes
+function checkSpawnPoint(level: LevelData, solids: TileRect[], floors: TileRect[], size: { width: number; height: number }): string[] {
+  const { x, y } = level.spawnPoint;
+  const feet = y + size.height;
+  const overlapsX = (box: { x: number; w: number }) => box.x < x + size.width && box.x + box.w > x;
+
+  const inside = solids.findIndex(box => overlapsX(box) && box.y < feet && box.y + box.h > y);
+  if (inside >= 0) {
+    const what = inside < level.platforms.length ? `platforms[${inside}]` : 'a solid tile';
+    return [`spawnPoint (${x}, ${y}) is inside ${what}`];
+  }
+
+  const floor = Math.min(...floors.filter(box => overlapsX(box) && box.y >= feet).map(box => box.y));
+  const spikes = (level.spikes || []).findIndex(spike => overlapsX(spike) && spike.y + 20 > y && spike.y < floor);
+  if (spikes >= 0) {
+    return [`spawnPoint (${x}, ${y}) drops straight onto spikes[${spikes}]`];
+  }
+  return [];
+}
@@ -1,8 +1,16 @@
 import * as PIXI from 'pixi.js';
-import { GameState, EntityType, EnemyType, LevelData, Entity, CharacterType, PlayerState } from '../types';
+import { GameState, EntityType, EnemyType, LevelData, Entity, CharacterType, PlayerState, GameEvent, GameEventType, TileLayer, TileShape } from '../types';
 import { PhysicsEngine } from './physics';
+import { MAX_HEALTH, getBaseSize } from './levelState';
+import { FIXED_ONE } from './determinism';
+import { NetworkOverlayStats } from './netStats';
+import { isRaceStarted } from './race';
+import { getTile, getSlopeCorners, ONE_WAY_THICKNESS } from './tiles';
+import { VOYAGE_LEVEL_ID } from './levels';
 
 const SCALE = 100;
+const GHOST_ALPHA = 0.35;
+const RACE_INDICATOR_MARGIN = 24; // pixels from the screen edge for off-screen racer arrows
 
 // ===============================================
 // PARTICLE SYSTEM
@@ -461,15 +469,26 @@ class ScreenEffects {
 export class GameRenderer {
   private app: PIXI.Application;
   private playerSprites: Map<string, PIXI.Container>;
+  private ghostSprite: PIXI.Container | null = null;
   private entitySprites: Map<string, PIXI.Graphics>;
+  private raisedCheckpoints: Set<string> = new Set();
+  private goalLockText: PIXI.Text | null = null;
   private obstacleGraphics: PIXI.Graphics;
   private movingPlatformGraphics: PIXI.Graphics;
   private backgroundGraphics: PIXI.Graphics;
   private uiContainer: PIXI.Container;
   private pauseMenu: PIXI.Container | null = null;
   private messageText: PIXI.Text | null = null;
+  private networkOverlay: PIXI.Text | null = null;
+  private networkOverlayVisible = false;
+  private raceCountdownText: PIXI.Text | null = null;
+  private voyageText: PIXI.Text | null = null;
+  private raceIndicators: PIXI.Graphics | null = null;
+  private hearts: PIXI.Graphics[] = [];
+  private shownHealth = -1;
   private physics: PhysicsEngine | null = null;
   private camera: { x: number; y: number } = { x: 0, y: 0 };
+  private freeCameraFocus: { x: number; y: number } | null = null;
   private worldContainer: PIXI.Container;
   
   // Visual Effects Systems
@@ -492,9 +511,6 @@ export class GameRenderer {
   private ambientTimer = 0;
   private wavePhase = 0;
   
-  // Cached entity positions for particle effects
-  private lastEntityPositions: Map<string, { x: number; y: number; active: boolean }> = new Map();
-  
   // Track if renderer has been initialized
   private initialized = false;
 
@@ -582,11 +598,18 @@ export class GameRenderer {
       this.worldContainer.removeChild(sprite);
     });
     this.playerSprites.clear();
+    this.renderGhost(null);
     
     this.entitySprites.forEach((sprite) => {
       this.worldContainer.removeChild(sprite);
     });
     this.entitySprites.clear();
+    this.raisedCheckpoints.clear();
+
+    if (this.goalLockText) {
+      this.worldContainer.removeChild(this.goalLockText);
+      this.goalLockText = null;
+    }
     
     this.obstacleGraphics.clear();
     this.backgroundGraphics.clear();
@@ -625,14 +648,70 @@ export class GameRenderer {
       );
       this.obstacleGraphics.fill();
     });
+
+    if (level?.tiles) {
+      this.drawTiles(level.tiles);
+    }
+  }
+
+  private drawTiles(layer: TileLayer) {
+    const size = layer.tileSize;
+    const g = this.obstacleGraphics;
+
+    layer.rows.forEach((ids, row) => {
+      ids.forEach((_, column) => {
+        const tile = getTile(layer, column, row);
+        if (!tile) return;
+        const x = column * size;
+        const y = row * size;
+
+        switch (tile.shape) {
+          case TileShape.SOLID: {
+            g.fill(tile.color);
+            g.rect(x, y, size, size);
+            g.fill();
+            // Darker top edge where the tile is walked on
+            if (getTile(layer, column, row - 1)?.shape !== TileShape.SOLID) {
+              g.fill({ color: 0x000000, alpha: 0.25 });
+              g.rect(x, y, size, 4);
+              g.fill();
+            }
+            break;
+          }
+          case TileShape.SLOPE_UP_RIGHT:
+          case TileShape.SLOPE_UP_LEFT: {
+            const [a, b, c] = getSlopeCorners(tile.shape, x, y, size);
+            g.fill(tile.color);
+            g.moveTo(a.x, a.y);
+            g.lineTo(b.x, b.y);
+            g.lineTo(c.x, c.y);
+            g.closePath();
+            g.fill();
+            break;
+          }
+          case TileShape.ONE_WAY: {
+            // A deck plank on two thin posts
+            g.fill(tile.color);
+            g.rect(x, y, size, ONE_WAY_THICKNESS);
+            g.fill();
+            g.fill({ color: 0x000000, alpha: 0.25 });
+            g.rect(x, y + ONE_WAY_THICKNESS - 2, size, 2);
+            g.rect(x + 4, y + ONE_WAY_THICKNESS, 3, size / 3);
+            g.rect(x + size - 7, y + ONE_WAY_THICKNESS, 3, size / 3);
+            g.fill();
+            break;
+          }
+        }
+      });
+    });
   }
 
   private renderMovingPlatforms() {
     if (!this.physics) return;
     const movingPlatforms = this.physics.getMovingPlatforms();
+    this.movingPlatformGraphics.clear();
     if (movingPlatforms.length === 0) return;
 
-    this.movingPlatformGraphics.clear();
     for (const mp of movingPlatforms) {
       const x = mp.box.pos.x / SCALE;
       const y = mp.box.pos.y / SCALE;
@@ -682,9 +761,35 @@ export class GameRenderer {
     nameText.x = 10;
     nameText.y = 10;
     this.uiContainer.addChild(nameText);
+
+    // Hearts HUD, redrawn when health changes
+    this.hearts = [];
+    this.shownHealth = -1;
+    for (let i = 0; i < MAX_HEALTH; i++) {
+      const heart = new PIXI.Graphics();
+      heart.x = 10 + i * 30;
+      heart.y = 45;
+      this.uiContainer.addChild(heart);
+      this.hearts.push(heart);
+    }
+  }
+
+  private updateHearts(health: number) {
+    if (health === this.shownHealth) return;
+    this.shownHealth = health;
+
+    this.hearts.forEach((heart, i) => {
+      const full = i < health;
+      heart.clear();
+      heart.circle(6, 6, 6);
+      heart.circle(18, 6, 6);
+      heart.poly([0.5, 8, 23.5, 8, 12, 22]);
+      heart.fill(full ? 0xE74C3C : 0x333333);
+      heart.stroke({ color: full ? 0x8B0000 : 0x000000, width: 2 });
+    });
   }
 
-  public showPauseMenu(onResume: () => void, onRestart: () => void, onReturnToMenu: () => void) {
+  public showPauseMenu(onResume: () => void, onRestart: () => void, onReturnToMenu: () => void, onSaveReplay?: () => void) {
     if (this.pauseMenu) return;
     
     this.pauseMenu = new PIXI.Container();
@@ -726,6 +831,15 @@ export class GameRenderer {
     this.pauseMenu.addChild(restartBtn);
     this.pauseMenu.addChild(menuBtn);
     
+    if (onSaveReplay) {
+      // Saving doesn't leave the menu, so re-open it after the button hides it
+      const saveBtn = this.createButton('Save Replay', 400, 460, buttonStyle, () => {
+        onSaveReplay();
+        this.showPauseMenu(onResume, onRestart, onReturnToMenu, onSaveReplay);
+      });
+      this.pauseMenu.addChild(saveBtn);
+    }
+    
     this.app.stage.addChild(this.pauseMenu);
   }
 
@@ -794,6 +908,162 @@ export class GameRenderer {
     }
   }
 
+  /**
+   * Race countdown and clock, plus an arrow at the screen edge for each racer out of view.
+   * Call after render() so the camera is up to date.
+   */
+  public renderRaceHud(state: GameState, localPlayerId: string) {
+    const race = state.race;
+    if (!race) return;
+
+    if (!this.raceCountdownText) {
+      this.raceCountdownText = new PIXI.Text({
+        text: '',
+        style: {
+          fontFamily: 'Arial',
+          fontSize: 28,
+          fill: 0xFFD700,
+          stroke: { color: 0x000000, width: 4 },
+          align: 'center'
+        }
+      });
+      this.raceCountdownText.anchor.set(0.5, 0);
+      this.raceCountdownText.x = 400;
+      this.raceCountdownText.y = 10;
+    }
+    if (!this.raceIndicators) {
+      this.raceIndicators = new PIXI.Graphics();
+    }
+    // setupUI clears the UI layer between levels
+    if (this.raceIndicators.parent !== this.uiContainer) this.uiContainer.addChild(this.raceIndicators);
+    if (this.raceCountdownText.parent !== this.uiContainer) this.uiContainer.addChild(this.raceCountdownText);
+
+    const framesToGo = race.startFrame - state.frame;
+    if (!isRaceStarted(state)) {
+      this.raceCountdownText.text = String(Math.ceil(framesToGo / 60));
+      this.raceCountdownText.style.fontSize = 96;
+      this.raceCountdownText.y = 220;
+    } else if (framesToGo > -60) {
+      this.raceCountdownText.text = 'GO!';
+      this.raceCountdownText.style.fontSize = 96;
+      this.raceCountdownText.y = 220;
+    } else {
+      const finish = race.finishFrames[localPlayerId];
+      const frames = (finish ?? state.frame) - race.startFrame;
+      this.raceCountdownText.text = `⏱ ${(frames / 60).toFixed(2)}s`;
+      this.raceCountdownText.style.fontSize = 28;
+      this.raceCountdownText.y = 10;
+    }
+
+    const g = this.raceIndicators;
+    g.clear();
+    state.players.forEach((player, id) => {
+      if (id === localPlayerId || id in race.finishFrames) return;
+
+      const x = player.position.x / SCALE + player.width / 2 - this.camera.x;
+      const y = player.position.y / SCALE + player.height / 2 - this.camera.y;
+      if (x >= 0 && x <= 800 && y >= 0 && y <= 600) return;
+
+      // Pin the arrow to the screen edge, pointing at the racer
+      const ex = Math.max(RACE_INDICATOR_MARGIN, Math.min(x, 800 - RACE_INDICATOR_MARGIN));
+      const ey = Math.max(RACE_INDICATOR_MARGIN, Math.min(y, 600 - RACE_INDICATOR_MARGIN));
+      const angle = Math.atan2(y - ey, x - ex);
+      const tip = { x: ex + Math.cos(angle) * 14, y: ey + Math.sin(angle) * 14 };
+      const left = { x: ex + Math.cos(angle + 2.5) * 10, y: ey + Math.sin(angle + 2.5) * 10 };
+      const right = { x: ex + Math.cos(angle - 2.5) * 10, y: ey + Math.sin(angle - 2.5) * 10 };
+
+      g.circle(ex, ey, 9);
+      g.fill(player.color);
+      g.stroke({ color: 0x000000, width: 2 });
+      g.poly([tip.x, tip.y, left.x, left.y, right.x, right.y]);
+      g.fill(player.color);
+      g.stroke({ color: 0x000000, width: 2 });
+    });
+  }
+
+  /**
+   * Distance sailed so far on an endless voyage, and the furthest anyone's got on its seed.
+   */
+  public renderVoyageHud(metres: number, best: number) {
+    if (!this.voyageText) {
+      this.voyageText = new PIXI.Text({
+        text: '',
+        style: {
+          fontFamily: 'Arial',
+          fontSize: 28,
+          fill: 0xFFD700,
+          stroke: { color: 0x000000, width: 4 },
+          align: 'center'
+        }
+      });
+      this.voyageText.anchor.set(0.5, 0);
+      this.voyageText.x = 400;
+      this.voyageText.y = 10;
+    }
+    // setupUI clears the UI layer between levels
+    if (this.voyageText.parent !== this.uiContainer) this.uiContainer.addChild(this.voyageText);
+
+    this.voyageText.text = best > 0 ? `🧭 ${metres} m   (best ${Math.max(best, metres)} m)` : `🧭 ${metres} m`;
+  }
+
+  public toggleNetworkOverlay() {
+    this.networkOverlayVisible = !this.networkOverlayVisible;
+    if (!this.networkOverlayVisible && this.networkOverlay) {
+      this.uiContainer.removeChild(this.networkOverlay);
+      this.networkOverlay = null;
+    }
+  }
+
+  /**
+   * Network diagnostics in the top right corner. A desync forces it open - that's a bug,
+   * not bad weather, and nobody should miss it.
+   */
+  public updateNetworkOverlay(stats: NetworkOverlayStats) {
+    if (stats.desyncFrame !== null) this.networkOverlayVisible = true;
+    if (!this.networkOverlayVisible) return;
+
+    const ms = (value: number | null) => value === null ? '--' : `${Math.round(value)}ms`;
+    const lead = (frames: number) => frames < 0 ? `${-frames}f late` : `+${frames}f`;
+
+    const lines = [
+      `RTT ${ms(stats.rtt)}  jitter ${ms(stats.jitter)}`,
+      `Input lead ${lead(stats.inputLead)}`,
+      ...stats.remoteInputLeads.map(r => `  ${r.playerId.slice(0, 8)} ${lead(r.lead)}`),
+      `Corrections ${stats.corrections}`
+    ];
+    if (stats.simulated) {
+      const { latency, jitter, loss } = stats.simulated;
+      lines.push(`Simulating ${latency}ms +${jitter}ms, ${Math.round(loss * 100)}% loss`);
+    }
+    if (stats.desyncFrame !== null) {
+      lines.push(`!! DESYNC at frame ${stats.desyncFrame} !!`);
+    }
+
+    if (!this.networkOverlay) {
+      this.networkOverlay = new PIXI.Text({
+        text: '',
+        style: {
+          fontFamily: 'monospace',
+          fontSize: 13,
+          fill: 0xFFFFFF,
+          stroke: { color: 0x000000, width: 3 },
+          align: 'right'
+        }
+      });
+      this.networkOverlay.anchor.set(1, 0);
+      this.networkOverlay.x = 790;
+      this.networkOverlay.y = 10;
+    }
+    // setupUI clears the UI layer between levels
+    if (this.networkOverlay.parent !== this.uiContainer) {
+      this.uiContainer.addChild(this.networkOverlay);
+    }
+
+    this.networkOverlay.text = lines.join('\n');
+    this.networkOverlay.style.fill = stats.desyncFrame !== null ? 0xFF3030 : 0xFFFFFF;
+    this.networkOverlay.style.fontSize = stats.desyncFrame !== null ? 16 : 13;
+  }
+
   private hideMessage() {
     if (this.messageText) {
       this.uiContainer.removeChild(this.messageText);
@@ -801,6 +1071,19 @@ export class GameRenderer {
     }
   }
 
+  /**
+   * Centre the camera on a world point (in pixels) instead of following a player, e.g.
+   * for spectators. Pass null to follow again.
+   */
+  public setFreeCamera(focus: { x: number; y: number } | null) {
+    this.freeCameraFocus = focus;
+  }
+
+  // World point (in pixels) at the middle of the screen
+  public getCameraCenter(): { x: number; y: number } {
+    return { x: this.camera.x + 400, y: this.camera.y + 300 };
+  }
+
   public render(state: GameState, localPlayerId: string) {
     const localPlayer = state.players.get(localPlayerId);
     
@@ -811,15 +1094,17 @@ export class GameRenderer {
     // Update screen effects
     const shakeOffset = this.screenEffects.updateShake();
     
-    // Update camera to follow local player
-    if (localPlayer && this.physics) {
+    // Update camera to follow local player (or wherever a free camera points)
+    const focus = this.freeCameraFocus
+      ?? (localPlayer ? { x: localPlayer.position.x / SCALE, y: localPlayer.position.y / SCALE } : null);
+    if (focus && this.physics) {
       const level = this.physics.getCurrentLevel();
-      const targetX = (localPlayer.position.x / SCALE) - 400;
-      const targetY = (localPlayer.position.y / SCALE) - 300;
+      const targetX = focus.x - 400;
+      const targetY = focus.y - 300;
       
       // Clamp camera to level bounds
       if (level) {
-        this.camera.x = Math.max(0, Math.min(targetX, level.width - 800));
+        this.camera.x = Math.max(this.physics.getLevelLeft(), Math.min(targetX, level.width - 800));
         this.camera.y = Math.max(0, Math.min(targetY, level.height - 600));
       } else {
         this.camera.x = Math.max(0, targetX);
@@ -831,6 +1116,10 @@ export class GameRenderer {
       this.worldContainer.y = -this.camera.y + shakeOffset.y;
     }
 
+    if (localPlayer) {
+      this.updateHearts(localPlayer.health);
+    }
+
     // Render moving platforms
     this.renderMovingPlatforms();
 
@@ -859,10 +1148,9 @@ export class GameRenderer {
       }
       const animState = this.playerAnimState.get(id)!;
 
-      // Update position
-      if (sprite.pivot.x === 0 && sprite.pivot.y === 0) {
-        sprite.pivot.set(player.width / 2, player.height / 2);
-      }
+      // Update position - the sprite is drawn at normal size, so pivot on the unscaled center
+      const baseSize = getBaseSize(player.characterType);
+      sprite.pivot.set(baseSize.width / 2, baseSize.height / 2);
       
       const playerX = (player.position.x / SCALE) + (player.width / 2);
       const playerY = (player.position.y / SCALE) + (player.height / 2);
@@ -963,6 +1251,15 @@ export class GameRenderer {
         sprite.alpha = 1;
       }
 
+      // Flash while invulnerable after a hit
+      if (player.invulnerableTimer > 0 && Math.floor(player.invulnerableTimer / 4) % 2 === 0) {
+        sprite.alpha = 0.25;
+      }
+
+      // Coconut size-up
+      sprite.scale.x *= player.sizeModifier / FIXED_ONE;
+      sprite.scale.y *= player.sizeModifier / FIXED_ONE;
+
       // Update animation state for next frame
       animState.wasGrounded = player.isGrounded;
       animState.lastVelocityY = player.velocity.y / SCALE;
@@ -978,13 +1275,48 @@ export class GameRenderer {
     }
 
     // Render Entities with effects
-    this.renderEntities(state);
+    this.renderEntities(state, localPlayerId);
+    this.renderGoalLock(state, localPlayerId);
     
     // Update and render particles
     this.particles.update();
     this.particles.render();
   }
 
+  /**
+   * Draw the best-run ghost (or remove it when null). The ghost is purely visual:
+   * it lives in its own simulation, so it never touches this world's entities.
+   */
+  public renderGhost(ghost: PlayerState | null) {
+    if (!ghost) {
+      if (this.ghostSprite) {
+        this.worldContainer.removeChild(this.ghostSprite);
+        this.ghostSprite = null;
+      }
+      return;
+    }
+
+    if (!this.ghostSprite) {
+      this.ghostSprite = this.createPlayerSprite(ghost.color, ghost.characterType);
+      this.ghostSprite.alpha = GHOST_ALPHA;
+      // Behind the live players
+      this.worldContainer.addChildAt(this.ghostSprite, this.worldContainer.getChildIndex(this.movingPlatformGraphics) + 1);
+    }
+
+    this.ghostSprite.x = (ghost.position.x / SCALE) + (ghost.width / 2);
+    this.ghostSprite.y = (ghost.position.y / SCALE) + (ghost.height / 2);
+    const baseSize = getBaseSize(ghost.characterType);
+    const sizeScale = ghost.sizeModifier / FIXED_ONE;
+    this.ghostSprite.pivot.set(baseSize.width / 2, baseSize.height / 2);
+    this.ghostSprite.scale.set((ghost.facingRight ? 1 : -1) * sizeScale, sizeScale);
+
+    const swordArm = this.ghostSprite.getChildByName('swordArm') as PIXI.Container;
+    if (swordArm) {
+      swordArm.visible = ghost.hasSword;
+      swordArm.rotation = ghost.isAttacking ? -0.5 + (1 - ghost.attackFrame / 25) * 1.8 : -0.3;
+    }
+  }
+
   // Trigger screen shake (call this when player takes damage or enemy is defeated)
   public triggerShake(intensity: number = 8) {
     this.screenEffects.shake(intensity);
@@ -1000,6 +1332,68 @@ export class GameRenderer {
     this.screenEffects.shake(4);
   }
 
+  // React to simulation events from the latest physics step
+  public handleEvents(events: GameEvent[]) {
+    for (const event of events) {
+      const { x, y } = event.position;
+      switch (event.type) {
+        case GameEventType.ENEMY_DEFEATED:
+          this.emitDefeatEffect(x, y, this.getEnemyColor(event.enemyType));
+          break;
+        case GameEventType.DOUBLOON_COLLECTED:
+          this.particles.emitCoinBurst(x, y);
+          break;
+        case GameEventType.SWORD_COLLECTED:
+          this.particles.emitSparkle(x, y, 20, 0xFFD700);
+          this.screenEffects.shake(6);
+          break;
+        case GameEventType.PLAYER_HIT:
+          this.screenEffects.shake(10);
+          break;
+        case GameEventType.CHECKPOINT_REACHED:
+          this.particles.emitSparkle(x, y - 20, 15, 0xFFD700);
+          break;
+        case GameEventType.PLAYER_RESPAWNED:
+          this.particles.emitSparkle(x, y, 12, 0xFFFFFF);
+          break;
+      }
+    }
+  }
+
+  // "x/N" over the goal until the crew has the doubloons to open it
+  private renderGoalLock(state: GameState, localPlayerId: string) {
+    const required = this.physics ? this.physics.getRequiredDoubloons() : 0;
+    const goal = state.entities.find(e => e.type === EntityType.GOAL);
+    const player = state.players.get(localPlayerId);
+    const collected = !this.physics ? 0
+      : player ? this.physics.getGoalDoubloons(state, player) : this.physics.getCrewDoubloons(state);
+
+    if (!goal || required === 0 || collected >= required) {
+      if (this.goalLockText) this.goalLockText.visible = false;
+      return;
+    }
+
+    if (!this.goalLockText) {
+      this.goalLockText = new PIXI.Text({
+        text: '',
+        style: {
+          fontFamily: 'Arial',
+          fontSize: 16,
+          fontWeight: 'bold',
+          fill: 0xFFD700,
+          stroke: { color: 0x000000, width: 3 }
+        }
+      });
+      this.goalLockText.anchor.set(0.5, 1);
+      this.worldContainer.addChild(this.goalLockText);
+    }
+
+    this.goalLockText.visible = true;
+    this.goalLockText.text = `🔒 ${collected}/${required}`;
+    this.goalLockText.x = goal.position.x / SCALE + goal.width / 2;
+    this.goalLockText.y = goal.position.y / SCALE - 6 + Math.sin(this.ambientTimer * 0.05) * 2;
+  }
+
   private emitAmbientParticles() {
     if (!this.physics) return;
     const level = this.physics.getCurrentLevel();
@@ -1025,42 +1419,14 @@ export class GameRenderer {
     }
   }
 
-  private renderEntities(state: GameState) {
-    // Track entity state changes for particle effects
-    for (const entity of state.entities) {
-      const lastPos = this.lastEntityPositions.get(entity.id);
-      const wasActive = lastPos?.active ?? true;
-      
-      // Detect enemy defeat
-      if (entity.type === EntityType.ENEMY && wasActive && !entity.active) {
-        const color = this.getEnemyColor(entity.enemyType);
-        this.emitDefeatEffect(entity.position.x + entity.width / 2, entity.position.y + entity.height / 2, color);
-      }
-      
-      // Detect doubloon collection
-      if (entity.type === EntityType.DOUBLOON && wasActive && !entity.active) {
-        this.particles.emitCoinBurst(entity.position.x + entity.width / 2, entity.position.y + entity.height / 2);
-      }
-      
-      // Detect sword collection
-      if (entity.type === EntityType.SWORD_CHEST && !lastPos && entity.collected) {
-        // First frame of collection
-        this.particles.emitSparkle(entity.position.x + entity.width / 2, entity.position.y, 20, 0xFFD700);
-        this.screenEffects.shake(6);
-      }
-      
-      // Update tracking
-      this.lastEntityPositions.set(entity.id, {
-        x: entity.position.x,
-        y: entity.position.y,
-        active: entity.active
-      });
-    }
-    
+  private renderEntities(state: GameState, localPlayerId: string) {
+    // In a race, pickups the followed racer already has are gone for them
+    const takenHere = (entity: Entity) => !!entity.takenBy?.includes(localPlayerId);
+
     // Clean up old entity sprites
     for (const [id, sprite] of this.entitySprites) {
       const entity = state.entities.find(e => e.id === id);
-      if (!entity || !entity.active || entity.collected) {
+      if (!entity || !entity.active || takenHere(entity) || (entity.collected && entity.type !== EntityType.CHECKPOINT)) {
         this.worldContainer.removeChild(sprite);
         this.entitySprites.delete(id);
       }
@@ -1069,8 +1435,18 @@ export class GameRenderer {
     // Render active entities
     for (const entity of state.entities) {
       // Skip inactive entities, but allow collected SWORD_CHEST to show opened state
-      if (!entity.active) continue;
-      if (entity.collected && entity.type !== EntityType.SWORD_CHEST) continue;
+      if (!entity.active || takenHere(entity)) continue;
+      if (entity.collected && entity.type !== EntityType.SWORD_CHEST && entity.type !== EntityType.CHECKPOINT) continue;
+
+      // Redraw a checkpoint flag once when it's raised
+      if (entity.type === EntityType.CHECKPOINT && entity.collected && !this.raisedCheckpoints.has(entity.id)) {
+        const lowered = this.entitySprites.get(entity.id);
+        if (lowered) {
+          this.worldContainer.removeChild(lowered);
+          this.entitySprites.delete(entity.id);
+        }
+        this.raisedCheckpoints.add(entity.id);
+      }
 
       let sprite = this.entitySprites.get(entity.id);
       const spriteKey = entity.collected ? `${entity.id}_opened` : entity.id;
@@ -1098,21 +1474,23 @@ export class GameRenderer {
       }
 
       if (sprite) {
-        sprite.x = entity.position.x;
-        sprite.y = entity.position.y;
+        const x = entity.position.x / SCALE;
+        const y = entity.position.y / SCALE;
+        sprite.x = x;
+        sprite.y = y;
         
         // === ENHANCED ENTITY ANIMATIONS ===
         
         // Doubloon bobbing and sparkle
         if (entity.type === EntityType.DOUBLOON) {
-          sprite.y += Math.sin(this.ambientTimer * 0.08 + entity.position.x * 0.1) * 3;
+          sprite.y += Math.sin(this.ambientTimer * 0.08 + x * 0.1) * 3;
           sprite.rotation = Math.sin(this.ambientTimer * 0.05) * 0.1;
           
           // Occasional sparkle
-          if (this.ambientTimer % 60 === Math.floor(entity.position.x) % 60) {
+          if (this.ambientTimer % 60 === Math.floor(x) % 60) {
             this.particles.emitSparkle(
-              entity.position.x + entity.width / 2,
-              entity.position.y + entity.height / 2,
+              x + entity.width / 2,
+              y + entity.height / 2,
               3,
               0xFFD700
             );
@@ -1127,8 +1505,8 @@ export class GameRenderer {
           // Golden particles around chest
           if (this.ambientTimer % 40 === 0) {
             this.particles.emitSparkle(
-              entity.position.x + entity.width / 2 + (Math.random() - 0.5) * 20,
-              entity.position.y + entity.height / 2,
+              x + entity.width / 2 + (Math.random() - 0.5) * 20,
+              y + entity.height / 2,
               2,
               0xFFD700
             );
@@ -1139,8 +1517,8 @@ export class GameRenderer {
         if (entity.type === EntityType.GOAL) {
           if (this.ambientTimer % 45 === 0) {
             this.particles.emitSparkle(
-              entity.position.x + entity.width / 2,
-              entity.position.y + entity.height / 2,
+              x + entity.width / 2,
+              y + entity.height / 2,
               4,
               0xFFD700
             );
@@ -1156,7 +1534,7 @@ export class GameRenderer {
         // Cannonball trail
         if (entity.type === EntityType.CANNONBALL) {
           if (this.ambientTimer % 3 === 0) {
-            this.particles.emitDust(entity.position.x + entity.width / 2, entity.position.y + entity.height / 2, 2);
+            this.particles.emitDust(x + entity.width / 2, y + entity.height / 2, 2);
           }
         }
         
@@ -1166,7 +1544,7 @@ export class GameRenderer {
           // Adjust pivot for proper flipping
           if (sprite.scale.x === -1) {
             sprite.pivot.x = entity.width;
-            sprite.x = entity.position.x + entity.width;
+            sprite.x = x + entity.width;
           } else {
             sprite.pivot.x = 0;
           }
@@ -1183,14 +1561,14 @@ export class GameRenderer {
             sprite = this.createEntitySprite(entity.type, entity.width, entity.height, entity);
             this.entitySprites.set(entity.id, sprite);
             this.worldContainer.addChild(sprite);
-            sprite.x = entity.position.x;
-            sprite.y = entity.position.y;
+            sprite.x = x;
+            sprite.y = y;
             
             // Emit ghost phase particles
             if (!entity.isVisible) {
               this.particles.emitSparkle(
-                entity.position.x + entity.width / 2,
-                entity.position.y + entity.height / 2,
+                x + entity.width / 2,
+                y + entity.height / 2,
                 6,
                 0x00FFFF
               );
@@ -1337,6 +1715,63 @@ export class GameRenderer {
         g.fill();
         break;
 
+      case EntityType.RUM:
+        // Rum bottle
+        g.fill(0x5D3A1A);
+        g.roundRect(0, height * 0.3, width, height * 0.7, 4);
+        g.fill();
+        g.fill(0x5D3A1A);
+        g.rect(width * 0.3, 0, width * 0.4, height * 0.35);
+        g.fill();
+        // Cork and label
+        g.fill(0xC8A165);
+        g.rect(width * 0.3, 0, width * 0.4, height * 0.1);
+        g.fill();
+        g.fill(0xF5DEB3);
+        g.rect(2, height * 0.5, width - 4, height * 0.25);
+        g.fill();
+        g.fill(0xC0392B);
+        g.circle(width / 2, height * 0.625, 3);
+        g.fill();
+        break;
+
+      case EntityType.COCONUT:
+        // Hairy brown coconut
+        g.fill(0x6B4226);
+        g.circle(width / 2, height / 2, width / 2);
+        g.fill();
+        g.fill(0x8B5A2B);
+        g.circle(width * 0.4, height * 0.4, width / 4);
+        g.fill();
+        // Three "eyes"
+        g.fill(0x2B1A0E);
+        g.circle(width * 0.4, height * 0.3, 2);
+        g.circle(width * 0.6, height * 0.3, 2);
+        g.circle(width * 0.5, height * 0.45, 2);
+        g.fill();
+        break;
+
+      case EntityType.CHECKPOINT: {
+        // Flag pole - skull flag hangs low until raised, then flies at the top
+        const raised = !!entity?.collected;
+        const flagY = raised ? 2 : height - 26;
+
+        g.fill(0x5D4037);
+        g.rect(width / 2 - 2, 0, 4, height);
+        g.fill();
+        g.fill(0xDAA520);
+        g.circle(width / 2, 2, 3);
+        g.fill();
+
+        g.fill(raised ? 0x1a1a1a : 0x555555);
+        g.rect(width / 2 + 2, flagY, 20, 14);
+        g.fill();
+        g.fill(raised ? 0xFFFFFF : 0x999999);
+        g.circle(width / 2 + 12, flagY + 6, 3);
+        g.fill();
+        break;
+      }
+
       default:
         g.fill(0xFF00FF);
         g.rect(0, 0, width, height);
@@ -2696,7 +3131,7 @@ export class GameRenderer {
     }
     
     // Add animated water layer for applicable levels
-    if (level.id === 1 || level.id === 4) {
+    if (level.id === 1 || level.id === 4 || level.id === VOYAGE_LEVEL_ID) {
       this.drawAnimatedWater(g, level);
     }
   }
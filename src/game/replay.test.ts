@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation } from './simulation';
+import { InputRecorder, encodeInputs, decodeInputs, serializeReplay, parseReplay } from './replay';
+import { hashState } from './determinism';
+import { CAMPAIGN_LEVELS } from './levels';
+import { CharacterType, Input } from '../types';
+
+function input(frame: number, buttons: Partial<Omit<Input, 'frame'>> = {}): Input {
+  return { frame, left: false, right: false, jump: false, action: false, dash: false, down: false, ...buttons };
+}
+
+describe('input encoding', () => {
+  it('round-trips an input stream', () => {
+    const inputs = [
+      ...Array.from({ length: 90 }, (_, i) => input(i)),
+      ...Array.from({ length: 12 }, (_, i) => input(90 + i, { right: true })),
+      input(102, { right: true, jump: true, dash: true })
+    ];
+
+    expect(encodeInputs(inputs)).toBe('0:2i,2:c,m:1');
+    expect(decodeInputs(encodeInputs(inputs))).toEqual(inputs);
+  });
+
+  it('rejects corrupt runs', () => {
+    expect(() => decodeInputs('0:2i,zz')).toThrow(/Corrupt/);
+    expect(() => decodeInputs('0:0')).toThrow(/Corrupt/);
+  });
+});
+
+describe('replay files', () => {
+  const recorder = new InputRecorder(1, CharacterType.OCTOPUS);
+  recorder.record(input(0, { jump: true }));
+  const text = serializeReplay(recorder.toReplay());
+
+  it('parses what it serializes', () => {
+    const replay = parseReplay(text);
+    expect(replay.levelId).toBe(1);
+    expect(replay.characterType).toBe(CharacterType.OCTOPUS);
+    expect(replay.inputs).toEqual([input(0, { jump: true })]);
+  });
+
+  it('gives readable errors for bad files', () => {
+    expect(() => parseReplay('not json')).toThrow(/invalid JSON/);
+    expect(() => parseReplay(text.replace('"v":1', '"v":99'))).toThrow(/version 99/);
+    expect(() => parseReplay(text.replace('"frames":1', '"frames":5'))).toThrow(/truncated/);
+  });
+});
+
+describe('playback', () => {
+  it('re-simulating a recorded run reproduces the exact same state', () => {
+    const level = CAMPAIGN_LEVELS[0];
+    const live = new Simulation(level);
+    const recorder = new InputRecorder(level.id, CharacterType.PIRATE);
+
+    for (let frame = 0; frame < 600 && !live.isFinished(); frame++) {
+      const buttons = input(frame, {
+        right: frame % 200 < 150,
+        jump: frame % 45 < 10,
+        dash: frame % 120 === 60
+      });
+      recorder.record(buttons);
+      live.step(buttons);
+    }
+
+    const replay = parseReplay(serializeReplay(recorder.toReplay()));
+    const playback = new Simulation(level);
+    for (const recorded of replay.inputs) {
+      playback.step(recorded);
+    }
+
+    expect(playback.state.frame).toBe(live.state.frame);
+    expect(hashState(playback.state)).toBe(hashState(live.state));
+  });
+});
@@ -0,0 +1,187 @@
+import { Input, CharacterType } from "../types";
+
+export const REPLAY_VERSION = 1;
+
+export interface Replay {
+  version: number;
+  levelId: number;
+  characterType: CharacterType;
+  inputs: Input[];
+}
+
+// On-disk form: inputs are run-length encoded button bitmasks
+interface ReplayFile {
+  v: number;
+  level: number;
+  character: CharacterType;
+  frames: number;
+  inputs: string;
+}
+
+const BUTTONS: (keyof Omit<Input, 'frame'>)[] = ['left', 'right', 'jump', 'action', 'dash', 'down'];
+
+/**
+ * Pack an input's buttons into a bitmask (bit order follows BUTTONS).
+ */
+export function inputToMask(input: Input): number {
+  let mask = 0;
+  BUTTONS.forEach((button, bit) => {
+    if (input[button]) mask |= 1 << bit;
+  });
+  return mask;
+}
+
+export function maskToInput(mask: number, frame: number): Input {
+  const input = { frame } as Input;
+  BUTTONS.forEach((button, bit) => {
+    input[button] = (mask & (1 << bit)) !== 0;
+  });
+  return input;
+}
+
+/**
+ * Run-length encode an input stream as "mask:count" pairs in base 36,
+ * e.g. 90 idle frames then 12 frames holding right -> "0:2i,2:c".
+ */
+export function encodeInputs(inputs: Input[]): string {
+  const runs: string[] = [];
+  let i = 0;
+  while (i < inputs.length) {
+    const mask = inputToMask(inputs[i]);
+    let count = 1;
+    while (i + count < inputs.length && inputToMask(inputs[i + count]) === mask) count++;
+    runs.push(`${mask.toString(36)}:${count.toString(36)}`);
+    i += count;
+  }
+  return runs.join(',');
+}
+
+export function decodeInputs(encoded: string): Input[] {
+  const inputs: Input[] = [];
+  if (!encoded) return inputs;
+
+  for (const run of encoded.split(',')) {
+    const [maskText, countText] = run.split(':');
+    const mask = parseInt(maskText, 36);
+    const count = parseInt(countText, 36);
+    if (isNaN(mask) || isNaN(count) || count <= 0 || mask >= 1 << BUTTONS.length) {
+      throw new Error(`Corrupt input run "${run}"`);
+    }
+    for (let n = 0; n < count; n++) {
+      inputs.push(maskToInput(mask, inputs.length));
+    }
+  }
+  return inputs;
+}
+
+export function serializeReplay(replay: Replay): string {
+  const file: ReplayFile = {
+    v: replay.version,
+    level: replay.levelId,
+    character: replay.characterType,
+    frames: replay.inputs.length,
+    inputs: encodeInputs(replay.inputs)
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse a replay file, throwing a readable error if it isn't one we can play.
+ */
+export function parseReplay(text: string): Replay {
+  let file: ReplayFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a replay file (invalid JSON)');
+  }
+
+  if (!file || typeof file !== 'object' || typeof file.inputs !== 'string') {
+    throw new Error('Not a replay file (missing inputs)');
+  }
+  if (file.v !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${file.v} (expected ${REPLAY_VERSION})`);
+  }
+  if (typeof file.level !== 'number') {
+    throw new Error('Replay is missing its level id');
+  }
+  if (!Object.values(CharacterType).includes(file.character) || file.character === CharacterType.LOCKED) {
+    throw new Error(`Unknown character "${file.character}"`);
+  }
+
+  const inputs = decodeInputs(file.inputs);
+  if (inputs.length !== file.frames) {
+    throw new Error(`Replay is truncated (${inputs.length} of ${file.frames} frames)`);
+  }
+
+  return {
+    version: file.v,
+    levelId: file.level,
+    characterType: file.character,
+    inputs
+  };
+}
+
+/**
+ * Collects every Input fed to the simulation during one level attempt.
+ */
+export class InputRecorder {
+  private inputs: Input[] = [];
+
+  constructor(private levelId: number, private characterType: CharacterType) {}
+
+  public record(input: Input) {
+    this.inputs.push({ ...input, frame: this.inputs.length });
+  }
+
+  public getFrameCount(): number {
+    return this.inputs.length;
+  }
+
+  public toReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      levelId: this.levelId,
+      characterType: this.characterType,
+      inputs: [...this.inputs]
+    };
+  }
+}
+
+const LAST_REPLAY_KEY = 'piratical_last_replay';
+
+/**
+ * Remember the most recent completed run so it can be watched from the menu.
+ */
+export function saveLastReplay(replay: Replay) {
+  try {
+    localStorage.setItem(LAST_REPLAY_KEY, serializeReplay(replay));
+  } catch (e) {
+    console.warn('Failed to save replay:', e);
+  }
+}
+
+export function loadLastReplay(): Replay | null {
+  try {
+    const saved = localStorage.getItem(LAST_REPLAY_KEY);
+    if (saved) {
+      return parseReplay(saved);
+    }
+  } catch (e) {
+    console.warn('Failed to load replay:', e);
+  }
+  return null;
+}
+
+/**
+ * Offer a replay to the player as a file download.
+ */
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `piratical-level${replay.levelId}-${replay.inputs.length}f.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,221 @@
+import { GameRenderer } from "./renderer";
+import { Simulation, SIMULATION_PLAYER_ID } from "./simulation";
+import { FrameSnapshot } from "./rollback";
+import { Replay, downloadReplay } from "./replay";
+import { getLevelById } from "./levels";
+import { getSoundManager } from "../sound";
+
+const FPS = 60;
+const FRAME_TIME = 1000 / FPS;
+const KEYFRAME_INTERVAL = 120; // frames between saved snapshots for fast scrubbing
+const SEEK_STEP = 5 * FPS; // arrow keys jump 5 seconds
+const SPEEDS = [0.5, 1, 2];
+
+/**
+ * Plays a recorded Replay back through the same Simulation path as live play.
+ * Supports pause, scrubbing (via keyframe snapshots) and 0.5x / 1x / 2x speed.
+ */
+export class ReplayViewer {
+  private renderer: GameRenderer;
+  private replay: Replay;
+  private sim: Simulation;
+  private keyframes: Map<number, FrameSnapshot> = new Map();
+
+  private running = false;
+  private playing = true;
+  private speed = 1;
+  private overlay: HTMLDivElement | null = null;
+
+  private onReturnToMenu: (() => void) | null = null;
+
+  constructor(renderer: GameRenderer, replay: Replay, onReturnToMenu?: () => void) {
+    const level = getLevelById(replay.levelId);
+    if (!level) {
+      throw new Error(`Replay is for level ${replay.levelId}, which doesn't exist`);
+    }
+
+    this.renderer = renderer;
+    this.replay = replay;
+    this.onReturnToMenu = onReturnToMenu || null;
+    this.sim = new Simulation(level, { characterType: replay.characterType });
+
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  public async start() {
+    await this.renderer.initialize(document.body);
+
+    const level = this.sim.physics.getCurrentLevel()!;
+    this.renderer.setPhysics(this.sim.physics);
+    this.renderer.clearWorld();
+    this.renderer.showEffects();
+    this.renderer.drawMap(this.sim.physics);
+    this.renderer.setupUI(`${level.name} - Replay`);
+
+    this.createOverlay();
+    window.addEventListener('keydown', this.handleKeyDown);
+
+    this.running = true;
+    this.loop();
+  }
+
+  public stop() {
+    this.running = false;
+    window.removeEventListener('keydown', this.handleKeyDown);
+    if (this.overlay && this.overlay.parentNode) {
+      this.overlay.parentNode.removeChild(this.overlay);
+    }
+    this.overlay = null;
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    switch (e.code) {
+      case 'Space':
+        e.preventDefault();
+        this.togglePlaying();
+        break;
+      case 'ArrowLeft':
+        this.seek(this.sim.state.frame - SEEK_STEP);
+        break;
+      case 'ArrowRight':
+        this.seek(this.sim.state.frame + SEEK_STEP);
+        break;
+      case 'Digit1': this.speed = SPEEDS[0]; break;
+      case 'Digit2': this.speed = SPEEDS[1]; break;
+      case 'Digit3': this.speed = SPEEDS[2]; break;
+      case 'KeyS':
+        downloadReplay(this.replay);
+        break;
+      case 'Escape':
+        if (this.onReturnToMenu) {
+          this.stop();
+          this.onReturnToMenu();
+        }
+        break;
+    }
+  }
+
+  private togglePlaying() {
+    // Pressing play at the end restarts from the beginning
+    if (!this.playing && this.sim.state.frame >= this.replay.inputs.length) {
+      this.seek(0);
+    }
+    this.playing = !this.playing;
+  }
+
+  private lastTime = 0;
+  private accumulator = 0;
+
+  private loop(time: number = 0) {
+    if (!this.running) return;
+
+    const deltaTime = time - this.lastTime;
+    this.lastTime = time;
+
+    if (this.playing) {
+      this.accumulator += deltaTime * this.speed;
+
+      while (this.accumulator >= FRAME_TIME) {
+        this.accumulator -= FRAME_TIME;
+        const events = this.advance();
+        if (!events) {
+          this.playing = false;
+          this.accumulator = 0;
+          break;
+        }
+        getSoundManager().handleEvents(events);
+        this.renderer.handleEvents(events);
+      }
+    }
+
+    this.renderer.render(this.sim.state, SIMULATION_PLAYER_ID);
+    this.updateOverlay();
+
+    requestAnimationFrame((t) => this.loop(t));
+  }
+
+  /**
+   * Step one recorded frame. Returns null at the end of the recording.
+   */
+  private advance() {
+    const frame = this.sim.state.frame;
+    if (frame >= this.replay.inputs.length) return null;
+
+    if (frame % KEYFRAME_INTERVAL === 0 && !this.keyframes.has(frame)) {
+      this.keyframes.set(frame, this.sim.saveSnapshot());
+    }
+
+    return this.sim.step(this.replay.inputs[frame]);
+  }
+
+  /**
+   * Jump to any frame: restore the nearest earlier keyframe and re-simulate silently.
+   */
+  private seek(target: number) {
+    target = Math.max(0, Math.min(target, this.replay.inputs.length));
+
+    let nearest = -1;
+    for (const frame of this.keyframes.keys()) {
+      if (frame <= target && frame > nearest) nearest = frame;
+    }
+
+    // Playing forward from where we are is cheapest unless a later keyframe is closer
+    const canPlayForward = target >= this.sim.state.frame && nearest <= this.sim.state.frame;
+    if (!canPlayForward && nearest >= 0) {
+      this.sim.restoreSnapshot(this.keyframes.get(nearest)!);
+    }
+
+    while (this.sim.state.frame < target) {
+      this.advance();
+    }
+    this.accumulator = 0;
+  }
+
+  private createOverlay() {
+    const total = this.replay.inputs.length;
+
+    let overlay = document.getElementById('ui-overlay') as HTMLDivElement | null;
+    if (!overlay) {
+      overlay = document.createElement('div');
+      overlay.id = 'ui-overlay';
+      document.body.appendChild(overlay);
+    }
+
+    const controls = document.createElement('div');
+    controls.id = 'replay-controls';
+    controls.style.cssText = "position: absolute; bottom: 10px; left: 50%; transform: translateX(-50%); color: white; font-family: 'Georgia', serif; background: rgba(0,0,0,0.7); padding: 12px 15px; border-radius: 8px; border: 2px solid #ffd700; text-align: center;";
+    controls.innerHTML = `
+      <div style="display: flex; align-items: center; gap: 10px;">
+        <button id="replay-play" style="width: 36px;">⏸</button>
+        <input id="replay-scrub" type="range" min="0" max="${total}" value="0" style="width: 360px;">
+        <span id="replay-time" style="min-width: 110px; color: #ffd700;"></span>
+        <span id="replay-speed" style="min-width: 36px; color: #87ceeb;"></span>
+      </div>
+      <div style="font-size: 11px; margin-top: 6px; color: #888;">Space play/pause · ←/→ 5s · 1/2/3 speed 0.5x/1x/2x · S save file · ESC menu</div>
+    `;
+    overlay.appendChild(controls);
+    this.overlay = controls;
+
+    const playBtn = controls.querySelector('#replay-play') as HTMLButtonElement;
+    playBtn.onclick = () => this.togglePlaying();
+
+    const scrub = controls.querySelector('#replay-scrub') as HTMLInputElement;
+    scrub.oninput = () => {
+      this.playing = false;
+      this.seek(parseInt(scrub.value));
+    };
+  }
+
+  private updateOverlay() {
+    if (!this.overlay) return;
+
+    const frame = this.sim.state.frame;
+    const total = this.replay.inputs.length;
+
+    (this.overlay.querySelector('#replay-scrub') as HTMLInputElement).value = String(frame);
+    (this.overlay.querySelector('#replay-play') as HTMLButtonElement).textContent = this.playing ? '⏸' : '▶';
+    (this.overlay.querySelector('#replay-time') as HTMLSpanElement).textContent =
+      `${(frame / FPS).toFixed(1)}s / ${(total / FPS).toFixed(1)}s`;
+    (this.overlay.querySelector('#replay-speed') as HTMLSpanElement).textContent = `${this.speed}x`;
+  }
+}
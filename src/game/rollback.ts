@@ -0,0 +1,34 @@
+import { GameState, PlayerState, Entity } from "../types";
+import { PhysicsSnapshot } from "./physics";
+
+// Everything needed to put the world back exactly as it was at some frame
+export interface FrameSnapshot {
+  state: GameState;
+  physics: PhysicsSnapshot;
+}
+
+export function cloneGameState(state: GameState): GameState {
+  const players = new Map<string, PlayerState>();
+  state.players.forEach((p, id) => {
+    players.set(id, {
+      ...p,
+      position: { ...p.position },
+      velocity: { ...p.velocity }
+    });
+  });
+
+  const entities: Entity[] = state.entities.map(e => ({
+    ...e,
+    position: { ...e.position },
+    velocity: e.velocity ? { ...e.velocity } : undefined,
+    takenBy: e.takenBy && [...e.takenBy]
+  }));
+
+  return {
+    ...state,
+    players,
+    entities,
+    // Races are updated in place as racers finish
+    race: state.race && structuredClone(state.race)
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { RoomRoster, SessionTable } from './room';
+import { CharacterType } from '../types';
+
+describe('room roster', () => {
+  it('makes the first player host', () => {
+    const roster = new RoomRoster();
+    roster.join('a');
+    roster.join('b');
+    expect(roster.getHost()).toBe('a');
+    expect(roster.isHost('b')).toBe(false);
+  });
+
+  it('hands the host role to the longest-connected player when the host leaves', () => {
+    const roster = new RoomRoster();
+    roster.join('a');
+    roster.join('b');
+    roster.join('c');
+
+    expect(roster.leave('b')).toBeNull();
+    expect(roster.leave('a')).toBe('c');
+    expect(roster.getHost()).toBe('c');
+
+    expect(roster.leave('c')).toBeNull();
+    expect(roster.getHost()).toBeNull();
+  });
+});
+
+describe('lobby', () => {
+  it('turns players away once the room is full', () => {
+    const roster = new RoomRoster(2);
+    expect(roster.join('a', CharacterType.PIRATE)).toBe(true);
+    expect(roster.join('b', CharacterType.OCTOPUS)).toBe(true);
+    expect(roster.join('c', CharacterType.GIRL_PIRATE)).toBe(false);
+    expect(roster.has('c')).toBe(false);
+
+    roster.leave('b');
+    expect(roster.join('c', CharacterType.GIRL_PIRATE)).toBe(true);
+  });
+
+  it('lists characters and can only start when everyone is ready', () => {
+    const roster = new RoomRoster();
+    roster.join('a', CharacterType.PIRATE);
+    roster.join('b', CharacterType.OCTOPUS);
+
+    roster.setReady('a', true);
+    expect(roster.canStart()).toBe(false);
+
+    roster.setReady('b', true);
+    expect(roster.canStart()).toBe(true);
+    expect(roster.canStart(3)).toBe(false);
+    expect(roster.getLobby()).toEqual([
+      { id: 'a', characterType: CharacterType.PIRATE, ready: true, isHost: true, connected: true },
+      { id: 'b', characterType: CharacterType.OCTOPUS, ready: true, isHost: false, connected: true }
+    ]);
+  });
+});
+
+describe('sessions', () => {
+  it('maps a reconnecting session back to its player', () => {
+    const sessions = new SessionTable();
+    sessions.bind('conn-1', 'conn-1', 'token-a');
+    expect(sessions.getPlayer('conn-1')).toBe('conn-1');
+
+    // The socket drops and comes back with a new connection id
+    expect(sessions.unbind('conn-1')).toBe('conn-1');
+    expect(sessions.getPlayer('conn-1')).toBeNull();
+    expect(sessions.resume('token-a')).toBe('conn-1');
+
+    expect(sessions.bind('conn-2', 'conn-1', 'token-a')).toBeNull();
+    expect(sessions.getPlayer('conn-2')).toBe('conn-1');
+    expect(sessions.getConnection('conn-1')).toBe('conn-2');
+    expect(sessions.resume('token-b')).toBeNull();
+  });
+
+  it('replaces a connection that has not closed yet and ignores its late close', () => {
+    const sessions = new SessionTable();
+    sessions.bind('conn-1', 'p', 'token');
+    expect(sessions.bind('conn-2', 'p', 'token')).toBe('conn-1');
+
+    expect(sessions.unbind('conn-1')).toBeNull();
+    expect(sessions.getPlayer('conn-2')).toBe('p');
+  });
+
+  it('tells a copied token that is still connected apart from a reconnect', () => {
+    const sessions = new SessionTable();
+    sessions.bind('conn-1', 'p', 'token');
+    expect(sessions.isConnected('token')).toBe(true);
+    expect(sessions.isConnected('token-b')).toBe(false);
+
+    sessions.unbind('conn-1');
+    expect(sessions.isConnected('token')).toBe(false);
+    expect(sessions.resume('token')).toBe('p');
+  });
+
+  it('forgets players who are gone for good', () => {
+    const sessions = new SessionTable();
+    sessions.bind('conn-1', 'p', 'token');
+    sessions.forget('p');
+
+    expect(sessions.resume('token')).toBeNull();
+    expect(sessions.getPlayer('conn-1')).toBeNull();
+  });
+});
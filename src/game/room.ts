@@ -0,0 +1,170 @@
+import { CharacterType, LobbyPlayer } from "../types";
+
+export const DEFAULT_MAX_PLAYERS = 4;
+export const RECONNECT_GRACE_MS = 10000; // how long a dropped player's seat is held for them
+
+interface RoomMember {
+  id: string;
+  characterType: CharacterType;
+  ready: boolean;
+  connected: boolean;
+}
+
+/**
+ * Who is in a multiplayer room, in the order they joined, and which of them is host.
+ * The host is the longest-connected player; when they leave the next in line takes over.
+ */
+export class RoomRoster {
+  private members: RoomMember[] = [];
+  private hostId: string | null = null;
+
+  constructor(private maxPlayers: number = DEFAULT_MAX_PLAYERS) {}
+
+  /**
+   * Add a player. Returns false if the room is already full.
+   */
+  public join(playerId: string, characterType: CharacterType = CharacterType.PIRATE): boolean {
+    if (this.has(playerId)) return true;
+    if (this.isFull()) return false;
+
+    this.members.push({ id: playerId, characterType, ready: false, connected: true });
+    if (this.hostId === null) {
+      this.hostId = playerId;
+    }
+    return true;
+  }
+
+  /**
+   * Remove a player. Returns the new host's id if the host left and someone took over,
+   * otherwise null.
+   */
+  public leave(playerId: string): string | null {
+    this.members = this.members.filter(m => m.id !== playerId);
+    if (this.hostId !== playerId) return null;
+
+    this.hostId = this.members[0]?.id ?? null;
+    return this.hostId;
+  }
+
+  public has(playerId: string): boolean {
+    return this.members.some(m => m.id === playerId);
+  }
+
+  public isFull(): boolean {
+    return this.members.length >= this.maxPlayers;
+  }
+
+  public getMaxPlayers(): number {
+    return this.maxPlayers;
+  }
+
+  public getHost(): string | null {
+    return this.hostId;
+  }
+
+  public isHost(playerId: string): boolean {
+    return this.hostId === playerId;
+  }
+
+  public setReady(playerId: string, ready: boolean) {
+    const member = this.members.find(m => m.id === playerId);
+    if (member) member.ready = ready;
+  }
+
+  // A dropped player keeps their seat (and host role) while they try to reconnect
+  public setConnected(playerId: string, connected: boolean) {
+    const member = this.members.find(m => m.id === playerId);
+    if (member) member.connected = connected;
+  }
+
+  // Back in the lobby after a level, everyone readies up again
+  public resetReady() {
+    this.members.forEach(m => m.ready = false);
+  }
+
+  /**
+   * The host can start once everyone in the room is ready (and there are enough of them).
+   */
+  public canStart(minPlayers: number = 1): boolean {
+    return this.members.length >= minPlayers && this.members.every(m => m.ready);
+  }
+
+  public getLobby(): LobbyPlayer[] {
+    return this.members.map(m => ({
+      ...m,
+      isHost: m.id === this.hostId
+    }));
+  }
+}
+
+/**
+ * Which connection plays as which player. Connection ids change every time a socket
+ * reconnects, so clients also send a session token; a token we've seen before maps the
+ * new connection back onto its old player.
+ */
+export class SessionTable {
+  private sessions: Map<string, string> = new Map(); // token -> player id
+  private players: Map<string, string> = new Map(); // connection id -> player id
+  private liveConnections: Map<string, string> = new Map(); // player id -> connection id
+
+  /**
+   * The player a session token belongs to, if it has played here before.
+   */
+  public resume(token: string): string | null {
+    return this.sessions.get(token) ?? null;
+  }
+
+  /**
+   * Whether a session token's player is connected right now. Another connection with
+   * the same token is a copy of it (e.g. a duplicated browser tab), not a reconnect.
+   */
+  public isConnected(token: string): boolean {
+    const playerId = this.sessions.get(token);
+    return playerId !== undefined && this.liveConnections.has(playerId);
+  }
+
+  /**
+   * Make a connection the player's live one. Returns the connection it replaces, if the
+   * old one hadn't closed yet.
+   */
+  public bind(connectionId: string, playerId: string, token: string | null): string | null {
+    const previous = this.liveConnections.get(playerId) ?? null;
+    if (previous) this.players.delete(previous);
+
+    this.players.set(connectionId, playerId);
+    this.liveConnections.set(playerId, connectionId);
+    if (token) this.sessions.set(token, playerId);
+    return previous;
+  }
+
+  public getPlayer(connectionId: string): string | null {
+    return this.players.get(connectionId) ?? null;
+  }
+
+  public getConnection(playerId: string): string | null {
+    return this.liveConnections.get(playerId) ?? null;
+  }
+
+  /**
+   * A connection closed. Returns its player if it was their live connection - one that
+   * was already replaced by a reconnect returns null.
+   */
+  public unbind(connectionId: string): string | null {
+    const playerId = this.players.get(connectionId);
+    if (playerId === undefined) return null;
+
+    this.players.delete(connectionId);
+    this.liveConnections.delete(playerId);
+    return playerId;
+  }
+
+  // The player is gone for good - their token starts a new player next time
+  public forget(playerId: string) {
+    for (const [token, id] of this.sessions) {
+      if (id === playerId) this.sessions.delete(token);
+    }
+    const connectionId = this.liveConnections.get(playerId);
+    if (connectionId) this.players.delete(connectionId);
+    this.liveConnections.delete(playerId);
+  }
+}
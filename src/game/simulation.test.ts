@@ -0,0 +1,430 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation, SIMULATION_PLAYER_ID } from './simulation';
+import { CAMPAIGN_LEVELS } from './levels';
+import { registerEnemyBehavior, getEnemyBehavior } from './enemies';
+import { LevelData, EnemyType, EntityType, GameEvent, GameEventType, CharacterType } from '../types';
+
+const SCALE = 100;
+const GROUND_Y = 500;
+const PLAYER_SIZE = 32;
+
+// Flat test island: solid ground across the whole level, goal far away
+function makeLevel(overrides: Partial<LevelData> = {}): LevelData {
+  return {
+    id: 999,
+    name: 'Test Island',
+    width: 2000,
+    height: 600,
+    platforms: [{ x: 0, y: GROUND_Y, w: 2000, h: 100 }],
+    spawnPoint: { x: 100, y: GROUND_Y - PLAYER_SIZE },
+    goalPosition: { x: 1900, y: GROUND_Y - 40 },
+    doubloons: [],
+    ...overrides
+  };
+}
+
+function countEvents(events: GameEvent[], type: GameEventType): number {
+  return events.filter(e => e.type === type).length;
+}
+
+// Let the player settle onto the ground before the scripted part starts
+function landed(level: LevelData): Simulation {
+  const sim = new Simulation(level);
+  sim.run(10);
+  expect(sim.getPlayer().isGrounded).toBe(true);
+  return sim;
+}
+
+describe('jumping', () => {
+  it('jumps off the ground and lands again', () => {
+    const sim = landed(makeLevel());
+    const groundY = sim.getPlayer().position.y;
+
+    const events = sim.run(1, [{ from: 0, to: 1000, jump: true }]);
+    expect(countEvents(events, GameEventType.JUMP)).toBe(1);
+    expect(sim.getPlayer().velocity.y).toBeLessThan(0);
+
+    let highest = groundY;
+    for (let i = 0; i < 120; i++) {
+      sim.step();
+      highest = Math.min(highest, sim.getPlayer().position.y);
+    }
+
+    expect(groundY - highest).toBeGreaterThan(100 * SCALE);
+    expect(sim.getPlayer().isGrounded).toBe(true);
+    expect(sim.getPlayer().position.y).toBe(groundY);
+  });
+
+  it('does not auto-repeat while jump is held', () => {
+    const sim = landed(makeLevel());
+    const events = sim.run(180, [{ from: 0, to: 1000, jump: true }]);
+    expect(countEvents(events, GameEventType.JUMP)).toBe(1);
+  });
+});
+
+describe('coyote time', () => {
+  // A ledge that ends at x=300 over a bottomless pit
+  const ledge = makeLevel({
+    platforms: [{ x: 0, y: GROUND_Y, w: 300, h: 100 }],
+    spawnPoint: { x: 240, y: GROUND_Y - PLAYER_SIZE }
+  });
+
+  function walkOffLedge(): Simulation {
+    const sim = landed(ledge);
+    for (let i = 0; i < 120 && sim.getPlayer().isGrounded; i++) {
+      sim.step({ right: true });
+    }
+    expect(sim.getPlayer().isGrounded).toBe(false);
+    return sim;
+  }
+
+  it('allows a jump a few frames after walking off a ledge', () => {
+    const sim = walkOffLedge();
+    sim.step({ right: true });
+    sim.step({ right: true });
+
+    const events = sim.step({ right: true, jump: true });
+    expect(countEvents(events, GameEventType.JUMP)).toBe(1);
+    expect(sim.getPlayer().velocity.y).toBeLessThan(0);
+  });
+
+  it('refuses the jump once coyote time has run out', () => {
+    const sim = walkOffLedge();
+    sim.run(10);
+
+    const events = sim.step({ jump: true });
+    expect(countEvents(events, GameEventType.JUMP)).toBe(0);
+    expect(sim.getPlayer().velocity.y).toBeGreaterThan(0);
+  });
+});
+
+describe('wall jump', () => {
+  it('slides down a wall and kicks off it', () => {
+    const sim = landed(makeLevel({
+      platforms: [
+        { x: 0, y: GROUND_Y, w: 2000, h: 100 },
+        { x: 400, y: 150, w: 40, h: 350 }
+      ],
+      spawnPoint: { x: 400 - PLAYER_SIZE, y: GROUND_Y - PLAYER_SIZE }
+    }));
+
+    sim.step({ right: true, jump: true });
+    for (let i = 0; i < 60 && !sim.getPlayer().wallSliding; i++) {
+      sim.step({ right: true });
+    }
+
+    const player = sim.getPlayer();
+    expect(player.wallSliding).toBe(true);
+    expect(player.wallDirection).toBe(1);
+
+    const events = sim.step({ right: true, jump: true });
+    expect(countEvents(events, GameEventType.JUMP)).toBe(1);
+    expect(player.velocity.x).toBeLessThan(0);
+    expect(player.velocity.y).toBeLessThan(0);
+    expect(player.facingRight).toBe(false);
+  });
+});
+
+describe('dash', () => {
+  const spikeLevel = makeLevel({
+    spikes: [{ x: 350, y: GROUND_Y - 20, w: 10 }],
+    spawnPoint: { x: 300, y: GROUND_Y - PLAYER_SIZE }
+  });
+
+  it('walking into spikes costs health', () => {
+    const sim = landed(spikeLevel);
+    const events = sim.run(30, [{ from: 0, to: 1000, right: true }]);
+    expect(countEvents(events, GameEventType.PLAYER_HIT)).toBe(1);
+    expect(sim.getPlayer().health).toBe(2);
+    expect(sim.state.levelFailed).toBe(false);
+  });
+
+  it('is invulnerable while dashing through spikes', () => {
+    const sim = landed(spikeLevel);
+    const events = sim.run(30, [{ from: 10, to: 11, dash: true }]);
+    expect(sim.state.levelFailed).toBe(false);
+    expect(countEvents(events, GameEventType.PLAYER_HIT)).toBe(0);
+    expect(sim.getPlayer().position.x).toBeGreaterThan(360 * SCALE);
+  });
+});
+
+describe('stomping', () => {
+  it('defeats a crab when landing on it and bounces the player', () => {
+    const sim = new Simulation(makeLevel({
+      enemies: [{ x: 400, y: GROUND_Y - 24, type: EnemyType.CRAB }],
+      spawnPoint: { x: 400, y: GROUND_Y - 24 - PLAYER_SIZE - 5 }
+    }));
+
+    let events: GameEvent[] = [];
+    for (let i = 0; i < 30 && countEvents(events, GameEventType.ENEMY_DEFEATED) === 0; i++) {
+      events = events.concat(sim.step());
+    }
+
+    expect(countEvents(events, GameEventType.ENEMY_DEFEATED)).toBe(1);
+    expect(sim.state.entities.find(e => e.type === EntityType.ENEMY)!.active).toBe(false);
+    expect(sim.getPlayer().velocity.y).toBeLessThan(0);
+    expect(sim.state.levelFailed).toBe(false);
+  });
+
+  it('walking into a crab hurts the player', () => {
+    const sim = new Simulation(makeLevel({
+      enemies: [{ x: 300, y: GROUND_Y - 24, type: EnemyType.CRAB }]
+    }));
+    const events = sim.run(300, [{ from: 0, to: 1000, right: true }]);
+    expect(countEvents(events, GameEventType.PLAYER_HIT)).toBeGreaterThan(0);
+    expect(sim.getPlayer().health).toBeLessThan(3);
+  });
+});
+
+describe('enemies', () => {
+  it('moves a crab by its velocity once per frame', () => {
+    const sim = new Simulation(makeLevel({
+      enemies: [{ x: 1000, y: GROUND_Y - 24, patrolWidth: 200, type: EnemyType.CRAB }]
+    }));
+    const crab = sim.state.entities.find(e => e.type === EntityType.ENEMY)!;
+
+    sim.run(10);
+    expect(crab.position.x).toBe(1000 * SCALE + 10 * crab.velocity!.x);
+  });
+
+  it('keeps every enemy and cannonball on integer positions and velocities', () => {
+    const sim = new Simulation(makeLevel({
+      enemies: [
+        { x: 300, y: GROUND_Y - 24, type: EnemyType.CRAB, patrolWidth: 77 },
+        { x: 500, y: 300, type: EnemyType.SEAGULL, patrolHeight: 45 },
+        { x: 700, y: GROUND_Y - 40, type: EnemyType.SKELETON },
+        { x: 900, y: GROUND_Y - 36, type: EnemyType.CANNON_TURRET, fireRate: 30 },
+        { x: 1100, y: 300, type: EnemyType.JELLYFISH, patrolHeight: 33 },
+        { x: 1300, y: GROUND_Y - 36, type: EnemyType.GHOST }
+      ]
+    }));
+
+    for (let frame = 0; frame < 300; frame++) {
+      sim.step({ right: frame % 90 < 45 });
+      for (const entity of sim.state.entities) {
+        const values = [entity.position.x, entity.position.y, entity.velocity?.x ?? 0, entity.velocity?.y ?? 0];
+        expect(values.every(Number.isInteger), `${entity.id} at frame ${frame}`).toBe(true);
+      }
+    }
+    expect(sim.state.entities.some(e => e.type === EntityType.CANNONBALL)).toBe(true);
+  });
+
+  it('runs behaviors registered for an enemy type', () => {
+    const original = getEnemyBehavior(EnemyType.JELLYFISH)!;
+    registerEnemyBehavior(EnemyType.JELLYFISH, { update: (entity) => { entity.position.y -= SCALE; } });
+    try {
+      const sim = new Simulation(makeLevel({
+        enemies: [{ x: 1000, y: 300, type: EnemyType.JELLYFISH }]
+      }));
+      sim.run(5);
+      expect(sim.state.entities.find(e => e.type === EntityType.ENEMY)!.position.y).toBe(295 * SCALE);
+    } finally {
+      registerEnemyBehavior(EnemyType.JELLYFISH, original);
+    }
+  });
+});
+
+describe('health', () => {
+  const spikeLevel = makeLevel({
+    spikes: [{ x: 300, y: GROUND_Y - 20, w: 40 }],
+    spawnPoint: { x: 200, y: GROUND_Y - PLAYER_SIZE }
+  });
+
+  function hitOnce(): Simulation {
+    const sim = landed(spikeLevel);
+    for (let i = 0; i < 120 && sim.getPlayer().health === 3; i++) {
+      sim.step({ right: true });
+    }
+    expect(sim.getPlayer().health).toBe(2);
+    return sim;
+  }
+
+  it('knocks the player away from the hazard', () => {
+    const sim = hitOnce();
+    const player = sim.getPlayer();
+    expect(player.velocity.x).toBeLessThan(0);
+    expect(player.velocity.y).toBeLessThan(0);
+
+    // Holding toward the spikes does nothing during hitstun
+    sim.run(5, [{ from: 0, to: 1000, right: true }]);
+    expect(sim.getPlayer().velocity.x).toBeLessThan(0);
+  });
+
+  it('is invulnerable for a while after a hit', () => {
+    const sim = hitOnce();
+    expect(sim.getPlayer().invulnerableTimer).toBeGreaterThan(0);
+
+    // Standing in the spikes while flashing doesn't hurt
+    const start = sim.state.frame;
+    const events = sim.run(60, [{ from: start + 15, to: start + 1000, right: true }]);
+    expect(countEvents(events, GameEventType.PLAYER_HIT)).toBe(0);
+    expect(sim.getPlayer().health).toBe(2);
+  });
+
+  it('fails the level when health runs out', () => {
+    const sim = landed(spikeLevel);
+    sim.getPlayer().health = 1;
+    const events = sim.run(120, [{ from: 0, to: 1000, right: true }]);
+    expect(countEvents(events, GameEventType.PLAYER_HIT)).toBe(1);
+    expect(sim.getPlayer().health).toBe(0);
+    expect(sim.state.levelFailed).toBe(true);
+  });
+
+  it('falling out of the world fails the level at full health', () => {
+    const sim = new Simulation(makeLevel({ platforms: [] }));
+    sim.run(300);
+    expect(sim.getPlayer().health).toBe(3);
+    expect(sim.state.levelFailed).toBe(true);
+  });
+});
+
+describe('power-ups', () => {
+  it('a coconut grows the hitbox, keeping the player on the ground', () => {
+    const sim = landed(makeLevel({ coconuts: [{ x: 200, y: GROUND_Y - 24 }] }));
+    sim.run(60, [{ from: 0, to: 1000, right: true }]);
+
+    const player = sim.getPlayer();
+    expect(player.sizeModifier).toBe(1280);
+    expect(player.width).toBe(40);
+    expect(player.height).toBe(40);
+    expect(player.isGrounded).toBe(true);
+    expect(player.position.y + player.height * SCALE).toBe(GROUND_Y * SCALE);
+  });
+
+  it('a hit shrinks a sized-up player before it costs health', () => {
+    const sim = landed(makeLevel({
+      coconuts: [{ x: 150, y: GROUND_Y - 24 }],
+      spikes: [{ x: 300, y: GROUND_Y - 20, w: 40 }]
+    }));
+
+    const events = sim.run(90, [{ from: 0, to: 1000, right: true }]);
+    expect(countEvents(events, GameEventType.PLAYER_HIT)).toBe(1);
+
+    const player = sim.getPlayer();
+    expect(player.sizeModifier).toBe(1024);
+    expect(player.width).toBe(PLAYER_SIZE);
+    expect(player.health).toBe(3);
+  });
+
+  it('rum restores a heart, up to the maximum', () => {
+    const sim = landed(makeLevel({ rum: [{ x: 200, y: GROUND_Y - 28 }, { x: 300, y: GROUND_Y - 28 }] }));
+    sim.getPlayer().health = 2;
+    sim.run(120, [{ from: 0, to: 1000, right: true }]);
+    expect(sim.getPlayer().health).toBe(3);
+    expect(sim.state.entities.filter(e => e.type === EntityType.RUM && e.active)).toHaveLength(0);
+  });
+});
+
+describe('checkpoints', () => {
+  const checkpointLevel = makeLevel({
+    platforms: [
+      { x: 0, y: GROUND_Y, w: 600, h: 100 },
+      { x: 700, y: GROUND_Y, w: 1300, h: 100 }
+    ],
+    checkpoints: [{ x: 300, y: GROUND_Y - 64 }],
+    doubloons: [{ x: 200, y: GROUND_Y - 30 }, { x: 450, y: GROUND_Y - 30 }]
+  });
+
+  function raiseCheckpoint(): Simulation {
+    const sim = landed(checkpointLevel);
+    for (let i = 0; i < 200 && !sim.state.checkpoint; i++) {
+      sim.step({ right: true });
+    }
+    expect(sim.state.checkpoint).toBeDefined();
+    return sim;
+  }
+
+  it('remembers the respawn point and doubloons collected so far', () => {
+    const sim = raiseCheckpoint();
+    const checkpoint = sim.state.checkpoint!;
+    expect(checkpoint.doubloons[SIMULATION_PLAYER_ID]).toBe(1);
+    expect(checkpoint.collectedDoubloons).toHaveLength(1);
+    expect(checkpoint.respawn.y).toBe(GROUND_Y * SCALE);
+  });
+
+  it('respawns at the checkpoint instead of failing the level', () => {
+    const sim = raiseCheckpoint();
+    const checkpoint = sim.state.checkpoint!;
+
+    // Grab the second doubloon, then fall into the gap
+    let events: GameEvent[] = [];
+    for (let i = 0; i < 600 && countEvents(events, GameEventType.PLAYER_RESPAWNED) === 0; i++) {
+      events = events.concat(sim.step({ right: true }));
+    }
+    expect(countEvents(events, GameEventType.DOUBLOON_COLLECTED)).toBe(1);
+    expect(countEvents(events, GameEventType.PLAYER_RESPAWNED)).toBe(1);
+    expect(sim.state.levelFailed).toBe(false);
+
+    const player = sim.getPlayer();
+    expect(player.health).toBe(3);
+    expect(player.doubloons).toBe(1);
+    expect(player.position.x).toBeLessThanOrEqual(checkpoint.respawn.x);
+
+    // The doubloon picked up after the checkpoint is back
+    const doubloons = sim.state.entities.filter(e => e.type === EntityType.DOUBLOON);
+    expect(doubloons.filter(d => d.active)).toHaveLength(1);
+  });
+
+  for (const level of CAMPAIGN_LEVELS) {
+    for (const flag of level.checkpoints || []) {
+      it(`${level.name}: checkpoint at x=${flag.x} is a safe respawn`, () => {
+        const sim = new Simulation(level);
+        const player = sim.getPlayer();
+        player.position.x = (flag.x + 12 - player.width / 2) * SCALE;
+        player.position.y = (flag.y + 64 - player.height) * SCALE;
+
+        const events = sim.run(60);
+        expect(countEvents(events, GameEventType.CHECKPOINT_REACHED)).toBe(1);
+        expect(countEvents(events, GameEventType.PLAYER_HIT)).toBe(0);
+        expect(sim.getPlayer().isGrounded).toBe(true);
+      });
+    }
+  }
+});
+
+describe('goal', () => {
+  it('completes the level when the player reaches the goal', () => {
+    const sim = landed(makeLevel({ goalPosition: { x: 300, y: GROUND_Y - 40 } }));
+    const events = sim.run(300, [{ from: 0, to: 1000, right: true }]);
+    expect(sim.state.levelComplete).toBe(true);
+    expect(countEvents(events, GameEventType.LEVEL_COMPLETE)).toBeGreaterThan(0);
+  });
+
+  it('stays locked until the required doubloons are collected', () => {
+    const locked = makeLevel({ goalPosition: { x: 300, y: GROUND_Y - 40 }, requiredDoubloons: 1 });
+
+    const sim = landed(locked);
+    sim.run(300, [{ from: 0, to: 1000, right: true }]);
+    expect(sim.state.levelComplete).toBe(false);
+
+    const withDoubloon = landed({ ...locked, doubloons: [{ x: 200, y: GROUND_Y - 30 }] });
+    withDoubloon.run(300, [{ from: 0, to: 1000, right: true }]);
+    expect(withDoubloon.state.levelComplete).toBe(true);
+  });
+
+  it('does not complete the level without reaching the goal', () => {
+    const sim = landed(makeLevel());
+    sim.run(120);
+    expect(sim.state.levelComplete).toBe(false);
+  });
+});
+
+describe('characters', () => {
+  it('plays the chosen character at its own size and in its own colour', () => {
+    const pirate = new Simulation(makeLevel()).getPlayer();
+    const octopus = new Simulation(makeLevel(), { characterType: CharacterType.OCTOPUS }).getPlayer();
+    expect(octopus.height).toBeGreaterThan(pirate.height);
+    expect(octopus.color).not.toBe(pirate.color);
+  });
+});
+
+describe('campaign levels', () => {
+  for (const level of CAMPAIGN_LEVELS) {
+    it(`${level.name}: player spawns safely and lands on solid ground`, () => {
+      const sim = new Simulation(level);
+      sim.run(60);
+      expect(sim.state.levelFailed).toBe(false);
+      expect(sim.getPlayer().isGrounded).toBe(true);
+    });
+  }
+});
@@ -0,0 +1,129 @@
+import { PhysicsEngine } from "./physics";
+import { createPlayerState, createLevelEntities, getCharacterColor } from "./levelState";
+import { FrameSnapshot, cloneGameState } from "./rollback";
+import { GameState, Input, LevelData, CharacterType, GameEvent, PlayerState } from "../types";
+
+export const SIMULATION_PLAYER_ID = 'player';
+
+// Buttons held for the frames in [from, to)
+export interface ScriptedInput {
+  from: number;
+  to: number;
+  left?: boolean;
+  right?: boolean;
+  jump?: boolean;
+  action?: boolean;
+  dash?: boolean;
+  down?: boolean;
+}
+
+export interface SimulationOptions {
+  characterType?: CharacterType;
+  hasSword?: boolean;
+}
+
+/**
+ * Headless game runner. Loads a LevelData and steps the real PhysicsEngine (enemy AI
+ * included) with scripted inputs - no renderer, audio or DOM required.
+ */
+export class Simulation {
+  public readonly physics: PhysicsEngine;
+  public state: GameState;
+
+  constructor(level: LevelData, options: SimulationOptions = {}) {
+    this.physics = new PhysicsEngine();
+    this.physics.loadLevel(level);
+
+    this.state = {
+      frame: 0,
+      players: new Map(),
+      entities: createLevelEntities(level),
+      levelComplete: false,
+      levelFailed: false
+    };
+
+    const characterType = options.characterType || CharacterType.PIRATE;
+    this.state.players.set(
+      SIMULATION_PLAYER_ID,
+      createPlayerState(
+        SIMULATION_PLAYER_ID,
+        level.spawnPoint,
+        characterType,
+        getCharacterColor(characterType),
+        options.hasSword || false
+      )
+    );
+  }
+
+  public getPlayer(): PlayerState {
+    return this.state.players.get(SIMULATION_PLAYER_ID)!;
+  }
+
+  public isFinished(): boolean {
+    return !!this.state.levelComplete || !!this.state.levelFailed;
+  }
+
+  public saveSnapshot(): FrameSnapshot {
+    return {
+      state: cloneGameState(this.state),
+      physics: this.physics.saveSnapshot()
+    };
+  }
+
+  public restoreSnapshot(snapshot: FrameSnapshot) {
+    this.state = cloneGameState(snapshot.state);
+    this.physics.restoreSnapshot(snapshot.physics);
+  }
+
+  /**
+   * Step a single frame with the given buttons held.
+   */
+  public step(buttons: Partial<Omit<Input, 'frame'>> = {}): GameEvent[] {
+    const input: Input = {
+      frame: this.state.frame,
+      left: !!buttons.left,
+      right: !!buttons.right,
+      jump: !!buttons.jump,
+      action: !!buttons.action,
+      dash: !!buttons.dash,
+      down: !!buttons.down
+    };
+
+    const inputs = new Map<string, Input>();
+    inputs.set(SIMULATION_PLAYER_ID, input);
+
+    const events = this.physics.step(this.state, inputs);
+
+    this.state.frame++;
+    return events;
+  }
+
+  /**
+   * Step up to `frames` frames following the script (frame numbers are absolute).
+   * Stops early once the level is completed or failed, like the real game loop.
+   */
+  public run(frames: number, script: ScriptedInput[] = []): GameEvent[] {
+    const events: GameEvent[] = [];
+    const end = this.state.frame + frames;
+
+    while (this.state.frame < end && !this.isFinished()) {
+      events.push(...this.step(Simulation.buttonsAt(this.state.frame, script)));
+    }
+
+    return events;
+  }
+
+  private static buttonsAt(frame: number, script: ScriptedInput[]): Partial<Omit<Input, 'frame'>> {
+    const buttons: Partial<Omit<Input, 'frame'>> = {};
+    for (const entry of script) {
+      if (frame < entry.from || frame >= entry.to) continue;
+      if (entry.left) buttons.left = true;
+      if (entry.right) buttons.right = true;
+      if (entry.jump) buttons.jump = true;
+      if (entry.action) buttons.action = true;
+      if (entry.dash) buttons.dash = true;
+      if (entry.down) buttons.down = true;
+    }
+    return buttons;
+  }
+}
@@ -1,13 +1,20 @@
-import { PhysicsEngine } from "./physics";
+import { PhysicsEngine, SCALE } from "./physics";
 import { GameRenderer } from "./renderer";
-import { GameState, Input, EntityType, EnemyType, LevelData, CampaignProgress, CharacterType, Entity } from "../types";
-import { CAMPAIGN_LEVELS, getLevelById, getNextLevel } from "./levels";
+import { GameState, Input, LevelData, CampaignProgress, CharacterType, GameEventType } from "../types";
+import { CAMPAIGN_LEVELS, VOYAGE_LEVEL_ID, getLevelById, getNextLevel } from "./levels";
 import { NavalBattle } from "./navalBattle";
-import { getSoundManager, SoundEffect } from "../sound";
+import { getSoundManager } from "../sound";
+import { createPlayerState, createLevelEntities, getCharacterColor } from "./levelState";
+import { InputRecorder, saveLastReplay, downloadReplay, serializeReplay, parseReplay } from "./replay";
+import { Simulation } from "./simulation";
+import {
+  VoyageStream, createChunkEntities, createVoyageSeed, getVoyageDistance, loadVoyageRecords,
+  saveVoyageRecord
+} from "./voyage";
+import { VoyageResultsScreen } from "../voyageResults";
 
 const FPS = 60;
 const FRAME_TIME = 1000 / FPS;
-const SCALE = 100;
 
 export class SinglePlayerGame {
   private physics: PhysicsEngine;
@@ -24,6 +31,14 @@ export class SinglePlayerGame {
   private levelStartTime = 0;
   private characterType: CharacterType;
   private inNavalBattle = false;
+  private recorder: InputRecorder | null = null;
+  private ghost: Simulation | null = null;
+  private ghostInputs: Input[] = [];
+  private testLevel: LevelData | null = null; // play-testing an editor level - nothing gets saved
+  private voyage: VoyageStream | null = null; // an endless voyage - only its distance record gets saved
+  private voyageMetres = 0; // furthest reached this voyage
+  private voyageBest = 0; // furthest reached on this seed before
+  private voyageResults = new VoyageResultsScreen();
 
   // Input state
   private keys = {
@@ -31,7 +46,8 @@ export class SinglePlayerGame {
     right: false,
     jump: false,
     action: false,
-    dash: false
+    dash: false,
+    down: false
   };
   
   private onReturnToMenu: (() => void) | null = null;
@@ -82,8 +98,12 @@ export class SinglePlayerGame {
         break;
       case 'KeyE': case 'KeyZ': this.keys.action = isDown; break;
       case 'ShiftLeft': case 'ShiftRight': this.keys.dash = isDown; break;
+      case 'ArrowDown': case 'KeyS':
+        this.keys.down = isDown;
+        if (isDown) e.preventDefault();
+        break;
       case 'Escape': 
-        if (isDown) this.togglePause(); 
+        if (isDown && !this.voyageResults.isShown()) this.togglePause(); 
         break;
       case 'KeyR':
         if (isDown && (this.state.levelFailed || this.paused)) {
@@ -119,14 +139,7 @@ export class SinglePlayerGame {
   }
 
   public async start(levelId?: number) {
-    await this.renderer.initialize(document.body);
-    this.renderer.setPhysics(this.physics);
-    
-    window.addEventListener('keydown', this.handleKeyDown);
-    window.addEventListener('keyup', this.handleKeyUp);
-    
-    // Start background music
-    getSoundManager().playBackgroundMusic();
+    await this.attach();
     
     // Initialize naval battle
     this.navalBattle = new NavalBattle(this.renderer.getApp());
@@ -142,6 +155,41 @@ export class SinglePlayerGame {
     });
   }
 
+  /**
+   * Drop straight into a level that isn't part of the campaign - no voyage, ghost or
+   * saved progress. Finishing or quitting hands back to onReturnToMenu.
+   */
+  public async playtest(level: LevelData) {
+    this.testLevel = level;
+    await this.attach();
+    await this.loadLevel(level.id);
+    this.running = true;
+    this.loop();
+  }
+
+  /**
+   * Set off on an endless voyage. Chunks are generated from the seed as the player goes,
+   * and it ends - with a results screen rather than the pause menu - when they do.
+   */
+  public async startVoyage(seed: string) {
+    this.voyage = new VoyageStream(seed);
+    await this.attach();
+    await this.loadLevel(VOYAGE_LEVEL_ID);
+    this.running = true;
+    this.loop();
+  }
+
+  private async attach() {
+    await this.renderer.initialize(document.body);
+    this.renderer.setPhysics(this.physics);
+    
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    
+    // Start background music
+    getSoundManager().playBackgroundMusic();
+  }
+
   private async startNavalBattle(levelName: string, isIntro: boolean, onComplete: () => void) {
     this.inNavalBattle = true;
     this.running = false;
@@ -172,18 +220,21 @@ export class SinglePlayerGame {
     if (this.navalBattle) {
       this.navalBattle.stop();
     }
+    this.voyageResults.hide();
   }
 
   public async loadLevel(levelId: number) {
-    const level = getLevelById(levelId);
+    const level = this.voyage?.begin() || this.testLevel || getLevelById(levelId);
     if (!level) {
       console.error(`Level ${levelId} not found`);
       return;
     }
 
     this.currentLevel = level;
-    this.progress.currentLevel = levelId;
-    this.saveProgress();
+    if (!this.testLevel && !this.voyage) {
+      this.progress.currentLevel = levelId;
+      this.saveProgress();
+    }
 
     // Reset state
     this.state = {
@@ -198,144 +249,14 @@ export class SinglePlayerGame {
     this.physics.loadLevel(level);
 
     // Create player
-    this.state.players.set(this.playerId, {
-      id: this.playerId,
-      position: { x: level.spawnPoint.x * SCALE, y: level.spawnPoint.y * SCALE },
-      velocity: { x: 0, y: 0 },
-      isGrounded: false,
-      facingRight: true,
-      width: 32,
-      height: this.characterType === CharacterType.OCTOPUS ? 40 : 32,
-      color: this.getCharacterColor(),
-      sizeModifier: 1,
-      health: 3,
-      doubloons: 0,
-      jumpHeld: false,
-      isAttacking: false,
-      attackFrame: 0,
-      attackCooldown: 0,
-      hasSword: false,  // Player starts without sword, must collect from chest
-      characterType: this.characterType,
-      coyoteTimer: 0,
-      wallSliding: false,
-      wallDirection: 0,
-      isDashing: false,
-      dashCooldown: 0,
-      dashTimer: 0
-    });
+    this.state.players.set(
+      this.playerId,
+      // Player starts without sword, must collect from chest
+      createPlayerState(this.playerId, level.spawnPoint, this.characterType, getCharacterColor(this.characterType), false)
+    );
 
     // Create entities from level data
-    let entityId = 0;
-
-    // Goal
-    this.state.entities.push({
-      id: `goal_${entityId++}`,
-      type: EntityType.GOAL,
-      position: { x: level.goalPosition.x, y: level.goalPosition.y },
-      width: 40,
-      height: 40,
-      active: true
-    });
-
-    // Doubloons
-    for (const pos of level.doubloons) {
-      this.state.entities.push({
-        id: `doubloon_${entityId++}`,
-        type: EntityType.DOUBLOON,
-        position: { x: pos.x, y: pos.y },
-        width: 20,
-        height: 20,
-        active: true,
-        collected: false
-      });
-    }
-
-    // Enemies
-    if (level.enemies) {
-      for (const enemy of level.enemies) {
-        const enemyType = enemy.type || EnemyType.CRAB;
-        
-        // Determine size based on enemy type
-        let width = 32;
-        let height = 24;
-        let velocityX = 1;
-        
-        switch (enemyType) {
-          case EnemyType.CRAB:
-            width = 32; height = 24; velocityX = 1;
-            break;
-          case EnemyType.SEAGULL:
-            width = 36; height = 20; velocityX = 1.5; // Faster, flying
-            break;
-          case EnemyType.SKELETON:
-            width = 28; height = 40; velocityX = 0.8; // Taller, slower base speed
-            break;
-          case EnemyType.CANNON_TURRET:
-            width = 48; height = 36; velocityX = 0; // Stationary
-            break;
-          case EnemyType.JELLYFISH:
-            width = 28; height = 36; velocityX = 0; // Only moves vertically
-            break;
-          case EnemyType.GHOST:
-            width = 32; height = 36; velocityX = 0.6; // Slow, floaty
-            break;
-        }
-        
-        const newEnemy: Entity = {
-          id: `enemy_${entityId++}`,
-          type: EntityType.ENEMY,
-          enemyType: enemyType,
-          position: { x: enemy.x, y: enemy.y },
-          velocity: { x: velocityX, y: 0 },
-          width,
-          height,
-          active: true,
-          // Store spawn position for patrol bounds
-          spawnX: enemy.x,
-          spawnY: enemy.y,
-          patrolWidth: enemy.patrolWidth || 100,
-          patrolHeight: enemy.patrolHeight || 0,
-          patrolDirection: 1,
-          facingRight: !enemy.facingLeft,
-          // Type-specific properties
-          stateTimer: 0,
-          phase: 0,
-          isVisible: true, // For ghosts
-          isCharging: false, // For skeletons
-          fireRate: enemy.fireRate || 120,
-          lastFired: 0
-        };
-        
-        this.state.entities.push(newEnemy);
-      }
-    }
-
-    // Spikes
-    if (level.spikes) {
-      for (const spike of level.spikes) {
-        this.state.entities.push({
-          id: `spike_${entityId++}`,
-          type: EntityType.SPIKE,
-          position: { x: spike.x, y: spike.y },
-          width: spike.w,
-          height: 20,
-          active: true
-        });
-      }
-    }
-
-    // Sword Chest (power-up like Mario ? block)
-    if (level.swordChest) {
-      this.state.entities.push({
-        id: `sword_chest_${entityId++}`,
-        type: EntityType.SWORD_CHEST,
-        position: { x: level.swordChest.x, y: level.swordChest.y },
-        width: 32,
-        height: 32,
-        active: true,
-        collected: false
-      });
-    }
+    this.state.entities = this.voyage ? createChunkEntities(level, 0) : createLevelEntities(level);
 
     // Setup renderer
     this.renderer.clearWorld();
@@ -344,9 +265,34 @@ export class SinglePlayerGame {
     this.renderer.setupUI(level.name);
 
     this.levelStartTime = Date.now();
+    // Voyages and play-tested editor levels only exist while they're being played, so
+    // a replay of them couldn't find its level again
+    this.recorder = this.voyage || this.testLevel ? null : new InputRecorder(level.id, this.characterType);
+    this.loadGhost(level);
+    if (this.voyage) {
+      this.voyageMetres = 0;
+      this.voyageBest = loadVoyageRecords()[this.voyage.seed] ?? 0;
+    }
     this.paused = false;
   }
 
+  // Replay the best run for this level in its own world, so it can't collide with ours
+  private loadGhost(level: LevelData) {
+    this.ghost = null;
+    this.ghostInputs = [];
+
+    const saved = this.testLevel || this.voyage ? undefined : this.progress.bestRuns?.[level.id];
+    if (!saved) return;
+
+    try {
+      const replay = parseReplay(saved);
+      this.ghost = new Simulation(level, { characterType: replay.characterType });
+      this.ghostInputs = replay.inputs;
+    } catch (e) {
+      console.warn('Failed to load best run ghost:', e);
+    }
+  }
+
   private togglePause() {
     if (this.paused) {
       // Unpause
@@ -358,11 +304,19 @@ export class SinglePlayerGame {
       this.renderer.showPauseMenu(
         () => this.resumeGame(),
         () => this.restartLevel(),
-        () => this.returnToMenu()
+        () => this.returnToMenu(),
+        () => this.saveReplay()
       );
     }
   }
   
+  // Download the current attempt so far (e.g. to report a bug)
+  private saveReplay() {
+    if (this.recorder && this.recorder.getFrameCount() > 0) {
+      downloadReplay(this.recorder.toReplay());
+    }
+  }
+  
   private resumeGame() {
     this.paused = false;
   }
@@ -375,6 +329,7 @@ export class SinglePlayerGame {
   }
 
   private restartLevel() {
+    this.voyageResults.hide();
     this.renderer.hidePauseMenu();
     this.paused = false;
     if (this.currentLevel) {
@@ -390,12 +345,26 @@ export class SinglePlayerGame {
     const time = Date.now() - this.levelStartTime;
     const completedLevelId = this.currentLevel.id;
 
+    if (this.testLevel) {
+      this.renderer.showMessage(`LEVEL COMPLETE!\n${doubloons} Doubloons in ${(time / 1000).toFixed(1)}s`, 2000);
+      await new Promise(resolve => setTimeout(resolve, 2500));
+      this.returnToMenu();
+      return;
+    }
+
     // Update progress
     this.progress.totalDoubloons += doubloons;
     
-    // Record best time
+    // Record best time, and the run itself for ghost racing
+    const bestRuns = this.progress.bestRuns || (this.progress.bestRuns = {});
     if (!this.progress.bestTimes[completedLevelId] || time < this.progress.bestTimes[completedLevelId]) {
       this.progress.bestTimes[completedLevelId] = time;
+      if (this.recorder) {
+        bestRuns[completedLevelId] = serializeReplay(this.recorder.toReplay());
+      }
+    } else if (!bestRuns[completedLevelId] && this.recorder) {
+      // Saves from before ghosts existed have a time but no run yet
+      bestRuns[completedLevelId] = serializeReplay(this.recorder.toReplay());
     }
 
     // Unlock next level
@@ -408,6 +377,10 @@ export class SinglePlayerGame {
 
     this.saveProgress();
 
+    if (this.recorder) {
+      saveLastReplay(this.recorder.toReplay());
+    }
+
     // Show completion message
     this.renderer.showMessage(`LEVEL COMPLETE!\n${doubloons} Doubloons`, 2000);
 
@@ -446,15 +419,44 @@ export class SinglePlayerGame {
   }
 
   private handleLevelFailed() {
+    if (this.voyage) {
+      this.handleVoyageOver(this.voyage);
+      return;
+    }
+
     this.paused = true;
     this.renderer.showPauseMenu(
       () => this.restartLevel(), // Resume becomes restart on fail
       () => this.restartLevel(),
-      () => this.returnToMenu()
+      () => this.returnToMenu(),
+      () => this.saveReplay()
     );
     this.renderer.showMessage("YE WALKED THE PLANK!", 999999);
   }
 
+  private handleVoyageOver(voyage: VoyageStream) {
+    const player = this.state.players.get(this.playerId);
+    const isNewBest = saveVoyageRecord(voyage.seed, this.voyageMetres);
+    this.voyageBest = Math.max(this.voyageBest, this.voyageMetres);
+
+    this.voyageResults.show({
+      seed: voyage.seed,
+      metres: this.voyageMetres,
+      doubloons: player?.doubloons || 0,
+      best: this.voyageBest,
+      isNewBest
+    }, {
+      onSailAgain: () => this.restartLevel(),
+      onNewVoyage: () => {
+        this.voyage = new VoyageStream(createVoyageSeed());
+        // Keep the address bar pointing at the voyage being sailed, ready to share
+        window.history.replaceState(null, '', `?voyage=${this.voyage.seed}`);
+        this.restartLevel();
+      },
+      onMenu: () => this.returnToMenu()
+    });
+  }
+
   private lastTime = 0;
   private accumulator = 0;
 
@@ -486,6 +488,10 @@ export class SinglePlayerGame {
 
     // Render
     this.renderer.render(this.state, this.playerId);
+    this.renderer.renderGhost(this.ghost ? this.ghost.getPlayer() : null);
+    if (this.voyage) {
+      this.renderer.renderVoyageHud(this.voyageMetres, this.voyageBest);
+    }
     
     requestAnimationFrame((t) => this.loop(t));
   }
@@ -500,253 +506,38 @@ export class SinglePlayerGame {
       right: this.keys.right,
       jump: this.keys.jump,
       action: this.keys.action,
-      dash: this.keys.dash
+      dash: this.keys.dash,
+      down: this.keys.down
     };
 
     const frameInputs = new Map<string, Input>();
     frameInputs.set(this.playerId, localInput);
+    this.recorder?.record(localInput);
 
-    // Update enemy patrol
-    this.updateEnemies();
+    // Step physics (enemies included)
+    const events = this.physics.step(this.state, frameInputs);
+    getSoundManager().handleEvents(events);
+    this.renderer.handleEvents(events);
 
-    // Step physics
-    this.physics.step(this.state, frameInputs);
-    
-    this.state.frame++;
-  }
+    if (events.some(e => e.type === GameEventType.CHECKPOINT_REACHED)) {
+      this.renderer.showMessage("CHECKPOINT!", 1000);
+    }
 
-  private updateEnemies() {
+    // Keep chunks streaming in ahead of the player, and redraw when they change
     const player = this.state.players.get(this.playerId);
-    const currentFrame = this.state.frame;
-    
-    for (const entity of this.state.entities) {
-      if (entity.type !== EntityType.ENEMY || !entity.active) continue;
-      
-      const enemyType = entity.enemyType || EnemyType.CRAB;
-      
-      switch (enemyType) {
-        case EnemyType.CRAB:
-          this.updateCrab(entity);
-          break;
-        case EnemyType.SEAGULL:
-          this.updateSeagull(entity, currentFrame);
-          break;
-        case EnemyType.SKELETON:
-          this.updateSkeleton(entity, player);
-          break;
-        case EnemyType.CANNON_TURRET:
-          this.updateCannon(entity, currentFrame);
-          break;
-        case EnemyType.JELLYFISH:
-          this.updateJellyfish(entity, currentFrame);
-          break;
-        case EnemyType.GHOST:
-          this.updateGhost(entity, currentFrame, player);
-          break;
+    if (this.voyage && player) {
+      this.voyageMetres = Math.max(this.voyageMetres, getVoyageDistance(player));
+      if (this.voyage.update(this.physics, this.state, player.position.x / SCALE)) {
+        this.renderer.drawMap(this.physics);
       }
     }
-    
-    // Update cannonballs
-    this.updateCannonballs();
-  }
-  
-  // === CRAB: Simple horizontal patrol ===
-  private updateCrab(entity: Entity) {
-    if (!entity.velocity) return;
-    
-    entity.position.x += entity.velocity.x;
-    
-    const spawnX = entity.spawnX || entity.position.x;
-    const patrolWidth = entity.patrolWidth || 100;
-    const minX = spawnX - patrolWidth / 2;
-    const maxX = spawnX + patrolWidth / 2;
-    
-    if (entity.position.x <= minX || entity.position.x >= maxX) {
-      entity.velocity.x *= -1;
-      entity.facingRight = entity.velocity.x > 0;
-    }
-  }
-  
-  // === SEAGULL: Flying sine wave pattern ===
-  private updateSeagull(entity: Entity, _frame: number) {
-    if (!entity.velocity) return;
-    
-    // Horizontal movement
-    entity.position.x += entity.velocity.x;
-    
-    const spawnX = entity.spawnX || entity.position.x;
-    const spawnY = entity.spawnY || entity.position.y;
-    const patrolWidth = entity.patrolWidth || 150;
-    const patrolHeight = entity.patrolHeight || 60;
-    
-    // Patrol bounds
-    const minX = spawnX - patrolWidth / 2;
-    const maxX = spawnX + patrolWidth / 2;
-    
-    if (entity.position.x <= minX || entity.position.x >= maxX) {
-      entity.velocity.x *= -1;
-      entity.facingRight = entity.velocity.x > 0;
-    }
-    
-    // Sine wave vertical movement
-    entity.phase = (entity.phase || 0) + 0.05;
-    entity.position.y = spawnY + Math.sin(entity.phase) * patrolHeight / 2;
-  }
-  
-  // === SKELETON: Walks and lunges at player ===
-  private updateSkeleton(entity: Entity, player: { position: { x: number; y: number } } | undefined) {
-    if (!entity.velocity) return;
-    
-    const spawnX = entity.spawnX || entity.position.x;
-    const patrolWidth = entity.patrolWidth || 100;
-    const minX = spawnX - patrolWidth / 2;
-    const maxX = spawnX + patrolWidth / 2;
-    
-    // State timer for charging
-    entity.stateTimer = (entity.stateTimer || 0) + 1;
-    
-    // Check if player is in range for a lunge
-    const lungeRange = 150; // How close player needs to be to trigger lunge
-    const playerInRange = player && 
-      Math.abs(player.position.x / 100 - entity.position.x) < lungeRange &&
-      Math.abs(player.position.y / 100 - entity.position.y) < 60;
-    
-    if (entity.isCharging) {
-      // During charge: move faster toward player direction
-      const chargeSpeed = 3;
-      entity.position.x += entity.facingRight ? chargeSpeed : -chargeSpeed;
-      
-      // Charge lasts 30 frames
-      if (entity.stateTimer > 30) {
-        entity.isCharging = false;
-        entity.stateTimer = 0;
-        // Reset velocity after charge
-        entity.velocity.x = entity.facingRight ? 0.8 : -0.8;
-      }
-    } else {
-      // Normal patrol
-      entity.position.x += entity.velocity.x;
-      
-      // Patrol bounds
-      if (entity.position.x <= minX || entity.position.x >= maxX) {
-        entity.velocity.x *= -1;
-        entity.facingRight = entity.velocity.x > 0;
-      }
-      
-      // Start a charge if player in range and cooldown passed
-      if (playerInRange && entity.stateTimer > 60) {
-        entity.isCharging = true;
-        entity.stateTimer = 0;
-        // Face the player
-        if (player) {
-          entity.facingRight = player.position.x / 100 > entity.position.x;
-        }
-      }
-    }
-  }
-  
-  // === CANNON TURRET: Stationary, fires cannonballs ===
-  private updateCannon(entity: Entity, frame: number) {
-    const fireRate = entity.fireRate || 120;
-    const lastFired = entity.lastFired || 0;
-    
-    if (frame - lastFired >= fireRate) {
-      entity.lastFired = frame;
-      this.fireCannonball(entity);
-    }
-  }
-  
-  private fireCannonball(cannon: Entity) {
-    const ballSpeed = cannon.facingRight ? 3 : -3;
-    const spawnX = cannon.facingRight 
-      ? cannon.position.x + cannon.width 
-      : cannon.position.x - 12;
-    const spawnY = cannon.position.y + cannon.height * 0.4;
-    
-    getSoundManager().playSound(SoundEffect.CANNON_FIRE);
-    
-    this.state.entities.push({
-      id: `cannonball_${Date.now()}_${Math.random()}`,
-      type: EntityType.CANNONBALL,
-      position: { x: spawnX, y: spawnY },
-      velocity: { x: ballSpeed, y: 0 },
-      width: 12,
-      height: 12,
-      active: true
-    });
-  }
-  
-  private updateCannonballs() {
-    const level = this.currentLevel;
-    
-    for (const entity of this.state.entities) {
-      if (entity.type !== EntityType.CANNONBALL || !entity.active) continue;
-      
-      // Move cannonball
-      if (entity.velocity) {
-        entity.position.x += entity.velocity.x;
-        // Add slight gravity for arc
-        entity.velocity.y = (entity.velocity.y || 0) + 0.1;
-        entity.position.y += entity.velocity.y;
-      }
-      
-      // Remove if off screen
-      if (level) {
-        if (entity.position.x < -50 || entity.position.x > level.width + 50 ||
-            entity.position.y > level.height + 50) {
-          entity.active = false;
-        }
-      }
+
+    // The ghost's events are discarded - it's silent and has no effects
+    if (this.ghost && this.ghost.state.frame < this.ghostInputs.length && !this.ghost.isFinished()) {
+      this.ghost.step(this.ghostInputs[this.ghost.state.frame]);
     }
-  }
-  
-  // === JELLYFISH: Floats up and down ===
-  private updateJellyfish(entity: Entity, _frame: number) {
-    const spawnY = entity.spawnY || entity.position.y;
-    const patrolHeight = entity.patrolHeight || 100;
-    
-    // Smooth sine wave vertical movement
-    entity.phase = (entity.phase || 0) + 0.03;
-    entity.position.y = spawnY + Math.sin(entity.phase) * patrolHeight / 2;
-    
-    // Slight horizontal drift
-    entity.position.x += Math.sin(entity.phase * 0.5) * 0.3;
-  }
-  
-  // === GHOST: Phases in/out, patrols slowly ===
-  private updateGhost(entity: Entity, _frame: number, _player: { position: { x: number; y: number } } | undefined) {
-    if (!entity.velocity) return;
     
-    const spawnX = entity.spawnX || entity.position.x;
-    const patrolWidth = entity.patrolWidth || 100;
-    
-    // Phase timer (controls visibility)
-    entity.stateTimer = (entity.stateTimer || 0) + 1;
-    
-    // Visibility cycle: visible for 180 frames, invisible for 90 frames
-    const cycleLength = 270;
-    const visibleDuration = 180;
-    const cyclePosition = entity.stateTimer % cycleLength;
-    entity.isVisible = cyclePosition < visibleDuration;
-    
-    // Move only when visible
-    if (entity.isVisible) {
-      entity.position.x += entity.velocity.x;
-      
-      // Patrol bounds
-      const minX = spawnX - patrolWidth / 2;
-      const maxX = spawnX + patrolWidth / 2;
-      
-      if (entity.position.x <= minX || entity.position.x >= maxX) {
-        entity.velocity.x *= -1;
-        entity.facingRight = entity.velocity.x > 0;
-      }
-      
-      // Slight floating effect
-      entity.phase = (entity.phase || 0) + 0.05;
-      const spawnY = entity.spawnY || entity.position.y;
-      entity.position.y = spawnY + Math.sin(entity.phase) * 5;
-    }
+    this.state.frame++;
   }
 
   public getProgress(): CampaignProgress {
@@ -756,16 +547,5 @@ export class SinglePlayerGame {
   public getLevels(): LevelData[] {
     return CAMPAIGN_LEVELS;
   }
-
-  private getCharacterColor(): number {
-    switch (this.characterType) {
-      case CharacterType.GIRL_PIRATE:
-        return 0x9b59b6; // Purple
-      case CharacterType.OCTOPUS:
-        return 0x8e44ad; // Deep purple
-      default:
-        return 0xe74c3c; // Red (classic pirate)
-    }
-  }
 }
 
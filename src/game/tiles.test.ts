@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { buildTileBodies, ONE_WAY_THICKNESS } from './tiles';
+import { Simulation } from './simulation';
+import { LevelData, TileLayer, TileShape, Vector } from '../types';
+
+const TILE = 40;
+
+// Draw a tile layer with characters: # solid, / and \ slopes, = one-way plank
+function tileLayer(map: string[]): TileLayer {
+  const ids: { [char: string]: number } = { '#': 1, '/': 2, '\\': 3, '=': 4 };
+  return {
+    tileSize: TILE,
+    tileset: {
+      1: { shape: TileShape.SOLID, color: 0x8b4513 },
+      2: { shape: TileShape.SLOPE_UP_RIGHT, color: 0x8b4513 },
+      3: { shape: TileShape.SLOPE_UP_LEFT, color: 0x8b4513 },
+      4: { shape: TileShape.ONE_WAY, color: 0xdeb887 }
+    },
+    rows: map.map(row => [...row].map(char => ids[char] ?? 0))
+  };
+}
+
+function tileLevel(map: string[], spawnPoint: Vector): LevelData {
+  return {
+    id: 999,
+    name: 'Tile Island',
+    width: map[0].length * TILE,
+    height: map.length * TILE,
+    platforms: [],
+    tiles: tileLayer(map),
+    spawnPoint,
+    goalPosition: { x: 760, y: 0 },
+    doubloons: []
+  };
+}
+
+const EMPTY = '....................';
+
+// Ground at y=520 rising up a two-tile ramp (x 360-440) to a plateau at y=440
+const RAMP = [
+  ...Array(11).fill(EMPTY),
+  '........../#########',
+  '........./##########',
+  '####################',
+  '####################'
+];
+
+// Ground at y=560 with a plank at y=480 above it
+const DECK = [
+  ...Array(12).fill(EMPTY),
+  '.....==========.....',
+  EMPTY,
+  '####################'
+];
+
+const feet = (sim: Simulation) => {
+  const player = sim.getPlayer();
+  return { x: player.position.x / 100, y: player.position.y / 100 + player.height };
+};
+
+describe('tile layers', () => {
+  it('merges neighbouring solid tiles into as few boxes as possible', () => {
+    const bodies = buildTileBodies(tileLayer(RAMP));
+
+    expect(bodies.solids).toEqual([
+      { x: 440, y: 440, w: 360, h: 40 },
+      { x: 400, y: 480, w: 400, h: 40 },
+      { x: 0, y: 520, w: 800, h: 80 }
+    ]);
+    expect(bodies.slopes).toEqual([
+      [{ x: 400, y: 480 }, { x: 440, y: 480 }, { x: 440, y: 440 }],
+      [{ x: 360, y: 520 }, { x: 400, y: 520 }, { x: 400, y: 480 }]
+    ]);
+    expect(buildTileBodies(tileLayer(DECK)).oneWays).toEqual([{ x: 200, y: 480, w: 400, h: ONE_WAY_THICKNESS }]);
+  });
+
+  it('walks up a slope onto the plateau and stands still on it', () => {
+    const sim = new Simulation(tileLevel(RAMP, { x: 100, y: 480 }));
+    sim.run(150, [{ from: 0, to: 150, right: true }]);
+    expect(feet(sim).x).toBeGreaterThan(460);
+    expect(feet(sim).y).toBe(440);
+
+    // Halfway up the ramp with no input, the player doesn't slide down
+    const onSlope = new Simulation(tileLevel(RAMP, { x: 380, y: 400 }));
+    onSlope.run(60);
+    const settled = feet(onSlope);
+    expect(onSlope.getPlayer().isGrounded).toBe(true);
+    expect(settled.y).toBeLessThan(520);
+    onSlope.run(60);
+    expect(feet(onSlope)).toEqual(settled);
+  });
+
+  it('stays on the ground walking down a slope', () => {
+    const sim = new Simulation(tileLevel(RAMP, { x: 500, y: 400 }));
+    sim.run(30);
+
+    for (let i = 0; i < 60; i++) {
+      sim.step({ left: true });
+      expect(sim.getPlayer().isGrounded).toBe(true);
+    }
+    expect(feet(sim)).toMatchObject({ y: 520 });
+  });
+
+  it('jumps up through a one-way plank, lands on it and drops back through', () => {
+    const sim = new Simulation(tileLevel(DECK, { x: 300, y: 528 }));
+    sim.run(10);
+    expect(feet(sim).y).toBe(560);
+
+    sim.step({ jump: true });
+    sim.run(90);
+    expect(feet(sim).y).toBe(480);
+    expect(sim.getPlayer().isGrounded).toBe(true);
+
+    sim.run(30, [{ from: 0, to: Infinity, down: true }]);
+    expect(feet(sim).y).toBe(560);
+  });
+});
@@ -0,0 +1,90 @@
+import { TileLayer, TileDefinition, TileShape, Vector } from "../types";
+
+export const ONE_WAY_THICKNESS = 6; // pixels of plank at the top of a one-way tile
+
+export interface TileRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Collision shapes for a tile layer, in pixels. Neighbouring solid tiles are merged
+ * into as few boxes as possible, so nothing catches on the seams between them.
+ */
+export interface TileBodies {
+  solids: TileRect[];
+  slopes: Vector[][]; // triangles, three corners each
+  oneWays: TileRect[];
+}
+
+export function getTile(layer: TileLayer, column: number, row: number): TileDefinition | null {
+  const id = layer.rows[row]?.[column];
+  return id ? layer.tileset[id] ?? null : null;
+}
+
+/**
+ * The three corners of a slope tile at (x, y) with the given size.
+ */
+export function getSlopeCorners(shape: TileShape, x: number, y: number, size: number): Vector[] {
+  return shape === TileShape.SLOPE_UP_RIGHT
+    ? [{ x, y: y + size }, { x: x + size, y: y + size }, { x: x + size, y }]
+    : [{ x, y }, { x, y: y + size }, { x: x + size, y: y + size }];
+}
+
+export function buildTileBodies(layer: TileLayer): TileBodies {
+  const size = layer.tileSize;
+  const bodies: TileBodies = { solids: [], slopes: [], oneWays: [] };
+
+  // Solid runs still open from the row above, by their horizontal extent
+  let open = new Map<string, TileRect>();
+
+  layer.rows.forEach((ids, row) => {
+    const y = row * size;
+    const stillOpen = new Map<string, TileRect>();
+
+    const addRun = (shape: TileShape, start: number, end: number) => {
+      const x = start * size;
+      const w = (end - start) * size;
+      if (shape === TileShape.ONE_WAY) {
+        bodies.oneWays.push({ x, y, w, h: ONE_WAY_THICKNESS });
+        return;
+      }
+      // A run exactly under one from the row above just makes that box taller
+      const key = `${x}:${w}`;
+      const above = open.get(key);
+      if (above) {
+        above.h += size;
+        stillOpen.set(key, above);
+      } else {
+        const rect = { x, y, w, h: size };
+        bodies.solids.push(rect);
+        stillOpen.set(key, rect);
+      }
+    };
+
+    let runShape: TileShape | null = null;
+    let runStart = 0;
+    for (let column = 0; column <= ids.length; column++) {
+      const shape = column < ids.length ? getTile(layer, column, row)?.shape ?? null : null;
+      const runs = shape === TileShape.SOLID || shape === TileShape.ONE_WAY;
+
+      if (runShape && shape !== runShape) {
+        addRun(runShape, runStart, column);
+        runShape = null;
+      }
+      if (runs && !runShape) {
+        runShape = shape;
+        runStart = column;
+      }
+      if (shape === TileShape.SLOPE_UP_RIGHT || shape === TileShape.SLOPE_UP_LEFT) {
+        bodies.slopes.push(getSlopeCorners(shape, column * size, y, size));
+      }
+    }
+
+    open = stillOpen;
+  });
+
+  return bodies;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateVoyageChunk, createChunkEntities, VoyageStream, getVoyageDistance, normalizeVoyageSeed,
+  CHUNK_WIDTH
+} from './voyage';
+import { checkReachability } from './reachability';
+import { validateLevel } from './levelPacks';
+import { Simulation } from './simulation';
+import { EntityType, EnemyType } from '../types';
+
+const SEEDS = ['KRAKEN', 'B0TTLE'];
+
+describe('endless voyage', () => {
+  it('builds the same chunks from the same seed, whatever order they are asked for in', () => {
+    const forwards = [0, 1, 2, 3, 4].map(index => generateVoyageChunk('KRAKEN', index));
+    const backwards = [4, 3, 2, 1, 0].map(index => generateVoyageChunk('KRAKEN', index)).reverse();
+    expect(backwards).toEqual(forwards);
+
+    const other = [0, 1, 2, 3, 4].map(index => generateVoyageChunk('MERMAID', index));
+    expect(other.slice(1)).not.toEqual(forwards.slice(1));
+  });
+
+  it('only generates chunks that are valid and can be crossed', () => {
+    for (const seed of SEEDS) {
+      for (let index = 0; index < 30; index++) {
+        const chunk = generateVoyageChunk(seed, index);
+        const label = `${seed} chunk ${index}`;
+        expect(chunk.width, label).toBe((index + 1) * CHUNK_WIDTH);
+        expect(validateLevel(chunk), label).toEqual([]);
+        expect(checkReachability(chunk).problems, label).toEqual([]);
+      }
+    }
+  });
+
+  it('brings in more and tougher enemies the further it goes', () => {
+    const enemiesIn = (from: number, to: number) => SEEDS.flatMap(seed =>
+      Array.from({ length: to - from }, (_, i) => generateVoyageChunk(seed, from + i).enemies!)
+    );
+
+    expect(generateVoyageChunk('KRAKEN', 0).enemies).toEqual([]);
+    const early = enemiesIn(1, 3);
+    expect(early.every(enemies => enemies.length === 1)).toBe(true);
+    expect(new Set(early.flat().map(enemy => enemy.type))).toEqual(new Set([EnemyType.CRAB]));
+
+    const late = enemiesIn(20, 30);
+    expect(late.every(enemies => enemies.length === 3)).toBe(true);
+    expect(new Set(late.flat().map(enemy => enemy.type)).size).toBeGreaterThan(3);
+  });
+
+  it('streams chunks in ahead of the player and drops them behind', () => {
+    const stream = new VoyageStream('KRAKEN');
+    const start = stream.begin();
+    const sim = new Simulation(start);
+    sim.state.entities = createChunkEntities(start, 0);
+    expect(sim.state.entities.some(entity => entity.type === EntityType.GOAL)).toBe(false);
+
+    expect(stream.update(sim.physics, sim.state, 400)).toBe(true);
+    expect(sim.physics.getLevelWidth()).toBe(3 * CHUNK_WIDTH);
+    expect(stream.update(sim.physics, sim.state, 400)).toBe(false);
+
+    // The chunk after the harbour is solid ground to walk onto
+    while (sim.getPlayer().position.x / 100 < CHUNK_WIDTH + 20) {
+      sim.step({ right: true });
+      stream.update(sim.physics, sim.state, sim.getPlayer().position.x / 100);
+    }
+    expect(sim.getPlayer().isGrounded).toBe(true);
+    expect(getVoyageDistance(sim.getPlayer())).toBe(80);
+
+    stream.update(sim.physics, sim.state, 2 * CHUNK_WIDTH + 400);
+    expect(sim.physics.getLevelWidth()).toBe(5 * CHUNK_WIDTH);
+    expect(sim.physics.getLevelLeft()).toBe(CHUNK_WIDTH);
+    expect(sim.physics.getObstacles().every(box => box.pos.x + box.w > CHUNK_WIDTH * 100)).toBe(true);
+    expect(sim.state.entities.some(entity => entity.id.startsWith('chunk0_'))).toBe(false);
+    expect(sim.state.entities.some(entity => entity.id.startsWith('chunk4_'))).toBe(true);
+  });
+
+  it('tidies seeds typed in by hand', () => {
+    expect(normalizeVoyageSeed(' kraken-42 ')).toBe('KRAKEN42');
+    expect(normalizeVoyageSeed('!!')).toBe('');
+  });
+});
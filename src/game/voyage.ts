@@ -0,0 +1,348 @@
+import { LevelData, EnemyType, EnemySpawnData, Entity, EntityType, GameState, PlayerState } from "../types";
+import { PhysicsEngine, SCALE } from "./physics";
+import { createRandom, hashSeed } from "./determinism";
+import { createLevelEntities, ENEMY_SIZES } from "./levelState";
+import { getJumpDistance, getJumpHeight } from "./reachability";
+import { TileRect } from "./tiles";
+import { VOYAGE_LEVEL_ID } from "./levels";
+
+export const CHUNK_WIDTH = 800;
+
+const VOYAGE_HEIGHT = 600;
+const SEA_LEVEL = 500; // top of the ground every chunk starts and ends on
+const SHELF = 80; // flat ground at each end of a chunk, so any two chunks join up
+const ENTRY_X = 20; // where a chunk is entered, from its left edge
+const RAMP_CHUNKS = 20; // chunks until the voyage is as hard as it gets
+const CHUNKS_AHEAD = 2; // generated past the camera
+const CHUNKS_BEHIND = 1; // kept behind it before being dropped
+const PIXELS_PER_METRE = 10;
+const SEED_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I to misread
+const SEED_LENGTH = 6;
+const RECORDS_KEY = 'piratical_voyage_records';
+
+// Enemies in the order they join the voyage, and the chunk they first turn up in
+const ENEMY_LADDER: { type: EnemyType; from: number }[] = [
+  { type: EnemyType.CRAB, from: 1 },
+  { type: EnemyType.SEAGULL, from: 3 },
+  { type: EnemyType.SKELETON, from: 5 },
+  { type: EnemyType.JELLYFISH, from: 8 },
+  { type: EnemyType.CANNON_TURRET, from: 11 },
+  { type: EnemyType.GHOST, from: 14 }
+];
+
+// A chunk being put together, and the floors in it enemies and pickups can go on
+interface ChunkBuilder {
+  level: LevelData;
+  random: () => number;
+  difficulty: number; // 0 in the harbour, 1 from RAMP_CHUNKS on
+  start: number; // left edge of the part between the shelves
+  end: number;
+  floors: TileRect[];
+}
+
+const between = (random: () => number, min: number, max: number) => Math.round(min + random() * (max - min));
+
+function addGround(chunk: ChunkBuilder, x: number, w: number, isFloor = true) {
+  const ground = { x, y: SEA_LEVEL, w, h: VOYAGE_HEIGHT - SEA_LEVEL };
+  chunk.level.platforms.push(ground);
+  if (isFloor) chunk.floors.push(ground);
+}
+
+function addLedge(chunk: ChunkBuilder, x: number, y: number, w: number) {
+  const ledge = { x, y, w, h: 20 };
+  chunk.level.platforms.push(ledge);
+  chunk.floors.push(ledge);
+}
+
+// Doubloons in a row centred on x
+function addDoubloons(chunk: ChunkBuilder, x: number, y: number, count: number) {
+  for (let i = 0; i < count; i++) {
+    chunk.level.doubloons.push({ x: Math.round(x - 10 + (i - (count - 1) / 2) * 30), y });
+  }
+}
+
+/**
+ * The stretch between a chunk's shelves, each sized from the player's jump so every
+ * gap and step can be cleared without a dash.
+ */
+const CHUNK_TEMPLATES: ((chunk: ChunkBuilder) => void)[] = [
+  // Open beach with a crate to hop
+  function shore(chunk) {
+    const { random, start, end } = chunk;
+    addGround(chunk, start, end - start);
+    const crate = between(random, start + 100, end - 160);
+    chunk.level.platforms.push({ x: crate, y: SEA_LEVEL - 40, w: 60, h: 40 });
+    addDoubloons(chunk, crate + 30, SEA_LEVEL - 100, 3);
+  },
+
+  // Islands with open sea between them
+  function islands(chunk) {
+    const { random, difficulty, start, end } = chunk;
+    const reach = getJumpDistance(0);
+    const gaps = Array.from({ length: 1 + Math.floor(random() * (1 + difficulty * 2)) }, () =>
+      between(random, reach * 0.35, reach * (0.5 + 0.3 * difficulty))
+    );
+
+    // Share the land out between the islands, at least 40px each
+    const land = end - start - gaps.reduce((sum, gap) => sum + gap, 0);
+    const weights = Array.from({ length: gaps.length + 1 }, () => 1 + random());
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let x = start;
+    weights.forEach((weight, i) => {
+      const w = i === gaps.length ? end - x : 40 + Math.floor((land - 40 * weights.length) * weight / total);
+      addGround(chunk, x, w);
+      x += w;
+      if (i < gaps.length) {
+        addDoubloons(chunk, x + gaps[i] / 2, Math.round(SEA_LEVEL - getJumpHeight() * 0.7), 1);
+        x += gaps[i];
+      }
+    });
+  },
+
+  // Ledges up and back down again, over spikes once the voyage gets going
+  function steps(chunk) {
+    const { random, difficulty, start, end } = chunk;
+    addGround(chunk, start, end - start);
+
+    const rise = between(random, getJumpHeight() * 0.4, getJumpHeight() * (0.6 + 0.2 * difficulty));
+    const spacing = between(random, 40, getJumpDistance(rise) * 0.6);
+    const heights = [1, 2, 1];
+    const first = start + 60;
+    heights.forEach((height, i) => {
+      addLedge(chunk, first + i * (100 + spacing), SEA_LEVEL - rise * height, 100);
+    });
+    addDoubloons(chunk, first + 100 + spacing + 50, SEA_LEVEL - rise * 2 - 40, 2);
+
+    if (random() < difficulty) {
+      const last = first + 2 * (100 + spacing) + 100;
+      chunk.level.spikes!.push({ x: first + 100, y: SEA_LEVEL - 20, w: last - first - 200 });
+    }
+  },
+
+  // A pit too wide to jump, with a raft going back and forth across it
+  function ferry(chunk) {
+    const { random, difficulty, start, end } = chunk;
+    const reach = getJumpDistance(0);
+    const pit = Math.min(end - start - 120, between(random, reach * 1.2, reach * (1.4 + 0.4 * difficulty)));
+    const before = Math.floor((end - start - pit) / 2);
+    addGround(chunk, start, before);
+    addGround(chunk, start + before + pit, end - start - before - pit);
+
+    const raft = { x: start + before + Math.floor(pit / 2) - 40, y: SEA_LEVEL, w: 80, h: 20 };
+    chunk.level.movingPlatforms!.push({
+      ...raft,
+      moveX: Math.floor(pit / 2) - 50,
+      speed: 0.015 + 0.01 * difficulty,
+      phase: Math.round(random() * 314) / 100
+    });
+    addDoubloons(chunk, raft.x + 40, SEA_LEVEL - 60, 1);
+  },
+
+  // Spike strips to jump
+  function spikes(chunk) {
+    const { random, difficulty, start, end } = chunk;
+    addGround(chunk, start, end - start);
+
+    const strips = difficulty > 0.5 && random() < 0.5 ? 2 : 1;
+    const section = (end - start) / strips;
+    for (let i = 0; i < strips; i++) {
+      const w = Math.round(between(random, 40, getJumpDistance(0) * (0.35 + 0.25 * difficulty)) / 20) * 20;
+      const x = between(random, start + i * section + 60, start + (i + 1) * section - w - 60);
+      chunk.level.spikes!.push({ x, y: SEA_LEVEL - 20, w });
+      addDoubloons(chunk, x + w / 2, SEA_LEVEL - 90, Math.max(1, Math.floor(w / 40)));
+    }
+  }
+];
+
+function placeEnemy(chunk: ChunkBuilder, type: EnemyType, floor: TileRect): EnemySpawnData {
+  const { width, height } = ENEMY_SIZES[type];
+  const x = Math.round(floor.x + floor.w / 2 - width / 2);
+  const patrolWidth = Math.max(40, Math.min(160, floor.w - width - 20));
+
+  switch (type) {
+    case EnemyType.SEAGULL:
+      return { x, y: floor.y - 160, type, patrolWidth: 160, patrolHeight: 50 };
+    case EnemyType.JELLYFISH:
+      return { x, y: floor.y - 120, type, patrolHeight: 60 };
+    case EnemyType.CANNON_TURRET:
+      // At the far end, facing the player coming in
+      return {
+        x: floor.x + floor.w - width, y: floor.y - height, type, facingLeft: true,
+        fireRate: Math.round(150 - 40 * chunk.difficulty)
+      };
+    default:
+      return { x, y: floor.y - height, type, patrolWidth };
+  }
+}
+
+function addEnemies(chunk: ChunkBuilder, index: number) {
+  const unlocked = ENEMY_LADDER.filter(rung => index >= rung.from);
+  const floors = chunk.floors.filter(floor => floor.w >= 100);
+  if (unlocked.length === 0 || floors.length === 0) return;
+
+  const count = Math.min(3, 1 + Math.floor(index / 5));
+  for (let i = 0; i < count; i++) {
+    const { type } = unlocked[Math.floor(chunk.random() * unlocked.length)];
+    const floor = floors[Math.floor(chunk.random() * floors.length)];
+    chunk.level.enemies!.push(placeEnemy(chunk, type, floor));
+  }
+}
+
+/**
+ * One chunk of the voyage as a LevelData in world coordinates: it spans
+ * [index * CHUNK_WIDTH, width). The same seed and index always give the same chunk.
+ * spawnPoint and goalPosition mark where the chunk is entered and left, so a chunk can
+ * be checked like any level; the voyage itself has no treasure.
+ */
+export function generateVoyageChunk(seed: string, index: number): LevelData {
+  const left = index * CHUNK_WIDTH;
+  const right = left + CHUNK_WIDTH;
+  const chunk: ChunkBuilder = {
+    level: {
+      id: VOYAGE_LEVEL_ID,
+      name: `Voyage ${seed}`,
+      width: right,
+      height: VOYAGE_HEIGHT,
+      platforms: [],
+      movingPlatforms: [],
+      spikes: [],
+      enemies: [],
+      rum: [],
+      doubloons: [],
+      spawnPoint: { x: left + ENTRY_X, y: SEA_LEVEL - 50 },
+      goalPosition: { x: right - 60, y: SEA_LEVEL - 40 },
+      background: 0x4a90c2
+    },
+    random: createRandom(hashSeed(seed, index)),
+    difficulty: Math.min(1, index / RAMP_CHUNKS),
+    start: left + SHELF,
+    end: right - SHELF,
+    floors: []
+  };
+
+  // The harbour: somewhere calm to start
+  if (index === 0) {
+    addGround(chunk, left, CHUNK_WIDTH);
+    addDoubloons(chunk, left + 500, SEA_LEVEL - 40, 3);
+    return chunk.level;
+  }
+
+  addGround(chunk, left, SHELF, false);
+  addGround(chunk, chunk.end, SHELF, false);
+
+  // The first few chunks stick to the gentler templates
+  const templates = index < 3 ? CHUNK_TEMPLATES.slice(0, 2) : CHUNK_TEMPLATES;
+  templates[Math.floor(chunk.random() * templates.length)](chunk);
+  addEnemies(chunk, index);
+
+  if (index >= 3 && chunk.random() < 0.15 && chunk.floors.length > 0) {
+    const floor = chunk.floors[Math.floor(chunk.random() * chunk.floors.length)];
+    chunk.level.rum!.push({ x: Math.round(floor.x + floor.w / 2 - 8), y: floor.y - 40 });
+  }
+  return chunk.level;
+}
+
+/**
+ * Entities for a chunk, with ids that can't clash with other chunks' and no treasure.
+ */
+export function createChunkEntities(chunk: LevelData, index: number): Entity[] {
+  return createLevelEntities(chunk)
+    .filter(entity => entity.type !== EntityType.GOAL)
+    .map(entity => ({ ...entity, id: `chunk${index}_${entity.id}` }));
+}
+
+/**
+ * Keeps the physics and entities stocked with chunks around the camera, generating
+ * them ahead of it and dropping ones left far behind.
+ */
+export class VoyageStream {
+  public readonly seed: string;
+  private nextIndex = 1; // chunk 0 is the level the voyage starts from
+
+  constructor(seed: string) {
+    this.seed = seed;
+  }
+
+  /**
+   * (Re)start from the harbour: the level to load, with later chunks streamed in by update().
+   */
+  public begin(): LevelData {
+    this.nextIndex = 1;
+    return generateVoyageChunk(this.seed, 0);
+  }
+
+  /**
+   * Call as the camera moves, with the x it's centred on. Returns true if any chunks
+   * were added or dropped, so the map needs redrawing.
+   */
+  public update(physics: PhysicsEngine, state: GameState, focusX: number): boolean {
+    let changed = false;
+
+    while (this.nextIndex * CHUNK_WIDTH < focusX + CHUNKS_AHEAD * CHUNK_WIDTH) {
+      const chunk = generateVoyageChunk(this.seed, this.nextIndex);
+      physics.appendChunk(chunk);
+      state.entities.push(...createChunkEntities(chunk, this.nextIndex));
+      this.nextIndex++;
+      changed = true;
+    }
+
+    const dropBefore = (Math.floor(focusX / CHUNK_WIDTH) - CHUNKS_BEHIND) * CHUNK_WIDTH;
+    if (dropBefore > physics.getLevelLeft()) {
+      physics.dropChunksBefore(dropBefore);
+      state.entities = state.entities.filter(entity => entity.position.x / SCALE + entity.width > dropBefore);
+      changed = true;
+    }
+
+    return changed;
+  }
+}
+
+/**
+ * The voyage's score: metres sailed from the harbour.
+ */
+export function getVoyageDistance(player: PlayerState): number {
+  return Math.max(0, Math.floor((player.position.x / SCALE - ENTRY_X) / PIXELS_PER_METRE));
+}
+
+export function createVoyageSeed(): string {
+  let seed = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_LETTERS[Math.floor(Math.random() * SEED_LETTERS.length)];
+  }
+  return seed;
+}
+
+/**
+ * Tidy a seed someone typed or pasted: letters and digits only, upper case. Empty if
+ * nothing usable is left.
+ */
+export function normalizeVoyageSeed(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 12);
+}
+
+// Furthest distance sailed on each seed
+export function loadVoyageRecords(): { [seed: string]: number } {
+  try {
+    const saved = localStorage.getItem(RECORDS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.warn('Failed to load voyage records:', e);
+    return {};
+  }
+}
+
+/**
+ * Record a finished voyage. Returns true if it went further than any before on that seed.
+ */
+export function saveVoyageRecord(seed: string, metres: number): boolean {
+  const records = loadVoyageRecords();
+  if (metres <= (records[seed] ?? 0)) return false;
+
+  records[seed] = metres;
+  try {
+    localStorage.setItem(RECORDS_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.warn('Failed to save voyage record:', e);
+  }
+  return true;
+}
@@ -1,16 +1,22 @@
 import { Game } from './game/game';
 import { SinglePlayerGame } from './game/singleplayer';
 import { GameRenderer } from './game/renderer';
+import { ReplayViewer } from './game/replayViewer';
+import { Replay } from './game/replay';
 import { MainMenu } from './menu';
 import { CampaignMap } from './campaignMap';
-import { GameMode, CharacterType, CampaignProgress } from './types';
+import { LevelEditor } from './levelEditor';
+import { restoreLevelPacks } from './game/levelPacks';
+import { createVoyageSeed } from './game/voyage';
+import { GameMode, CharacterType, CampaignProgress, LevelData } from './types';
 
 import './style.css';
 
-let currentGame: Game | SinglePlayerGame | null = null;
+let currentGame: Game | SinglePlayerGame | ReplayViewer | null = null;
 let renderer: GameRenderer | null = null;
 let menu: MainMenu | null = null;
 let campaignMap: CampaignMap | null = null;
+let levelEditor: LevelEditor | null = null;
 let selectedCharacterType: CharacterType = CharacterType.PIRATE;
 
 function loadProgress(): CampaignProgress {
@@ -30,7 +36,8 @@ function loadProgress(): CampaignProgress {
   };
 }
 
-function showMenu() {
+// Tear down whatever is on screen: a game, the campaign map, the canvas and overlays
+function clearScreen() {
   // Clean up any existing game
   if (currentGame) {
     currentGame.stop();
@@ -56,13 +63,49 @@ function showMenu() {
   const overlay = document.getElementById('ui-overlay');
   if (overlay) overlay.remove();
 
+  if (levelEditor) {
+    levelEditor.hide();
+  }
+}
+
+function showMenu() {
+  clearScreen();
+
   // Show menu
   if (!menu) {
-    menu = new MainMenu(handleModeSelect);
+    menu = new MainMenu(handleModeSelect, startReplay, showEditor);
   }
   menu.show();
 }
 
+function showEditor() {
+  clearScreen();
+
+  if (!levelEditor) {
+    levelEditor = new LevelEditor(playtestLevel, showMenu);
+  }
+  levelEditor.show();
+}
+
+// Finishing or quitting a play-test goes back to the editor
+async function playtestLevel(level: LevelData) {
+  clearScreen();
+
+  renderer = new GameRenderer();
+  const game = new SinglePlayerGame(renderer, showEditor, selectedCharacterType);
+  currentGame = game;
+  await game.playtest(level);
+}
+
+async function startVoyage(seed: string) {
+  clearScreen();
+
+  renderer = new GameRenderer();
+  const game = new SinglePlayerGame(renderer, showMenu, selectedCharacterType);
+  currentGame = game;
+  await game.startVoyage(seed);
+}
+
 function showCampaignMap(justCompletedLevel?: number) {
   // Hide any existing map
   if (campaignMap) {
@@ -112,6 +155,27 @@ async function startCampaignLevel(levelId: number) {
   await currentGame.start(levelId);
 }
 
+async function startReplay(replay: Replay) {
+  if (currentGame) {
+    currentGame.stop();
+    currentGame = null;
+  }
+
+  if (!renderer) {
+    renderer = new GameRenderer();
+  }
+
+  try {
+    currentGame = new ReplayViewer(renderer, replay, showMenu);
+  } catch (e) {
+    alert(`Couldn't play replay: ${(e as Error).message}`);
+    showMenu();
+    return;
+  }
+
+  await currentGame.start();
+}
+
 async function handleModeSelect(mode: GameMode, levelId?: number, roomCode?: string, characterType?: CharacterType) {
   if (menu) {
     menu.hide();
@@ -123,7 +187,11 @@ async function handleModeSelect(mode: GameMode, levelId?: number, roomCode?: str
     // Show campaign map instead of going directly to game
     showCampaignMap();
     return;
-  } else if (mode === 'multiplayer') {
+  } else if (mode === 'voyage') {
+    // The menu passes the voyage's seed as the room code
+    await startVoyage(roomCode || createVoyageSeed());
+    return;
+  } else if (mode === 'multiplayer' || mode === 'race' || mode === 'spectate') {
     // Create renderer for multiplayer
     if (!renderer) {
       renderer = new GameRenderer();
@@ -137,16 +205,18 @@ async function handleModeSelect(mode: GameMode, levelId?: number, roomCode?: str
     overlay.innerHTML = `
       <div style="position: absolute; top: 10px; right: 10px; color: white; font-family: 'Georgia', serif; background: rgba(0,0,0,0.7); padding: 15px; border-radius: 8px; border: 2px solid #ffd700;">
         <div style="color: #ffd700; font-weight: bold;">Room: ${code}</div>
-        <div style="font-size: 12px; margin-top: 5px; color: #87ceeb;">Share URL to invite friend!</div>
+        <div style="font-size: 12px; margin-top: 5px; color: #87ceeb;">${mode === 'spectate' ? 'Watching - Tab: next pirate, F: free camera' : 'Share URL to invite friend!'}</div>
+        <div id="room-spectators" style="font-size: 12px; margin-top: 5px; color: #ffd700;"></div>
         <div style="font-size: 11px; margin-top: 5px; color: #888;">Press ESC to return to menu</div>
       </div>
     `;
     document.body.appendChild(overlay);
 
-    currentGame = new Game(renderer, code, showMenu, selectedCharacterType);
+    currentGame = new Game(renderer, code, showMenu, selectedCharacterType, mode);
     await currentGame.start();
   }
 }
 
 // Initialize
+restoreLevelPacks();
 showMenu();
@@ -0,0 +1,688 @@
+import { LevelData, EnemyType, TileShape } from './types';
+import { CAMPAIGN_LEVELS } from './game/levels';
+import {
+  GRID_SIZE, EditorSelection, EditorObjectKind, BoxKind, ItemKind, MarkerKind, Rect,
+  isBoxKind, createBlankLevel, listObjects, getObjectBounds, findObjectAt, getObject,
+  addBox, placeObject, moveObject, resizeObject, removeObject, exportLevel, importLevel
+} from './game/levelEditing';
+import { getTile, getSlopeCorners, ONE_WAY_THICKNESS } from './game/tiles';
+
+const DRAFT_KEY = 'piratical_editor_level';
+const HANDLE_SIZE = 10; // pixels on screen for the resize grip of a selected box
+const ZOOMS = [0.5, 0.75, 1];
+
+type EditorTool = 'select' | BoxKind | ItemKind | MarkerKind;
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'select', label: '👆 Select' },
+  { tool: 'platform', label: '🟫 Platform' },
+  { tool: 'movingPlatform', label: '↔️ Moving' },
+  { tool: 'spike', label: '🔺 Spikes' },
+  { tool: 'doubloon', label: '💰 Doubloon' },
+  { tool: 'enemy', label: '🦀 Enemy' },
+  { tool: 'checkpoint', label: '🚩 Checkpoint' },
+  { tool: 'rum', label: '🍾 Rum' },
+  { tool: 'coconut', label: '🥥 Coconut' },
+  { tool: 'swordChest', label: '⚔️ Sword Chest' },
+  { tool: 'spawn', label: '🏴‍☠️ Spawn' },
+  { tool: 'goal', label: '💎 Goal' }
+];
+
+const COLORS: Record<EditorObjectKind, string> = {
+  platform: '#8b5a2b',
+  movingPlatform: '#d2691e',
+  spike: '#9e9e9e',
+  doubloon: '#ffd700',
+  enemy: '#e74c3c',
+  checkpoint: '#2ecc71',
+  rum: '#a0522d',
+  coconut: '#6d4c41',
+  swordChest: '#c0c0c0',
+  spawn: '#3498db',
+  goal: '#f1c40f'
+};
+
+// Editable numbers for each kind of object, beyond its position
+const NUMBER_FIELDS: Partial<Record<EditorObjectKind, string[]>> = {
+  platform: ['w', 'h'],
+  movingPlatform: ['w', 'h', 'moveX', 'moveY', 'speed', 'phase'],
+  spike: ['w'],
+  enemy: ['patrolWidth', 'patrolHeight', 'fireRate']
+};
+
+type Drag =
+  | { mode: 'move'; offsetX: number; offsetY: number }
+  | { mode: 'resize' }
+  | { mode: 'draw'; kind: BoxKind; startX: number; startY: number; rect: Rect };
+
+/**
+ * Grid editor for LevelData: place and resize everything a level holds, play-test it
+ * and export it as JSON. The level in progress is kept in localStorage between visits.
+ */
+export class LevelEditor {
+  private container: HTMLDivElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private level: LevelData = createBlankLevel();
+  private tool: EditorTool = 'select';
+  private enemyType: EnemyType = EnemyType.CRAB;
+  private selection: EditorSelection | null = null;
+  private drag: Drag | null = null;
+  private zoom = 0.75;
+
+  constructor(
+    private onPlaytest: (level: LevelData) => void,
+    private onExit: () => void
+  ) {
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  public show() {
+    this.level = this.loadDraft();
+    this.selection = null;
+    this.render();
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  public hide() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    if (this.container && this.container.parentNode) {
+      this.container.parentNode.removeChild(this.container);
+    }
+    this.container = null;
+    this.canvas = null;
+  }
+
+  private loadDraft(): LevelData {
+    try {
+      const saved = localStorage.getItem(DRAFT_KEY);
+      if (saved) return importLevel(saved);
+    } catch (e) {
+      console.warn('Failed to load editor level:', e);
+    }
+    return createBlankLevel();
+  }
+
+  private saveDraft() {
+    try {
+      localStorage.setItem(DRAFT_KEY, exportLevel(this.level));
+    } catch (e) {
+      console.warn('Failed to save editor level:', e);
+    }
+  }
+
+  // Something changed the level: keep it, redraw it and refresh the panel
+  private changed() {
+    this.saveDraft();
+    this.draw();
+    this.renderProperties();
+  }
+
+  private render() {
+    this.hide();
+    this.attachStyles();
+
+    this.container = document.createElement('div');
+    this.container.id = 'level-editor';
+    this.container.innerHTML = `
+      <div class="editor-toolbar">
+        ${TOOLS.map(({ tool, label }) => `
+          <button class="editor-tool ${tool === this.tool ? 'active' : ''}" data-tool="${tool}">${label}</button>
+        `).join('')}
+        <select id="editor-enemy-type" title="Enemy to place">
+          ${Object.values(EnemyType).map(type => `
+            <option value="${type}" ${type === this.enemyType ? 'selected' : ''}>${type}</option>
+          `).join('')}
+        </select>
+      </div>
+      <div class="editor-main">
+        <div class="editor-viewport"><canvas id="editor-canvas"></canvas></div>
+        <div class="editor-sidebar">
+          <div class="editor-actions">
+            <button id="editor-playtest" class="editor-primary">▶ Play Test</button>
+            <button id="editor-export">💾 Export JSON</button>
+            <button id="editor-import">📂 Import JSON</button>
+            <input type="file" id="editor-file-input" accept=".json,application/json" style="display: none;">
+            <select id="editor-template">
+              <option value="">Start from...</option>
+              <option value="blank">A blank island</option>
+              ${CAMPAIGN_LEVELS.map(l => `<option value="${l.id}">${l.id}. ${l.name}</option>`).join('')}
+            </select>
+            <select id="editor-zoom">
+              ${ZOOMS.map(z => `<option value="${z}" ${z === this.zoom ? 'selected' : ''}>${z * 100}%</option>`).join('')}
+            </select>
+            <button id="editor-exit">⬅ Back to Menu</button>
+          </div>
+          <div id="editor-properties"></div>
+          <div class="editor-help">
+            Drag to draw boxes, click to place. Select to move; drag a box's corner to resize.
+            Right-click or Delete removes.
+          </div>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(this.container);
+
+    this.canvas = document.getElementById('editor-canvas') as HTMLCanvasElement;
+    this.attachEventListeners();
+    this.draw();
+    this.renderProperties();
+  }
+
+  private attachEventListeners() {
+    this.container!.querySelectorAll<HTMLButtonElement>('.editor-tool').forEach(button => {
+      button.onclick = () => this.selectTool(button.dataset.tool as EditorTool);
+    });
+
+    const enemySelect = document.getElementById('editor-enemy-type') as HTMLSelectElement;
+    enemySelect.onchange = () => {
+      this.enemyType = enemySelect.value as EnemyType;
+      this.selectTool('enemy');
+    };
+
+    document.getElementById('editor-playtest')!.onclick = () => {
+      this.saveDraft();
+      this.onPlaytest(structuredClone(this.level));
+    };
+
+    document.getElementById('editor-export')!.onclick = () => this.exportFile();
+
+    const fileInput = document.getElementById('editor-file-input') as HTMLInputElement;
+    document.getElementById('editor-import')!.onclick = () => fileInput.click();
+    fileInput.onchange = async () => {
+      const file = fileInput.files && fileInput.files[0];
+      fileInput.value = '';
+      if (!file) return;
+      try {
+        this.setLevel(importLevel(await file.text()));
+      } catch (e) {
+        alert(`Couldn't load level: ${(e as Error).message}`);
+      }
+    };
+
+    const template = document.getElementById('editor-template') as HTMLSelectElement;
+    template.onchange = () => {
+      const choice = template.value;
+      template.value = '';
+      if (!choice || !confirm('Replace the level you are editing?')) return;
+      const campaignLevel = CAMPAIGN_LEVELS.find(l => String(l.id) === choice);
+      this.setLevel(campaignLevel ? structuredClone(campaignLevel) : createBlankLevel());
+    };
+
+    const zoomSelect = document.getElementById('editor-zoom') as HTMLSelectElement;
+    zoomSelect.onchange = () => {
+      this.zoom = Number(zoomSelect.value);
+      this.draw();
+    };
+
+    document.getElementById('editor-exit')!.onclick = () => {
+      this.hide();
+      this.onExit();
+    };
+
+    const canvas = this.canvas!;
+    canvas.onmousedown = (e) => this.handleMouseDown(e);
+    canvas.onmousemove = (e) => this.handleMouseMove(e);
+    canvas.onmouseup = () => this.handleMouseUp();
+    canvas.onmouseleave = () => this.handleMouseUp();
+    canvas.oncontextmenu = (e) => e.preventDefault();
+  }
+
+  private selectTool(tool: EditorTool) {
+    this.tool = tool;
+    this.container!.querySelectorAll<HTMLButtonElement>('.editor-tool').forEach(button => {
+      button.classList.toggle('active', button.dataset.tool === tool);
+    });
+  }
+
+  private setLevel(level: LevelData) {
+    this.level = level;
+    this.selection = null;
+    this.changed();
+  }
+
+  private exportFile() {
+    const blob = new Blob([exportLevel(this.level)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private toWorld(e: MouseEvent): { x: number; y: number } {
+    const bounds = this.canvas!.getBoundingClientRect();
+    return {
+      x: (e.clientX - bounds.left) / this.zoom,
+      y: (e.clientY - bounds.top) / this.zoom
+    };
+  }
+
+  private isOnResizeHandle(x: number, y: number): boolean {
+    if (!this.selection || !isBoxKind(this.selection.kind)) return false;
+    const bounds = getObjectBounds(this.level, this.selection);
+    const handle = HANDLE_SIZE / this.zoom;
+    return x >= bounds.x + bounds.w - handle && x <= bounds.x + bounds.w + handle
+      && y >= bounds.y + bounds.h - handle && y <= bounds.y + bounds.h + handle;
+  }
+
+  private handleMouseDown(e: MouseEvent) {
+    const { x, y } = this.toWorld(e);
+
+    if (e.button === 2) {
+      const hit = findObjectAt(this.level, x, y);
+      if (hit && removeObject(this.level, hit)) {
+        this.selection = null;
+        this.changed();
+      }
+      return;
+    }
+
+    if (this.tool === 'select') {
+      if (this.isOnResizeHandle(x, y)) {
+        this.drag = { mode: 'resize' };
+        return;
+      }
+      this.selection = findObjectAt(this.level, x, y);
+      if (this.selection) {
+        const bounds = getObjectBounds(this.level, this.selection);
+        this.drag = { mode: 'move', offsetX: x - bounds.x, offsetY: y - bounds.y };
+      }
+      this.draw();
+      this.renderProperties();
+    } else if (isBoxKind(this.tool)) {
+      this.drag = { mode: 'draw', kind: this.tool, startX: x, startY: y, rect: { x, y, w: 0, h: 0 } };
+    } else {
+      // Placed objects can be nudged into place before letting go
+      this.selection = placeObject(this.level, this.tool, { x, y }, this.enemyType);
+      this.drag = { mode: 'move', offsetX: 0, offsetY: 0 };
+      this.changed();
+    }
+  }
+
+  private handleMouseMove(e: MouseEvent) {
+    if (!this.drag) return;
+    const { x, y } = this.toWorld(e);
+
+    if (this.drag.mode === 'draw') {
+      this.drag.rect = { x: this.drag.startX, y: this.drag.startY, w: x - this.drag.startX, h: y - this.drag.startY };
+    } else if (this.drag.mode === 'move' && this.selection) {
+      moveObject(this.level, this.selection, x - this.drag.offsetX, y - this.drag.offsetY);
+    } else if (this.drag.mode === 'resize' && this.selection) {
+      const bounds = getObjectBounds(this.level, this.selection);
+      resizeObject(this.level, this.selection, x - bounds.x, y - bounds.y);
+    }
+    this.draw();
+  }
+
+  private handleMouseUp() {
+    const drag = this.drag;
+    this.drag = null;
+    if (!drag) return;
+
+    if (drag.mode === 'draw') {
+      // A click without a drag still makes a one-cell box
+      this.selection = addBox(this.level, drag.kind, drag.rect);
+    }
+    this.changed();
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    // Typing in the properties panel shouldn't delete things
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+    if ((e.code === 'Delete' || e.code === 'Backspace') && this.selection) {
+      e.preventDefault();
+      if (removeObject(this.level, this.selection)) {
+        this.selection = null;
+        this.changed();
+      }
+    } else if (e.code === 'Escape') {
+      this.selection = null;
+      this.selectTool('select');
+      this.draw();
+      this.renderProperties();
+    }
+  }
+
+  private renderProperties() {
+    const panel = document.getElementById('editor-properties');
+    if (!panel) return;
+
+    const level = this.level;
+    const numberInput = (name: string, label: string, value: number | undefined, step = 'any') => `
+      <label>${label}<input type="number" step="${step}" data-field="${name}" value="${value ?? ''}"></label>
+    `;
+
+    let selected = '';
+    if (this.selection) {
+      const target = getObject(level, this.selection) as unknown as Record<string, unknown>;
+      const fields = NUMBER_FIELDS[this.selection.kind] || [];
+      selected = `
+        <h3>${TOOLS.find(t => t.tool === this.selection!.kind)?.label ?? this.selection.kind}</h3>
+        ${this.selection.kind === 'enemy' ? `
+          <label>type<select data-field="type">
+            ${Object.values(EnemyType).map(type => `
+              <option value="${type}" ${(target.type || EnemyType.CRAB) === type ? 'selected' : ''}>${type}</option>
+            `).join('')}
+          </select></label>
+          <label>facing left<input type="checkbox" data-field="facingLeft" ${target.facingLeft ? 'checked' : ''}></label>
+        ` : ''}
+        ${['x', 'y', ...fields].map(field => numberInput(field, field, target[field] as number | undefined)).join('')}
+        ${this.selection.kind !== 'spawn' && this.selection.kind !== 'goal' ? '<button id="editor-delete">🗑 Delete</button>' : ''}
+      `;
+    }
+
+    panel.innerHTML = `
+      <h3>Level</h3>
+      <label>name<input type="text" data-level="name" value="${level.name.replace(/"/g, '&quot;')}"></label>
+      <label>width<input type="number" step="${GRID_SIZE}" data-level="width" value="${level.width}"></label>
+      <label>height<input type="number" step="${GRID_SIZE}" data-level="height" value="${level.height}"></label>
+      <label>doubloons to unlock<input type="number" step="1" min="0" data-level="requiredDoubloons" value="${level.requiredDoubloons ?? ''}"></label>
+      <div class="editor-count">${listObjects(level).length} objects, ${level.doubloons.length} doubloons</div>
+      ${selected}
+    `;
+
+    panel.querySelectorAll<HTMLInputElement>('[data-level]').forEach(input => {
+      input.onchange = () => this.setLevelField(input.dataset.level!, input.value);
+    });
+    panel.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-field]').forEach(input => {
+      input.onchange = () => this.setObjectField(input.dataset.field!, input);
+    });
+
+    const deleteBtn = document.getElementById('editor-delete');
+    if (deleteBtn) {
+      deleteBtn.onclick = () => {
+        if (this.selection && removeObject(this.level, this.selection)) {
+          this.selection = null;
+          this.changed();
+        }
+      };
+    }
+  }
+
+  private setLevelField(field: string, value: string) {
+    if (field === 'name') {
+      this.level.name = value || this.level.name;
+    } else if (field === 'requiredDoubloons') {
+      if (value === '') delete this.level.requiredDoubloons;
+      else this.level.requiredDoubloons = Math.max(0, Math.floor(Number(value)));
+    } else if (field === 'width' || field === 'height') {
+      const size = Math.round(Number(value) / GRID_SIZE) * GRID_SIZE;
+      if (size >= GRID_SIZE) this.level[field] = size;
+    }
+    this.changed();
+  }
+
+  private setObjectField(field: string, input: HTMLInputElement | HTMLSelectElement) {
+    if (!this.selection) return;
+    const target = getObject(this.level, this.selection) as unknown as Record<string, unknown>;
+
+    if (input instanceof HTMLInputElement && input.type === 'checkbox') {
+      target[field] = input.checked;
+    } else if (field === 'type') {
+      target[field] = input.value as EnemyType;
+    } else if (input.value === '') {
+      // Optional numbers fall back to their defaults; position and size can't be cleared
+      if (field !== 'x' && field !== 'y' && field !== 'w' && field !== 'h' && field !== 'speed') delete target[field];
+    } else if (Number.isFinite(Number(input.value))) {
+      target[field] = Number(input.value);
+    }
+    this.changed();
+  }
+
+  private draw() {
+    const canvas = this.canvas;
+    if (!canvas) return;
+    const level = this.level;
+    canvas.width = level.width * this.zoom;
+    canvas.height = level.height * this.zoom;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(this.zoom, 0, 0, this.zoom, 0, 0);
+
+    ctx.fillStyle = `#${(level.background ?? 0x87ceeb).toString(16).padStart(6, '0')}`;
+    ctx.fillRect(0, 0, level.width, level.height);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+    ctx.lineWidth = 1 / this.zoom;
+    ctx.beginPath();
+    for (let x = 0; x <= level.width; x += GRID_SIZE) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, level.height);
+    }
+    for (let y = 0; y <= level.height; y += GRID_SIZE) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(level.width, y);
+    }
+    ctx.stroke();
+
+    this.drawTiles(ctx);
+    for (const object of listObjects(level)) {
+      this.drawObject(ctx, object);
+    }
+
+    if (this.drag && this.drag.mode === 'draw') {
+      const { x, y, w, h } = this.drag.rect;
+      ctx.fillStyle = 'rgba(255, 215, 0, 0.3)';
+      ctx.fillRect(x, y, w, h);
+    }
+
+    if (this.selection) {
+      const bounds = getObjectBounds(level, this.selection);
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2 / this.zoom;
+      ctx.setLineDash([6 / this.zoom, 4 / this.zoom]);
+      ctx.strokeRect(bounds.x, bounds.y, bounds.w, bounds.h);
+      ctx.setLineDash([]);
+      if (isBoxKind(this.selection.kind)) {
+        const handle = HANDLE_SIZE / this.zoom;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(bounds.x + bounds.w - handle / 2, bounds.y + bounds.h - handle / 2, handle, handle);
+      }
+    }
+  }
+
+  // Tile layers come from imported JSON; the editor shows them but can't change them
+  private drawTiles(ctx: CanvasRenderingContext2D) {
+    const layer = this.level.tiles;
+    if (!layer) return;
+    const size = layer.tileSize;
+
+    layer.rows.forEach((ids, row) => ids.forEach((_, column) => {
+      const tile = getTile(layer, column, row);
+      if (!tile) return;
+      const x = column * size;
+      const y = row * size;
+      ctx.fillStyle = `#${tile.color.toString(16).padStart(6, '0')}`;
+      if (tile.shape === TileShape.SOLID) {
+        ctx.fillRect(x, y, size, size);
+      } else if (tile.shape === TileShape.ONE_WAY) {
+        ctx.fillRect(x, y, size, ONE_WAY_THICKNESS);
+      } else {
+        const [first, ...rest] = getSlopeCorners(tile.shape, x, y, size);
+        ctx.beginPath();
+        ctx.moveTo(first.x, first.y);
+        rest.forEach(corner => ctx.lineTo(corner.x, corner.y));
+        ctx.closePath();
+        ctx.fill();
+      }
+    }));
+  }
+
+  private drawObject(ctx: CanvasRenderingContext2D, object: EditorSelection) {
+    const { x, y, w, h } = getObjectBounds(this.level, object);
+    ctx.fillStyle = COLORS[object.kind];
+
+    switch (object.kind) {
+      case 'spike':
+        ctx.beginPath();
+        for (let sx = x; sx < x + w; sx += GRID_SIZE) {
+          ctx.moveTo(sx, y + h);
+          ctx.lineTo(sx + GRID_SIZE / 2, y);
+          ctx.lineTo(Math.min(sx + GRID_SIZE, x + w), y + h);
+        }
+        ctx.fill();
+        break;
+      case 'doubloon':
+      case 'coconut':
+        ctx.beginPath();
+        ctx.arc(x + w / 2, y + h / 2, w / 2, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 'movingPlatform': {
+        // Where the platform swings to, as an outline
+        const platform = this.level.movingPlatforms![object.index];
+        ctx.strokeStyle = COLORS.movingPlatform;
+        ctx.lineWidth = 1 / this.zoom;
+        ctx.setLineDash([4 / this.zoom, 4 / this.zoom]);
+        ctx.strokeRect(x + (platform.moveX || 0), y + (platform.moveY || 0), w, h);
+        ctx.setLineDash([]);
+        ctx.fillRect(x, y, w, h);
+        break;
+      }
+      case 'enemy': {
+        const enemy = this.level.enemies![object.index];
+        ctx.fillRect(x, y, w, h);
+        if (enemy.patrolWidth) {
+          ctx.fillStyle = 'rgba(231, 76, 60, 0.25)';
+          ctx.fillRect(x, y + h - 4, enemy.patrolWidth, 4);
+        }
+        ctx.fillStyle = '#ffffff';
+        ctx.font = '12px sans-serif';
+        ctx.fillText((enemy.type || EnemyType.CRAB).charAt(0), x + 4, y + 14);
+        break;
+      }
+      case 'checkpoint':
+        ctx.fillRect(x, y, 4, h);
+        ctx.fillRect(x + 4, y, w - 4, h / 3);
+        break;
+      default:
+        ctx.fillRect(x, y, w, h);
+    }
+  }
+
+  private attachStyles() {
+    if (document.getElementById('level-editor-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'level-editor-styles';
+    style.textContent = `
+      #level-editor {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        z-index: 800;
+        display: flex;
+        flex-direction: column;
+        background: #0a1628;
+        color: white;
+        font-family: 'Georgia', serif;
+      }
+
+      .editor-toolbar {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        padding: 8px;
+        background: #132744;
+        border-bottom: 2px solid #ffd700;
+      }
+
+      .editor-toolbar button,
+      .editor-toolbar select,
+      .editor-actions button,
+      .editor-actions select,
+      #editor-properties button {
+        padding: 6px 10px;
+        font-family: 'Georgia', serif;
+        font-size: 13px;
+        color: white;
+        background: rgba(0, 0, 0, 0.35);
+        border: 1px solid #5d7a99;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .editor-tool.active {
+        border-color: #ffd700;
+        color: #ffd700;
+      }
+
+      .editor-main {
+        flex: 1;
+        display: flex;
+        min-height: 0;
+      }
+
+      .editor-viewport {
+        flex: 1;
+        overflow: auto;
+        padding: 10px;
+      }
+
+      #editor-canvas {
+        display: block;
+        cursor: crosshair;
+      }
+
+      .editor-sidebar {
+        width: 260px;
+        padding: 10px;
+        overflow-y: auto;
+        background: #132744;
+        border-left: 2px solid #ffd700;
+      }
+
+      .editor-actions {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        margin-bottom: 10px;
+      }
+
+      .editor-actions .editor-primary {
+        background: #ffd700;
+        color: #1a1a1a;
+        font-weight: bold;
+      }
+
+      #editor-properties h3 {
+        margin: 12px 0 6px 0;
+        color: #ffd700;
+        font-size: 15px;
+      }
+
+      #editor-properties label {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 4px;
+        font-size: 13px;
+        color: #87ceeb;
+      }
+
+      #editor-properties input[type="number"],
+      #editor-properties input[type="text"],
+      #editor-properties select {
+        width: 120px;
+        padding: 3px;
+        background: rgba(0, 0, 0, 0.35);
+        color: white;
+        border: 1px solid #5d7a99;
+      }
+
+      .editor-count,
+      .editor-help {
+        margin-top: 8px;
+        font-size: 12px;
+        color: #888;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
@@ -0,0 +1,264 @@
+import { LobbyPlayer, RoomMode } from './types';
+import { CHARACTERS } from './menu';
+import { CAMPAIGN_LEVELS } from './game/levels';
+import { MIN_RACERS } from './game/race';
+
+const MODE_NAMES: { [mode in RoomMode]: string } = {
+  multiplayer: '🤝 Co-op',
+  race: '🏁 Race'
+};
+
+/**
+ * Pre-game room screen: lists the crew with their characters and ready state.
+ * The host picks the level; everyone toggles ready and the host starts once the whole crew is.
+ */
+export class LobbyScreen {
+  private container: HTMLDivElement | null = null;
+  private players: LobbyPlayer[] = [];
+  private maxPlayers = 0;
+  private spectators = 0;
+  private levelId = CAMPAIGN_LEVELS[0].id;
+  private mode: RoomMode = 'multiplayer';
+  private localPlayerId: string | null = null;
+  private spectating = false;
+
+  constructor(
+    private roomCode: string,
+    private onReadyChange: (ready: boolean) => void,
+    private onSelectLevel: (levelId: number) => void,
+    private onSelectMode: (mode: RoomMode) => void,
+    private onStart: () => void,
+    private onLeave: () => void
+  ) {}
+
+  public show() {
+    this.render();
+  }
+
+  public hide() {
+    if (this.container && this.container.parentNode) {
+      this.container.parentNode.removeChild(this.container);
+      this.container = null;
+    }
+  }
+
+  public setLocalPlayer(playerId: string, spectating: boolean = false) {
+    this.localPlayerId = playerId;
+    this.spectating = spectating;
+    if (this.container) this.render();
+  }
+
+  public update(players: LobbyPlayer[], maxPlayers: number, levelId: number, mode: RoomMode, spectators: number) {
+    this.players = players;
+    this.maxPlayers = maxPlayers;
+    this.levelId = levelId;
+    this.mode = mode;
+    this.spectators = spectators;
+    if (this.container) this.render();
+  }
+
+  private render() {
+    this.hide();
+    this.attachStyles();
+
+    const local = this.players.find(p => p.id === this.localPlayerId);
+    const everyoneReady = this.players.length > 0 && this.players.every(p => p.ready);
+    const enoughPlayers = this.mode !== 'race' || this.players.length >= MIN_RACERS;
+
+    const rows = this.players.map(player => {
+      const character = CHARACTERS.find(c => c.type === player.characterType);
+      const isLocal = player.id === this.localPlayerId;
+      return `
+        <li class="lobby-player ${player.ready ? 'ready' : ''} ${isLocal ? 'local' : ''}">
+          <span class="lobby-player-name">${player.isHost ? '👑 ' : ''}${character ? character.name : player.characterType}${isLocal ? ' (you)' : ''}</span>
+          <span class="lobby-player-status">${!player.connected ? '📡 Reconnecting...' : player.ready ? '⚓ Ready' : 'Waiting...'}</span>
+        </li>
+      `;
+    }).join('');
+
+    const level = CAMPAIGN_LEVELS.find(l => l.id === this.levelId);
+    const levelChoice = local?.isHost
+      ? `<select id="lobby-level-select" class="lobby-level-select">
+          ${CAMPAIGN_LEVELS.map(l => `<option value="${l.id}" ${l.id === this.levelId ? 'selected' : ''}>${l.id}. ${l.name}</option>`).join('')}
+        </select>`
+      : `<span class="lobby-level-name">${level ? `${level.id}. ${level.name}` : '?'}</span>`;
+    const modeChoice = local?.isHost
+      ? `<select id="lobby-mode-select" class="lobby-level-select">
+          ${(Object.keys(MODE_NAMES) as RoomMode[]).map(m => `<option value="${m}" ${m === this.mode ? 'selected' : ''}>${MODE_NAMES[m]}</option>`).join('')}
+        </select>`
+      : `<span class="lobby-level-name">${MODE_NAMES[this.mode]}</span>`;
+
+    let startButton = '';
+    if (local?.isHost) {
+      startButton = `<button id="lobby-start-btn" class="lobby-btn start" ${everyoneReady && enoughPlayers ? '' : 'disabled'}>⛵ Set Sail</button>`;
+    }
+
+    this.container = document.createElement('div');
+    this.container.id = 'lobby-screen';
+    this.container.innerHTML = `
+      <div class="lobby-panel">
+        <h2 class="lobby-title">Room ${this.roomCode}</h2>
+        <div class="lobby-count">${this.players.length}/${this.maxPlayers || '?'} pirates aboard${this.spectators > 0 ? ` · 👁️ ${this.spectators} watching` : ''}</div>
+        <div class="lobby-level">🗺️ ${levelChoice} ${modeChoice}</div>
+        <ul class="lobby-players">${rows}</ul>
+        <div class="lobby-hint">${local?.isHost
+          ? (!enoughPlayers ? `A race needs at least ${MIN_RACERS} pirates`
+            : everyoneReady ? 'The crew is ready - set sail when you are!' : 'Waiting for the whole crew to be ready')
+          : this.spectating ? "You're watching - the crew sets sail once everyone is ready" : 'The host starts the game once everyone is ready'}</div>
+        <div class="lobby-buttons">
+          ${this.spectating ? '' : `<button id="lobby-ready-btn" class="lobby-btn" ${local ? '' : 'disabled'}>${local?.ready ? 'Not Ready' : 'Ready'}</button>`}
+          ${startButton}
+          <button id="lobby-leave-btn" class="lobby-btn leave">Leave</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(this.container);
+
+    const readyBtn = document.getElementById('lobby-ready-btn');
+    if (readyBtn && local) {
+      readyBtn.onclick = () => this.onReadyChange(!local.ready);
+    }
+
+    const levelSelect = document.getElementById('lobby-level-select') as HTMLSelectElement | null;
+    if (levelSelect) {
+      levelSelect.onchange = () => this.onSelectLevel(Number(levelSelect.value));
+    }
+
+    const modeSelect = document.getElementById('lobby-mode-select') as HTMLSelectElement | null;
+    if (modeSelect) {
+      modeSelect.onchange = () => this.onSelectMode(modeSelect.value as RoomMode);
+    }
+
+    const startBtn = document.getElementById('lobby-start-btn');
+    if (startBtn) {
+      startBtn.onclick = () => this.onStart();
+    }
+
+    const leaveBtn = document.getElementById('lobby-leave-btn');
+    if (leaveBtn) {
+      leaveBtn.onclick = () => this.onLeave();
+    }
+  }
+
+  private attachStyles() {
+    if (document.getElementById('lobby-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'lobby-styles';
+    style.textContent = `
+      #lobby-screen {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        z-index: 900;
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        background: rgba(10, 22, 40, 0.85);
+      }
+
+      .lobby-panel {
+        min-width: 360px;
+        padding: 30px 40px;
+        background: linear-gradient(180deg, #132744 0%, #1d4e6a 100%);
+        border: 3px solid #ffd700;
+        border-radius: 12px;
+        color: white;
+        font-family: 'Georgia', serif;
+        text-align: center;
+        box-shadow: 0 10px 40px rgba(0, 0, 0, 0.6);
+      }
+
+      .lobby-title {
+        margin: 0;
+        color: #ffd700;
+        letter-spacing: 2px;
+      }
+
+      .lobby-count {
+        margin-top: 6px;
+        color: #87ceeb;
+        font-size: 14px;
+      }
+
+      .lobby-level {
+        margin-top: 14px;
+        color: #ffd700;
+      }
+
+      .lobby-level-select {
+        font-family: 'Georgia', serif;
+        font-size: 14px;
+        padding: 4px 8px;
+        border-radius: 4px;
+      }
+
+      .lobby-players {
+        list-style: none;
+        padding: 0;
+        margin: 20px 0;
+      }
+
+      .lobby-player {
+        display: flex;
+        justify-content: space-between;
+        padding: 10px 14px;
+        margin-bottom: 8px;
+        border-radius: 6px;
+        background: rgba(0, 0, 0, 0.35);
+        border: 1px solid transparent;
+      }
+
+      .lobby-player.local {
+        border-color: #87ceeb;
+      }
+
+      .lobby-player.ready .lobby-player-status {
+        color: #2ecc71;
+      }
+
+      .lobby-player-status {
+        color: #aaa;
+      }
+
+      .lobby-hint {
+        font-size: 13px;
+        color: #ccc;
+        margin-bottom: 16px;
+      }
+
+      .lobby-buttons {
+        display: flex;
+        gap: 10px;
+        justify-content: center;
+      }
+
+      .lobby-btn {
+        padding: 10px 18px;
+        font-family: 'Georgia', serif;
+        font-size: 15px;
+        color: #1a1a1a;
+        background: #ffd700;
+        border: none;
+        border-radius: 6px;
+        cursor: pointer;
+      }
+
+      .lobby-btn.start {
+        background: #2ecc71;
+      }
+
+      .lobby-btn.leave {
+        background: #888;
+      }
+
+      .lobby-btn:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
@@ -1,7 +1,9 @@
 import { GameMode, CampaignProgress, CharacterType, CharacterInfo } from './types';
 import { CAMPAIGN_LEVELS } from './game/levels';
+import { Replay, parseReplay, loadLastReplay } from './game/replay';
+import { createVoyageSeed, normalizeVoyageSeed, loadVoyageRecords } from './game/voyage';
 
-const CHARACTERS: CharacterInfo[] = [
+export const CHARACTERS: CharacterInfo[] = [
   { type: CharacterType.PIRATE, name: 'Captain Jack', description: 'A classic swashbuckler', unlocked: true },
   { type: CharacterType.GIRL_PIRATE, name: 'Scarlet Rose', description: 'The fiercest corsair of the seven seas', unlocked: true },
   { type: CharacterType.OCTOPUS, name: 'Inky Pete', description: 'Eight arms of pirate fury', unlocked: true },
@@ -16,9 +18,18 @@ export class MainMenu {
   private progress: CampaignProgress;
   private pendingMode: GameMode | null = null;
   private pendingRoomCode: string | null = null;
-
-  constructor(onModeSelect: (mode: GameMode, levelId?: number, roomCode?: string, characterType?: CharacterType) => void) {
+  private onWatchReplay: ((replay: Replay) => void) | null;
+  private onOpenEditor: (() => void) | null;
+  private lastReplay: Replay | null = null;
+
+  constructor(
+    onModeSelect: (mode: GameMode, levelId?: number, roomCode?: string, characterType?: CharacterType) => void,
+    onWatchReplay?: (replay: Replay) => void,
+    onOpenEditor?: () => void
+  ) {
     this.onModeSelect = onModeSelect;
+    this.onWatchReplay = onWatchReplay || null;
+    this.onOpenEditor = onOpenEditor || null;
     this.progress = this.loadProgress();
   }
 
@@ -41,6 +52,7 @@ export class MainMenu {
 
   public show() {
     this.progress = this.loadProgress();
+    this.lastReplay = loadLastReplay();
     this.render();
   }
 
@@ -57,6 +69,8 @@ export class MainMenu {
     
     const urlParams = new URLSearchParams(window.location.search);
     const roomFromUrl = urlParams.get('room');
+    const voyageFromUrl = normalizeVoyageSeed(urlParams.get('voyage') || '') || null;
+    const voyageBest = voyageFromUrl ? loadVoyageRecords()[voyageFromUrl] : undefined;
 
     // Add styles first
     this.attachStyles();
@@ -92,8 +106,38 @@ export class MainMenu {
                 <span class="btn-desc">Play with Friends</span>
               </span>
             </button>
+
+            <button class="menu-btn race-btn" id="race-btn">
+              <span class="btn-icon">🏁</span>
+              <span class="btn-text">
+                <span class="btn-title">Race</span>
+                <span class="btn-desc">First to the Treasure Wins</span>
+              </span>
+            </button>
+
+            <button class="menu-btn voyage-btn" id="voyage-btn">
+              <span class="btn-icon">🧭</span>
+              <span class="btn-text">
+                <span class="btn-title">Endless Voyage</span>
+                <span class="btn-desc">How Far Can Ye Sail?</span>
+              </span>
+            </button>
           </div>
 
+          ${this.onWatchReplay ? `
+            <div class="replay-buttons">
+              <button class="replay-btn" id="watch-replay-btn">🎬 Watch Replay File</button>
+              ${this.lastReplay ? `<button class="replay-btn" id="watch-last-btn">⏪ Watch Last Run</button>` : ''}
+              <input type="file" id="replay-file-input" accept=".json,application/json" style="display: none;">
+            </div>
+          ` : ''}
+
+          ${this.onOpenEditor ? `
+            <div class="replay-buttons">
+              <button class="replay-btn" id="level-editor-btn">🛠️ Level Editor</button>
+            </div>
+          ` : ''}
+
           ${roomFromUrl ? `
             <div class="room-invite">
               <p>You've been invited to room: <strong>${roomFromUrl}</strong></p>
@@ -103,6 +147,19 @@ export class MainMenu {
                   <span class="btn-title">Join Room</span>
                 </span>
               </button>
+              <button class="replay-btn spectate-btn" id="spectate-room-btn">👁️ Just Watch</button>
+            </div>
+          ` : ''}
+
+          ${voyageFromUrl ? `
+            <div class="room-invite">
+              <p>You've been challenged to the voyage: <strong>${voyageFromUrl}</strong>${voyageBest ? ` (your best: ${voyageBest} m)` : ''}</p>
+              <button class="menu-btn join-btn" id="set-sail-btn">
+                <span class="btn-icon">🧭</span>
+                <span class="btn-text">
+                  <span class="btn-title">Set Sail</span>
+                </span>
+              </button>
             </div>
           ` : ''}
 
@@ -141,7 +198,7 @@ export class MainMenu {
     document.body.appendChild(this.container);
     
     // Now attach event listeners after DOM is ready
-    this.attachEventListeners(roomFromUrl);
+    this.attachEventListeners(roomFromUrl, voyageFromUrl);
   }
 
   private attachStyles() {
@@ -293,6 +350,29 @@ export class MainMenu {
         font-family: sans-serif;
       }
 
+      .replay-buttons {
+        display: flex;
+        justify-content: center;
+        gap: 15px;
+        margin-bottom: 30px;
+      }
+
+      .replay-btn {
+        padding: 10px 18px;
+        background: rgba(0, 0, 0, 0.3);
+        border: 2px solid #87ceeb;
+        border-radius: 8px;
+        color: #87ceeb;
+        font-family: 'Cinzel', serif;
+        cursor: pointer;
+        transition: all 0.2s ease;
+      }
+
+      .replay-btn:hover {
+        background: rgba(135, 206, 235, 0.15);
+        color: #fff;
+      }
+
       .room-invite {
         background: rgba(255, 215, 0, 0.1);
         border: 2px solid #ffd700;
@@ -301,6 +381,10 @@ export class MainMenu {
         margin-bottom: 30px;
       }
 
+      .spectate-btn {
+        margin-top: 12px;
+      }
+
       .room-invite p {
         color: #ffd700;
         margin: 0 0 15px 0;
@@ -618,7 +702,7 @@ export class MainMenu {
     document.head.appendChild(style);
   }
 
-  private attachEventListeners(roomFromUrl: string | null) {
+  private attachEventListeners(roomFromUrl: string | null, voyageFromUrl: string | null) {
     // Campaign button - show character selection
     const campaignBtn = document.getElementById('campaign-btn');
     if (campaignBtn) {
@@ -642,6 +726,75 @@ export class MainMenu {
       };
     }
 
+    // Race button - a new room that races instead of co-op
+    const raceBtn = document.getElementById('race-btn');
+    if (raceBtn) {
+      raceBtn.onclick = () => {
+        const roomCode = `SHIP-${Math.random().toString().slice(2, 6)}`;
+        window.history.replaceState(null, '', `?room=${roomCode}`);
+        this.pendingMode = 'race';
+        this.pendingRoomCode = roomCode;
+        this.showCharacterSelection();
+      };
+    }
+
+    // Voyage button - a fresh seed, in the URL so it can be shared
+    const voyageBtn = document.getElementById('voyage-btn');
+    if (voyageBtn) {
+      voyageBtn.onclick = () => {
+        const seed = createVoyageSeed();
+        window.history.replaceState(null, '', `?voyage=${seed}`);
+        this.pendingMode = 'voyage';
+        this.pendingRoomCode = seed;
+        this.showCharacterSelection();
+      };
+    }
+
+    // Replays - load a saved file or the last completed run
+    const replayInput = document.getElementById('replay-file-input') as HTMLInputElement | null;
+    const watchReplayBtn = document.getElementById('watch-replay-btn');
+    if (watchReplayBtn && replayInput) {
+      watchReplayBtn.onclick = () => replayInput.click();
+      replayInput.onchange = async () => {
+        const file = replayInput.files && replayInput.files[0];
+        replayInput.value = '';
+        if (!file) return;
+        try {
+          this.watchReplay(parseReplay(await file.text()));
+        } catch (e) {
+          alert(`Couldn't load replay: ${(e as Error).message}`);
+        }
+      };
+    }
+
+    const watchLastBtn = document.getElementById('watch-last-btn');
+    if (watchLastBtn) {
+      watchLastBtn.onclick = () => {
+        if (this.lastReplay) this.watchReplay(this.lastReplay);
+      };
+    }
+
+    const editorBtn = document.getElementById('level-editor-btn');
+    if (editorBtn) {
+      editorBtn.onclick = () => {
+        if (!this.onOpenEditor) return;
+        this.hide();
+        this.onOpenEditor();
+      };
+    }
+
+    // Sail a voyage from the URL - show character selection
+    if (voyageFromUrl) {
+      const setSailBtn = document.getElementById('set-sail-btn');
+      if (setSailBtn) {
+        setSailBtn.onclick = () => {
+          this.pendingMode = 'voyage';
+          this.pendingRoomCode = voyageFromUrl;
+          this.showCharacterSelection();
+        };
+      }
+    }
+
     // Join room from URL - show character selection
     if (roomFromUrl) {
       const joinBtn = document.getElementById('join-room-btn');
@@ -652,9 +805,24 @@ export class MainMenu {
           this.showCharacterSelection();
         };
       }
+
+      // Spectators don't need a character
+      const spectateBtn = document.getElementById('spectate-room-btn');
+      if (spectateBtn) {
+        spectateBtn.onclick = () => {
+          this.hide();
+          this.onModeSelect('spectate', undefined, roomFromUrl);
+        };
+      }
     }
   }
 
+  private watchReplay(replay: Replay) {
+    if (!this.onWatchReplay) return;
+    this.hide();
+    this.onWatchReplay(replay);
+  }
+
   private showCharacterSelection() {
     // Remove any existing menu
     this.hide();
@@ -962,8 +1130,9 @@ export class MainMenu {
         if (characterType && this.pendingMode) {
           if (this.pendingMode === 'campaign') {
             this.onModeSelect('campaign', 1, undefined, characterType);
-          } else if (this.pendingMode === 'multiplayer') {
-            this.onModeSelect('multiplayer', undefined, this.pendingRoomCode || undefined, characterType);
+          } else if (this.pendingMode === 'multiplayer' || this.pendingMode === 'race' || this.pendingMode === 'voyage') {
+            // A voyage's seed travels in the room code slot
+            this.onModeSelect(this.pendingMode, undefined, this.pendingRoomCode || undefined, characterType);
           }
           this.pendingMode = null;
           this.pendingRoomCode = null;
@@ -0,0 +1,141 @@
+import { RaceResult } from './types';
+import { CHARACTERS } from './menu';
+
+const PLACE_BADGES = ['🥇', '🥈', '🥉'];
+
+/**
+ * End-of-race standings: place, finish time and doubloons for every racer.
+ */
+export class RaceResultsScreen {
+  private container: HTMLDivElement | null = null;
+
+  public show(results: RaceResult[], localPlayerId: string | null, onContinue: () => void) {
+    this.hide();
+    this.attachStyles();
+
+    const rows = results.map(result => {
+      const character = CHARACTERS.find(c => c.type === result.characterType);
+      const isLocal = result.playerId === localPlayerId;
+      const time = result.finishFrames === null ? 'DNF' : `${(result.finishFrames / 60).toFixed(2)}s`;
+      return `
+        <tr class="${isLocal ? 'local' : ''}">
+          <td>${PLACE_BADGES[result.place - 1] || result.place}</td>
+          <td class="race-results-name">${character ? character.name : result.characterType}${isLocal ? ' (you)' : ''}</td>
+          <td>${time}</td>
+          <td>💰 ${result.doubloons}</td>
+        </tr>
+      `;
+    }).join('');
+
+    const winner = results.find(r => r.place === 1 && r.finishFrames !== null);
+    const title = !winner ? 'Nobody reached the treasure!'
+      : winner.playerId === localPlayerId ? 'You won the race!'
+      : `${CHARACTERS.find(c => c.type === winner.characterType)?.name ?? 'A rival'} wins!`;
+
+    this.container = document.createElement('div');
+    this.container.id = 'race-results';
+    this.container.innerHTML = `
+      <div class="race-results-panel">
+        <h2 class="race-results-title">🏁 ${title}</h2>
+        <table class="race-results-table">
+          <tr><th></th><th>Pirate</th><th>Time</th><th>Doubloons</th></tr>
+          ${rows}
+        </table>
+        <button id="race-results-continue" class="race-results-btn">Back to the Lobby</button>
+      </div>
+    `;
+    document.body.appendChild(this.container);
+
+    const continueBtn = document.getElementById('race-results-continue');
+    if (continueBtn) {
+      continueBtn.onclick = () => {
+        this.hide();
+        onContinue();
+      };
+    }
+  }
+
+  public hide() {
+    if (this.container && this.container.parentNode) {
+      this.container.parentNode.removeChild(this.container);
+      this.container = null;
+    }
+  }
+
+  private attachStyles() {
+    if (document.getElementById('race-results-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'race-results-styles';
+    style.textContent = `
+      #race-results {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        z-index: 900;
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        background: rgba(10, 22, 40, 0.85);
+      }
+
+      .race-results-panel {
+        min-width: 420px;
+        padding: 30px 40px;
+        background: linear-gradient(180deg, #132744 0%, #1d4e6a 100%);
+        border: 3px solid #ffd700;
+        border-radius: 12px;
+        color: white;
+        font-family: 'Georgia', serif;
+        text-align: center;
+        box-shadow: 0 10px 40px rgba(0, 0, 0, 0.6);
+      }
+
+      .race-results-title {
+        margin: 0 0 20px 0;
+        color: #ffd700;
+        letter-spacing: 1px;
+      }
+
+      .race-results-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin-bottom: 20px;
+      }
+
+      .race-results-table th {
+        color: #87ceeb;
+        font-weight: normal;
+        font-size: 13px;
+        padding-bottom: 6px;
+      }
+
+      .race-results-table td {
+        padding: 8px;
+        background: rgba(0, 0, 0, 0.35);
+      }
+
+      .race-results-table tr.local td {
+        color: #ffd700;
+      }
+
+      .race-results-name {
+        text-align: left;
+      }
+
+      .race-results-btn {
+        padding: 10px 18px;
+        font-family: 'Georgia', serif;
+        font-size: 15px;
+        color: #1a1a1a;
+        background: #ffd700;
+        border: none;
+        border-radius: 6px;
+        cursor: pointer;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
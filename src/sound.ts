@@ -9,6 +9,8 @@
  * 4. The manager will automatically fall back to generated sounds if files fail to load
  */
 
+import { GameEvent, GameEventType } from './types';
+
 export enum SoundEffect {
   JUMP = 'jump',
   ATTACK = 'attack',
@@ -21,6 +23,18 @@ export enum SoundEffect {
   FOOTSTEP = 'footstep'
 }
 
+const EVENT_SOUNDS: { [type in GameEventType]?: SoundEffect } = {
+  [GameEventType.JUMP]: SoundEffect.JUMP,
+  [GameEventType.ATTACK]: SoundEffect.ATTACK,
+  [GameEventType.DOUBLOON_COLLECTED]: SoundEffect.COLLECT_DOUBLOON,
+  [GameEventType.SWORD_COLLECTED]: SoundEffect.COLLECT_SWORD,
+  [GameEventType.ENEMY_DEFEATED]: SoundEffect.ENEMY_DEFEAT,
+  [GameEventType.PLAYER_HIT]: SoundEffect.PLAYER_HIT,
+  [GameEventType.CHECKPOINT_REACHED]: SoundEffect.COLLECT_SWORD,
+  [GameEventType.LEVEL_COMPLETE]: SoundEffect.LEVEL_COMPLETE,
+  [GameEventType.CANNON_FIRED]: SoundEffect.CANNON_FIRE
+};
+
 export class SoundManager {
   private audioContext: AudioContext | null = null;
   private backgroundMusic: HTMLAudioElement | null = null;
@@ -192,6 +206,18 @@ export class SoundManager {
     this.playGeneratedSound(effect);
   }
 
+  /**
+   * Play the sound for each simulation event from a physics step
+   */
+  public handleEvents(events: GameEvent[]) {
+    for (const event of events) {
+      const effect = EVENT_SOUNDS[event.type];
+      if (effect) {
+        this.playSound(effect);
+      }
+    }
+  }
+
   /**
    * Load a sound effect from URL
    */
@@ -10,6 +10,7 @@ export interface Input {
   jump: boolean;
   action: boolean;
   dash: boolean;
+  down: boolean; // drop through one-way platforms
 }
 
 export interface PlayerState {
@@ -21,7 +22,7 @@ export interface PlayerState {
   width: number;
   height: number;
   color: number;
-  sizeModifier: number;
+  sizeModifier: number; // Coconut size-up, fixed-point (1024 = normal); width/height already include it
   health: number;
   doubloons: number;
   jumpHeld: boolean; // Track if jump key is held (to prevent auto-repeat)
@@ -36,6 +37,8 @@ export interface PlayerState {
   isDashing: boolean; // Is player currently dashing
   dashCooldown: number; // Frames until can dash again
   dashTimer: number; // Frames remaining in current dash
+  invulnerableTimer: number; // Frames of post-hit invulnerability remaining
+  reachedGoal: boolean; // Made it to the unlocked treasure (co-op waits for the whole crew)
 }
 
 export enum EntityType {
@@ -48,7 +51,8 @@ export enum EntityType {
   SPIKE = 'SPIKE',
   GOAL = 'GOAL',
   ENEMY = 'ENEMY',
-  SWORD_CHEST = 'SWORD_CHEST'
+  SWORD_CHEST = 'SWORD_CHEST',
+  CHECKPOINT = 'CHECKPOINT'
 }
 
 // Enemy types - progressively introduced through campaign
@@ -64,21 +68,23 @@ export enum EnemyType {
 export interface Entity {
   id: string;
   type: EntityType;
-  position: Vector;
-  velocity?: Vector;
-  width: number;
+  position: Vector;          // Scaled integers like PlayerState.position (top-left)
+  velocity?: Vector;         // Scaled units per frame
+  width: number;             // Pixels
   height: number;
   active: boolean;
   collected?: boolean;
+  collectedBy?: string;      // Player who picked up a doubloon
+  takenBy?: string[];        // Race mode: racers who've picked this up - each racer gets their own
   // Enemy-specific properties
   enemyType?: EnemyType;
   patrolDirection?: number;
-  spawnX?: number;           // Original spawn X for patrol bounds
-  spawnY?: number;           // Original spawn Y for floating enemies
-  patrolWidth?: number;      // Horizontal patrol range
-  patrolHeight?: number;     // Vertical patrol range (for flying/floating)
+  spawnX?: number;           // Original spawn X for patrol bounds (scaled)
+  spawnY?: number;           // Original spawn Y for floating enemies (scaled)
+  patrolWidth?: number;      // Horizontal patrol range in pixels
+  patrolHeight?: number;     // Vertical patrol range in pixels (for flying/floating)
   stateTimer?: number;       // General purpose timer for AI states
-  phase?: number;            // Animation phase (for sine waves, ghost fading)
+  phase?: number;            // Animation phase in integer angle units (for sine waves, ghost fading)
   isVisible?: boolean;       // For ghost enemies
   facingRight?: boolean;     // Direction enemy is facing
   isCharging?: boolean;      // For skeleton lunge attack
@@ -108,6 +114,27 @@ export interface MovingPlatform {
   phase?: number; // Starting phase offset
 }
 
+// How a tile collides. Slopes fill the tile diagonally and are named for the side
+// that's high; one-way planks only hold you up when you land on them from above.
+export enum TileShape {
+  SOLID = 'SOLID',
+  SLOPE_UP_RIGHT = 'SLOPE_UP_RIGHT', // ◢
+  SLOPE_UP_LEFT = 'SLOPE_UP_LEFT',   // ◣
+  ONE_WAY = 'ONE_WAY',
+}
+
+export interface TileDefinition {
+  shape: TileShape;
+  color: number;
+}
+
+// A grid of tiles over the level, alongside (or instead of) its rectangle platforms
+export interface TileLayer {
+  tileSize: number; // pixels, square
+  tileset: { [tileId: number]: TileDefinition }; // id 0 is always empty
+  rows: number[][]; // tile ids, rows[row][column] from the top-left of the level
+}
+
 export interface LevelData {
   id: number;
   name: string;
@@ -123,6 +150,42 @@ export interface LevelData {
   requiredDoubloons?: number;
   swordChest?: Vector; // Position of the sword power-up chest
   movingPlatforms?: MovingPlatform[];
+  checkpoints?: Vector[]; // Flag poles (top-left); touching one sets the respawn point
+  rum?: Vector[]; // Rum bottles - restore one heart
+  coconuts?: Vector[]; // Coconuts - grow the player, who shrinks back instead of losing health on a hit
+  tiles?: TileLayer;
+}
+
+// A campaign loaded from JSON at runtime, shown on the map next to the built-in one
+export interface LevelPack {
+  id: string;
+  name: string;
+  levels: LevelData[];
+}
+
+// Things that happened during a simulation step, for sound and visual effects to react to.
+// The simulation itself never plays sounds or spawns particles.
+export enum GameEventType {
+  JUMP = 'JUMP',
+  ATTACK = 'ATTACK',
+  DOUBLOON_COLLECTED = 'DOUBLOON_COLLECTED',
+  SWORD_COLLECTED = 'SWORD_COLLECTED',
+  ENEMY_DEFEATED = 'ENEMY_DEFEATED',
+  PLAYER_HIT = 'PLAYER_HIT',
+  CHECKPOINT_REACHED = 'CHECKPOINT_REACHED',
+  PLAYER_RESPAWNED = 'PLAYER_RESPAWNED',
+  GOAL_REACHED = 'GOAL_REACHED',
+  LEVEL_COMPLETE = 'LEVEL_COMPLETE',
+  CANNON_FIRED = 'CANNON_FIRED'
+}
+
+export interface GameEvent {
+  type: GameEventType;
+  frame: number;
+  position: Vector;      // World position in pixels (center of the entity or player)
+  playerId?: string;
+  entityId?: string;
+  enemyType?: EnemyType;
 }
 
 export interface CampaignProgress {
@@ -130,30 +193,69 @@ export interface CampaignProgress {
   totalDoubloons: number;
   unlockedLevels: number[];
   bestTimes: { [levelId: number]: number };
+  // Serialized replay of the run that set each best time, raced as a ghost
+  bestRuns?: { [levelId: number]: string };
+}
+
+// Saved when a checkpoint flag is raised. Treated as immutable - replaced, never edited.
+export interface CheckpointData {
+  entityId: string;
+  respawn: Vector; // Scaled bottom-center of the flag - players reappear standing here
+  doubloons: { [playerId: string]: number }; // Each player's doubloon count at the checkpoint
+  collectedDoubloons: string[]; // Doubloon entity ids already collected at the checkpoint
 }
 
 export interface GameState {
   frame: number;
   players: Map<string, PlayerState>;
   entities: Entity[];
+  checkpoint?: CheckpointData; // Last checkpoint raised; dying respawns here instead of failing
   levelComplete?: boolean;
   levelFailed?: boolean;
+  race?: RaceState; // Only in race mode
+}
+
+// A race on a shared level: everyone is held at the start until the countdown ends
+export interface RaceState {
+  startFrame: number;
+  finishFrames: { [playerId: string]: number };
+  // Each racer respawns at the last checkpoint they touched themselves (pixels)
+  respawns: { [playerId: string]: { entityId: string; x: number; y: number } };
+}
+
+// One line of the race results screen
+export interface RaceResult {
+  playerId: string;
+  characterType: CharacterType;
+  place: number;
+  finishFrames: number | null; // frames from the start signal, or null if they didn't finish
+  doubloons: number;
 }
 
 export interface SerializedGameState {
   frame: number;
   players: { [key: string]: PlayerState };
   entities: Entity[];
+  checkpoint?: CheckpointData;
+  levelComplete?: boolean;
+  levelFailed?: boolean;
+  race?: RaceState;
 }
 
-export interface GameMessage {
-  type: 'input' | 'state' | 'join' | 'leave';
-  data: any;
-  playerId?: string;
-  timestamp?: number;
+// A player waiting in a multiplayer room before the host starts the game
+export interface LobbyPlayer {
+  id: string;
+  characterType: CharacterType;
+  ready: boolean;
+  isHost: boolean;
+  // False while a dropped player's seat is held for them to reconnect
+  connected: boolean;
 }
 
-export type GameMode = 'menu' | 'campaign' | 'multiplayer';
+export type GameMode = 'menu' | 'campaign' | 'multiplayer' | 'race' | 'spectate' | 'voyage';
+
+// What a multiplayer room plays: co-op through the level, or a race to the treasure
+export type RoomMode = Extract<GameMode, 'multiplayer' | 'race'>;
 
 export enum CharacterType {
   PIRATE = 'pirate',
@@ -0,0 +1,166 @@
+export interface VoyageResult {
+  seed: string;
+  metres: number;
+  doubloons: number;
+  best: number; // furthest on this seed, this voyage included
+  isNewBest: boolean;
+}
+
+export interface VoyageResultsActions {
+  onSailAgain: () => void;
+  onNewVoyage: () => void;
+  onMenu: () => void;
+}
+
+/**
+ * Shown when an endless voyage ends: how far it got, and the seed to share or sail again.
+ */
+export class VoyageResultsScreen {
+  private container: HTMLDivElement | null = null;
+
+  public show(result: VoyageResult, actions: VoyageResultsActions) {
+    this.hide();
+    this.attachStyles();
+
+    this.container = document.createElement('div');
+    this.container.id = 'voyage-results';
+    this.container.innerHTML = `
+      <div class="voyage-results-panel">
+        <h2 class="voyage-results-title">🧭 ${result.isNewBest ? 'Furthest voyage yet!' : 'Lost at sea!'}</h2>
+        <div class="voyage-results-distance">${result.metres} m</div>
+        <div class="voyage-results-stats">
+          <span>💰 ${result.doubloons}</span>
+          <span>🏆 Best ${result.best} m</span>
+        </div>
+        <div class="voyage-results-seed">Seed: <strong>${result.seed}</strong></div>
+        <div class="voyage-results-buttons">
+          <button id="voyage-results-again" class="voyage-results-btn">Sail Again</button>
+          <button id="voyage-results-new" class="voyage-results-btn">New Voyage</button>
+          <button id="voyage-results-copy" class="voyage-results-btn secondary">Copy Link</button>
+          <button id="voyage-results-menu" class="voyage-results-btn secondary">Menu</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(this.container);
+
+    const wire = (id: string, onClick: () => void) => {
+      const button = document.getElementById(id);
+      if (button) {
+        button.onclick = () => {
+          this.hide();
+          onClick();
+        };
+      }
+    };
+    wire('voyage-results-again', actions.onSailAgain);
+    wire('voyage-results-new', actions.onNewVoyage);
+    wire('voyage-results-menu', actions.onMenu);
+
+    const copyBtn = document.getElementById('voyage-results-copy');
+    if (copyBtn) {
+      copyBtn.onclick = async () => {
+        const link = `${location.origin}${location.pathname}?voyage=${result.seed}`;
+        try {
+          await navigator.clipboard.writeText(link);
+          copyBtn.textContent = 'Copied!';
+        } catch (e) {
+          console.warn('Failed to copy voyage link:', e);
+          prompt('Copy this link to share the voyage:', link);
+        }
+      };
+    }
+  }
+
+  public isShown(): boolean {
+    return this.container !== null;
+  }
+
+  public hide() {
+    if (this.container && this.container.parentNode) {
+      this.container.parentNode.removeChild(this.container);
+      this.container = null;
+    }
+  }
+
+  private attachStyles() {
+    if (document.getElementById('voyage-results-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'voyage-results-styles';
+    style.textContent = `
+      #voyage-results {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        z-index: 900;
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        background: rgba(10, 22, 40, 0.85);
+      }
+
+      .voyage-results-panel {
+        min-width: 420px;
+        padding: 30px 40px;
+        background: linear-gradient(180deg, #132744 0%, #1d4e6a 100%);
+        border: 3px solid #ffd700;
+        border-radius: 12px;
+        color: white;
+        font-family: 'Georgia', serif;
+        text-align: center;
+        box-shadow: 0 10px 40px rgba(0, 0, 0, 0.6);
+      }
+
+      .voyage-results-title {
+        margin: 0 0 10px 0;
+        color: #ffd700;
+        letter-spacing: 1px;
+      }
+
+      .voyage-results-distance {
+        font-size: 56px;
+        font-weight: bold;
+        margin-bottom: 10px;
+      }
+
+      .voyage-results-stats {
+        display: flex;
+        justify-content: center;
+        gap: 30px;
+        margin-bottom: 15px;
+        color: #87ceeb;
+      }
+
+      .voyage-results-seed {
+        margin-bottom: 20px;
+        letter-spacing: 2px;
+      }
+
+      .voyage-results-buttons {
+        display: flex;
+        justify-content: center;
+        flex-wrap: wrap;
+        gap: 10px;
+      }
+
+      .voyage-results-btn {
+        padding: 10px 18px;
+        font-family: 'Georgia', serif;
+        font-size: 15px;
+        color: #1a1a1a;
+        background: #ffd700;
+        border: none;
+        border-radius: 6px;
+        cursor: pointer;
+      }
+
+      .voyage-results-btn.secondary {
+        color: white;
+        background: rgba(255, 255, 255, 0.15);
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}